@@ -0,0 +1,164 @@
+// bibliography.js
+// Detects which bibliography backend a compiled document needs and parses its logs
+
+const fs = require('fs-extra');
+const path = require('path');
+
+// Log lines that mean another engine pass (or a biber run) would change the output
+const RERUN_REGEX = /(Rerun to get|Label\(s\) may have changed|Please \(?re\)?run (Biber|BibTeX|LaTeX)|Rerun LaTeX|rerunfilecheck Warning: File .* has changed)/;
+
+/**
+ * Look at the first pass output to decide between biber, bibtex or nothing.
+ * biblatex writes a .bcf control file (and only asks for biber when that backend is used),
+ * classic \bibliography documents leave \bibdata in the .aux file.
+ */
+function detectBibliographyBackend(outputDir, jobName) {
+  const bcfPath = path.join(outputDir, `${jobName}.bcf`);
+  const auxPath = path.join(outputDir, `${jobName}.aux`);
+  const logPath = path.join(outputDir, `${jobName}.log`);
+  const logContent = fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8') : '';
+
+  if (fs.existsSync(bcfPath) && !/Please \(re\)run BibTeX/.test(logContent)) {
+    return 'biber';
+  }
+  if (fs.existsSync(auxPath) && /\\bibdata\{/.test(fs.readFileSync(auxPath, 'utf8'))) {
+    return 'bibtex';
+  }
+  return null;
+}
+
+function needsRerun(logContent) {
+  return RERUN_REGEX.test(logContent || '');
+}
+
+function normalizeBibPath(filePath, rootDir) {
+  if (!filePath) return null;
+  let normalized = filePath.replace(/\\/g, '/');
+  if (rootDir) {
+    const root = rootDir.replace(/\\/g, '/').replace(/\/$/, '');
+    if (normalized.startsWith(root + '/')) {
+      normalized = normalized.slice(root.length + 1);
+    } else if (path.isAbsolute(normalized)) {
+      // Biber reports its own temporary copies of the data sources
+      return path.posix.basename(normalized);
+    }
+  }
+  return normalized.replace(/^\.\//, '');
+}
+
+/**
+ * Parse a BibTeX .blg file into `{ errors, warnings }` diagnostics.
+ */
+function parseBibtexLog(rawLog, rootDir) {
+  const errors = [];
+  const warnings = [];
+  const lines = (rawLog || '').replace(/\r\n?/g, '\n').split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // "Warning--I didn't find a database entry for "foo""
+    const warningMatch = line.match(/^Warning--(.*)$/);
+    if (warningMatch) {
+      // Entry warnings are followed by "--line 12 of file refs.bib"
+      const locationMatch = (lines[i + 1] || '').match(/^--line (\d+) of file (.+)$/);
+      warnings.push({
+        severity: 'warning',
+        type: /didn't find a database entry/.test(warningMatch[1]) ? 'undefined-citation' : 'bibliography',
+        message: warningMatch[1].trim(),
+        file: locationMatch ? normalizeBibPath(locationMatch[2].trim(), rootDir) : null,
+        line: locationMatch ? parseInt(locationMatch[1], 10) : null,
+        package: 'BibTeX'
+      });
+      if (locationMatch) i++;
+      continue;
+    }
+
+    // Syntax errors end with "---line 12 of file refs.bib", possibly on a following line
+    const errorLocation = line.match(/---line (\d+) of file (.+)$/);
+    if (errorLocation) {
+      const message = line.replace(/---line \d+ of file .+$/, '').trim() || (lines[i - 1] || '').trim();
+      errors.push({
+        severity: 'error',
+        type: 'bibliography',
+        message: message || 'BibTeX syntax error',
+        file: normalizeBibPath(errorLocation[2].trim(), rootDir),
+        line: parseInt(errorLocation[1], 10),
+        package: 'BibTeX'
+      });
+      continue;
+    }
+
+    const databaseMatch = line.match(/^I couldn't open (?:database|style) file (.+)$/);
+    if (databaseMatch) {
+      errors.push({
+        severity: 'error',
+        type: 'missing-file',
+        message: line.trim(),
+        file: null,
+        line: null,
+        package: 'BibTeX'
+      });
+      // The following "---line N of file x.aux" points into the aux file, not the project
+      if (/^---line \d+ of file/.test(lines[i + 1] || '')) i++;
+      continue;
+    }
+
+    if (/^I found no (\\bibdata|\\bibstyle|\\citation) command/.test(line)) {
+      errors.push({
+        severity: 'error',
+        type: 'bibliography',
+        message: line.replace(/---while reading file .*$/, '').trim(),
+        file: null,
+        line: null,
+        package: 'BibTeX'
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Parse a Biber .blg file into `{ errors, warnings }` diagnostics.
+ */
+function parseBiberLog(rawLog, rootDir) {
+  const errors = [];
+  const warnings = [];
+  const lines = (rawLog || '').replace(/\r\n?/g, '\n').split('\n');
+
+  for (const line of lines) {
+    // "[123] Utils.pm:409> WARN - I didn't find a database entry for 'foo' (section 0)"
+    const match = line.match(/^\[\d+\]\s+\S+>\s+(ERROR|WARN)\s+-\s+(.*)$/);
+    if (!match) continue;
+
+    const message = match[2].trim();
+    // BibTeX subsystem messages carry the data source and line, e.g. "... /tmp/x/refs.bib_123.utf8, line 7, ..."
+    const locationMatch = message.match(/(?:file '|\s)([^\s',]+\.bib)(?:_\d+\.utf8)?'?,? line (\d+)/);
+    const entry = {
+      severity: match[1] === 'ERROR' ? 'error' : 'warning',
+      type: /didn't find a database entry/.test(message) ? 'undefined-citation' : 'bibliography',
+      message,
+      file: locationMatch ? normalizeBibPath(locationMatch[1], rootDir) : null,
+      line: locationMatch ? parseInt(locationMatch[2], 10) : null,
+      package: 'Biber'
+    };
+    if (/Cannot find '([^']+)'/.test(message)) {
+      entry.type = 'missing-file';
+    }
+    (entry.severity === 'error' ? errors : warnings).push(entry);
+  }
+
+  return { errors, warnings };
+}
+
+function parseBibliographyLog(rawLog, backend, options = {}) {
+  const { rootDir = null } = options;
+  return backend === 'biber' ? parseBiberLog(rawLog, rootDir) : parseBibtexLog(rawLog, rootDir);
+}
+
+module.exports = {
+  detectBibliographyBackend,
+  needsRerun,
+  parseBibliographyLog
+};
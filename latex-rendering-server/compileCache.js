@@ -0,0 +1,86 @@
+// compileCache.js
+// Content-addressed cache of finished compiles: identical inputs return the stored result
+
+const crypto = require('crypto');
+
+// Bump when the compile pipeline changes in a way that alters output for the same inputs
+const CACHE_VERSION = 1;
+const MAX_CACHE_ENTRIES = parseInt(process.env.COMPILE_CACHE_ENTRIES || '100', 10);
+const MAX_CACHE_BYTES = parseInt(process.env.COMPILE_CACHE_BYTES || String(256 * 1024 * 1024), 10);
+
+// Insertion ordered, so the first key is always the least recently used entry
+const cache = new Map();
+let cacheBytes = 0;
+
+/**
+ * Hash everything that can influence the output: sources, assets, main file, engine and options.
+ */
+function computeInputHash({ files = [], images = [], latex = '', mainFile = null, engine, format, options = {} }) {
+  const hash = crypto.createHash('sha256');
+  hash.update(`v${CACHE_VERSION}\0`);
+  hash.update(JSON.stringify({ mainFile, engine, format, options }));
+  hash.update('\0');
+  hash.update(latex || '');
+
+  const sortedFiles = files
+    .filter(file => file && file.path)
+    .slice()
+    .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  for (const file of sortedFiles) {
+    hash.update(`\0file\0${file.path}\0`);
+    hash.update(typeof file.data === 'string' ? `data:${file.data}` : `text:${file.content || ''}`);
+  }
+
+  const sortedImages = images
+    .filter(image => image && image.name)
+    .slice()
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  for (const image of sortedImages) {
+    hash.update(`\0image\0${image.name}\0`);
+    hash.update(image.data || '');
+  }
+
+  return hash.digest('hex');
+}
+
+function entrySize(result) {
+  return Buffer.byteLength(JSON.stringify(result));
+}
+
+function getCachedResult(key) {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  // Refresh its position so it is evicted last
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry.result;
+}
+
+function setCachedResult(key, result) {
+  const size = entrySize(result);
+  if (size > MAX_CACHE_BYTES) return;
+
+  if (cache.has(key)) {
+    cacheBytes -= cache.get(key).size;
+    cache.delete(key);
+  }
+  cache.set(key, { result, size });
+  cacheBytes += size;
+
+  while (cache.size > MAX_CACHE_ENTRIES || cacheBytes > MAX_CACHE_BYTES) {
+    const oldestKey = cache.keys().next().value;
+    cacheBytes -= cache.get(oldestKey).size;
+    cache.delete(oldestKey);
+  }
+}
+
+function getCacheStats() {
+  return { entries: cache.size, bytes: cacheBytes };
+}
+
+module.exports = {
+  computeInputHash,
+  getCachedResult,
+  setCachedResult,
+  getCacheStats
+};
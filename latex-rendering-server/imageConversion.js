@@ -0,0 +1,183 @@
+// imageConversion.js
+// Graphics the engines cannot include (SVG, EPS, WebP, HEIC, GIF, TIFF) are converted to PDF or PNG
+// before compiling, and \includegraphics references are pointed at the converted files
+
+const fs = require('fs-extra');
+const path = require('path');
+
+// Formats pdfLaTeX, XeLaTeX and LuaLaTeX all include directly
+const NATIVE_FORMATS = ['pdf', 'png', 'jpeg'];
+
+// Vector formats become PDF, raster formats PNG
+const CONVERSION_TARGETS = {
+  svg: 'pdf',
+  eps: 'pdf',
+  gif: 'png',
+  webp: 'png',
+  tiff: 'png',
+  heic: 'png'
+};
+
+// Extensions tried for \includegraphics{name} without one: graphicx's own list first, then convertible ones
+const NATIVE_EXTENSIONS = [
+  '.pdf', '.png', '.jpg', '.mps', '.jpeg', '.jbig2', '.jb2', '.PDF', '.PNG', '.JPG', '.JPEG', '.JBIG2', '.JB2'
+];
+const CONVERTIBLE_EXTENSIONS = ['.svg', '.eps', '.ps', '.gif', '.webp', '.tif', '.tiff', '.heic', '.heif'];
+
+const HEADER_BYTES = 4096;
+
+function readHeader(filePath) {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(HEADER_BYTES);
+    const bytesRead = fs.readSync(fd, buffer, 0, HEADER_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Identify an image by its contents rather than its name, so a WebP saved as .png is still caught.
+ * Returns 'pdf', 'png', 'jpeg', 'gif', 'webp', 'tiff', 'heic', 'eps', 'svg' or null.
+ */
+function detectImageFormat(filePath) {
+  const header = readHeader(filePath);
+  const ascii = header.toString('latin1');
+  if (ascii.startsWith('%PDF')) return 'pdf';
+  if (header[0] === 0x89 && ascii.slice(1, 4) === 'PNG') return 'png';
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) return 'jpeg';
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) return 'gif';
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') return 'webp';
+  if (ascii.startsWith('II*\0') || ascii.startsWith('MM\0*')) return 'tiff';
+  if (ascii.slice(4, 8) === 'ftyp' && /^(heic|heix|hevc|hevx|heim|heis|mif1|msf1)$/.test(ascii.slice(8, 12))) return 'heic';
+  // PostScript, plain or with the binary DOS EPS header
+  if (ascii.startsWith('%!PS') || (header[0] === 0xc5 && header[1] === 0xd0 && header[2] === 0xd3 && header[3] === 0xc6)) return 'eps';
+  if (/^\uFEFF?\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(ascii)) return 'svg';
+  return null;
+}
+
+// Directories listed in \graphicspath{{figures/}{images/}}, as project-relative paths
+function parseGraphicsPaths(source) {
+  const directories = [];
+  for (const match of source.matchAll(/\\graphicspath\s*\{((?:\{[^{}]*\}\s*)*)\}/g)) {
+    for (const entry of match[1].matchAll(/\{([^{}]*)\}/g)) {
+      directories.push(entry[1]);
+    }
+  }
+  return directories;
+}
+
+// Paths as written in \includegraphics commands
+function findGraphicsReferences(source) {
+  const withoutComments = source.replace(/(^|[^\\])%.*$/gm, '$1');
+  return [...withoutComments.matchAll(/\\includegraphics\*?(?:\[[^\]]*\])*\s*\{([^}]+)\}/g)].map(match => match[1].trim());
+}
+
+/**
+ * Find the project file an \includegraphics reference points at, the way graphicx searches:
+ * each extension is tried in the project root and then every \graphicspath directory before
+ * the next extension. Directories are prefixed literally, as TeX does. Returns a
+ * project-relative path or null.
+ */
+function resolveGraphicsReference(rootDir, reference, graphicsPaths) {
+  const hasExtension = path.posix.extname(reference) !== '';
+  const extensions = hasExtension ? [''] : [...NATIVE_EXTENSIONS, ...CONVERTIBLE_EXTENSIONS];
+  for (const extension of extensions) {
+    for (const directory of ['', ...graphicsPaths]) {
+      const candidate = path.posix.normalize(`${directory}${reference}${extension}`);
+      if (candidate.startsWith('..') || path.posix.isAbsolute(candidate)) continue;
+      const candidatePath = path.join(rootDir, candidate);
+      if (fs.existsSync(candidatePath) && fs.statSync(candidatePath).isFile()) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Describe the conversion a project file needs as `{ source, format, target, output }`,
+ * or null when the engines can include it as it is (or it is not an image at all).
+ */
+function planConversion(rootDir, relativePath) {
+  const format = detectImageFormat(path.join(rootDir, relativePath));
+  if (!format || NATIVE_FORMATS.includes(format)) return null;
+  const target = CONVERSION_TARGETS[format];
+  const parsed = path.posix.parse(relativePath);
+  // The format goes into the name so logo.svg and logo.pdf can both exist
+  const output = path.posix.join(parsed.dir, `${parsed.name}-${format}.${target}`);
+  return { source: relativePath, format, target, output };
+}
+
+// A conversion from an earlier build in a warm workspace is reused until the source changes
+function isConversionCurrent(rootDir, conversion) {
+  const outputPath = path.join(rootDir, conversion.output);
+  if (!fs.existsSync(outputPath)) return false;
+  return fs.statSync(outputPath).mtimeMs >= fs.statSync(path.join(rootDir, conversion.source)).mtimeMs;
+}
+
+/**
+ * The command that performs a conversion, run from the project root.
+ * Paths start with "./" so a file named like an option is still read as a file.
+ */
+function conversionCommand({ source, format, output }) {
+  const input = `./${source}`;
+  const target = `./${output}`;
+  switch (format) {
+    case 'svg':
+      return { file: 'rsvg-convert', args: ['--format=pdf', '--output', target, input] };
+    case 'eps':
+      return { file: 'epstopdf', args: [`--outfile=${target}`, input] };
+    case 'webp':
+      return { file: 'dwebp', args: [input, '-o', target] };
+    case 'heic':
+      return { file: 'heif-convert', args: [input, target] };
+    default:
+      // GIF and TIFF through ImageMagick; only the first frame or page
+      return { file: 'convert', args: [`${input}[0]`, target] };
+  }
+}
+
+// Point a reference at the converted file, keeping the directory part as written
+function convertedReference(reference, conversion) {
+  const fileName = path.posix.basename(reference);
+  return `${reference.slice(0, reference.length - fileName.length)}${path.posix.basename(conversion.output)}`;
+}
+
+/**
+ * Replace \includegraphics paths found in `replacements` (a Map of written path -> new path).
+ */
+function rewriteGraphicsReferences(source, replacements) {
+  if (replacements.size === 0) return source;
+  return source.replace(/(\\includegraphics\*?(?:\[[^\]]*\])*\s*\{)([^}]+)(\})/g, (match, before, reference, after) => {
+    const replacement = replacements.get(reference.trim());
+    return replacement ? `${before}${replacement}${after}` : match;
+  });
+}
+
+/**
+ * Load graphicx in a document that does not, with the pdftex driver only under pdfLaTeX
+ * (XeLaTeX and LuaLaTeX select their own driver). The package goes on the \documentclass
+ * line so every later line keeps the number the log and SyncTeX report for it.
+ */
+function ensureGraphicxPackage(source, engine) {
+  if (/\\usepackage(\[[^\]]*\])?\{graphicx\}/.test(source) || !source.includes('\\documentclass')) {
+    return source;
+  }
+  const graphicxPackage = engine === 'pdflatex' ? '\\usepackage[pdftex]{graphicx}' : '\\usepackage{graphicx}';
+  return source.replace(/\\documentclass.*?\}/, (documentClass) => `${documentClass}${graphicxPackage}`);
+}
+
+module.exports = {
+  detectImageFormat,
+  parseGraphicsPaths,
+  findGraphicsReferences,
+  resolveGraphicsReference,
+  planConversion,
+  isConversionCurrent,
+  conversionCommand,
+  convertedReference,
+  rewriteGraphicsReferences,
+  ensureGraphicxPackage
+};
@@ -0,0 +1,224 @@
+// jobQueue.js
+// Compile jobs with bounded concurrency, wall-clock and output-size limits, and cancellation
+
+const crypto = require('crypto');
+const fs = require('fs-extra');
+const os = require('os');
+
+const MAX_CONCURRENT_JOBS = parseInt(process.env.MAX_CONCURRENT_JOBS || String(Math.max(1, os.cpus().length)), 10);
+const MAX_QUEUED_JOBS = parseInt(process.env.MAX_QUEUED_JOBS || '50', 10);
+const JOB_TIMEOUT_MS = parseInt(process.env.JOB_TIMEOUT_MS || '60000', 10);
+const MAX_OUTPUT_BYTES = parseInt(process.env.MAX_OUTPUT_BYTES || String(50 * 1024 * 1024), 10);
+const OUTPUT_CHECK_INTERVAL_MS = 500;
+// Finished jobs stay queryable for a while so clients can look up how they ended
+const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+const JOB_ID_REGEX = /^[A-Za-z0-9_-]{8,64}$/;
+
+const jobs = new Map();
+const waiting = [];
+let runningCount = 0;
+
+/**
+ * Register a new job. Clients may choose the id (so they can cancel before the response arrives);
+ * otherwise, or when the id is malformed or taken, a random one is used.
+ */
+function createJob(requestedId) {
+  const id = requestedId && JOB_ID_REGEX.test(requestedId) && !jobs.has(requestedId)
+    ? requestedId
+    : crypto.randomUUID();
+  const job = {
+    id,
+    status: 'queued',
+    stopReason: null,
+    createdAt: Date.now(),
+    startedAt: null,
+    finishedAt: null,
+    processes: new Set(),
+    listeners: new Set()
+  };
+  jobs.set(id, job);
+  return job;
+}
+
+function getJob(id) {
+  return jobs.get(id) || null;
+}
+
+function isQueueFull() {
+  return waiting.length >= MAX_QUEUED_JOBS;
+}
+
+function startNextJobs() {
+  while (runningCount < MAX_CONCURRENT_JOBS && waiting.length > 0) {
+    waiting.shift().start();
+  }
+}
+
+/**
+ * Run `task(job)` once a worker slot is free and resolve with its result.
+ * Resolves with null when the job was stopped before it started.
+ */
+function runJob(job, task) {
+  return new Promise((resolve, reject) => {
+    const start = () => {
+      if (job.stopReason) {
+        job.status = 'finished';
+        job.finishedAt = Date.now();
+        resolve(null);
+        return;
+      }
+
+      runningCount++;
+      job.status = 'running';
+      job.startedAt = Date.now();
+      const timeout = setTimeout(() => stopJob(job, 'timeout'), JOB_TIMEOUT_MS);
+
+      Promise.resolve()
+        .then(() => task(job))
+        .then(resolve, reject)
+        .finally(() => {
+          clearTimeout(timeout);
+          runningCount--;
+          job.status = 'finished';
+          job.finishedAt = Date.now();
+          startNextJobs();
+        });
+    };
+
+    if (runningCount < MAX_CONCURRENT_JOBS) {
+      start();
+    } else {
+      waiting.push({ job, start });
+      emitJobEvent(job, 'stage', { stage: 'queued', queuePosition: waiting.length });
+    }
+  });
+}
+
+/**
+ * Send a progress event ('stage' or 'log') to everyone following the job.
+ */
+function emitJobEvent(job, type, data) {
+  for (const listener of job.listeners) {
+    try {
+      listener(type, data);
+    } catch (error) {
+      console.error(`Error delivering ${type} event for job ${job.id}:`, error);
+    }
+  }
+}
+
+// Follow a job's progress events; returns a function that stops following
+function onJobEvent(job, listener) {
+  job.listeners.add(listener);
+  return () => job.listeners.delete(listener);
+}
+
+/**
+ * Stop a queued or running job, killing any processes it started.
+ * `reason` is 'cancelled', 'timeout' or 'output-limit'. Returns false if the job had already ended.
+ */
+function stopJob(job, reason) {
+  if (job.stopReason || job.status === 'finished') return false;
+  job.stopReason = reason;
+  console.log(`Stopping job ${job.id}: ${reason}`);
+
+  for (const child of job.processes) {
+    killProcessTree(child);
+  }
+
+  // A queued job is taken out of line and settles right away
+  const index = waiting.findIndex(entry => entry.job === job);
+  if (index !== -1) {
+    const [entry] = waiting.splice(index, 1);
+    entry.start();
+  }
+  return true;
+}
+
+// Commands are spawned detached, which makes each the leader of its own process group;
+// killing the group also stops anything the engine started (biber, makeindex)
+function killProcessTree(child) {
+  try {
+    if (os.platform() !== 'win32' && child.pid) {
+      process.kill(-child.pid, 'SIGKILL');
+    } else {
+      child.kill('SIGKILL');
+    }
+  } catch (error) {
+    if (error.code !== 'ESRCH') console.error(`Error killing process ${child.pid}:`, error);
+  }
+}
+
+/**
+ * Stop the job if the given output files grow past the size limit. Returns a function that stops watching.
+ */
+function watchOutputSize(job, filePaths) {
+  const timer = setInterval(() => {
+    let totalBytes = 0;
+    for (const filePath of filePaths) {
+      try {
+        totalBytes += fs.statSync(filePath).size;
+      } catch {
+        // Not written yet
+      }
+    }
+    if (totalBytes > MAX_OUTPUT_BYTES) {
+      stopJob(job, 'output-limit');
+    }
+  }, OUTPUT_CHECK_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+function stopReasonMessage(reason) {
+  switch (reason) {
+    case 'cancelled':
+      return 'Compilation cancelled';
+    case 'timeout':
+      return `Compilation timed out after ${Math.round(JOB_TIMEOUT_MS / 1000)} seconds`;
+    case 'output-limit':
+      return `Compilation output exceeded ${Math.round(MAX_OUTPUT_BYTES / (1024 * 1024))} MB`;
+    default:
+      return 'Compilation stopped';
+  }
+}
+
+function describeJob(job) {
+  const queuePosition = waiting.findIndex(entry => entry.job === job);
+  return {
+    jobId: job.id,
+    status: job.status,
+    stopReason: job.stopReason,
+    queuePosition: queuePosition === -1 ? null : queuePosition + 1,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : null,
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : null
+  };
+}
+
+function getQueueStats() {
+  return { running: runningCount, queued: waiting.length, maxConcurrent: MAX_CONCURRENT_JOBS };
+}
+
+// Forget finished jobs once nobody is likely to ask about them
+function cleanupJobs() {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && job.finishedAt < cutoff) jobs.delete(id);
+  }
+}
+
+module.exports = {
+  createJob,
+  getJob,
+  isQueueFull,
+  runJob,
+  stopJob,
+  emitJobEvent,
+  onJobEvent,
+  watchOutputSize,
+  stopReasonMessage,
+  describeJob,
+  getQueueStats,
+  cleanupJobs
+};
@@ -0,0 +1,240 @@
+// logParser.js
+// Turns a TeX engine log into structured diagnostics mapped to source file and line
+
+const path = require('path');
+
+// TeX wraps log lines at max_print_line characters (79 by default)
+const LOG_WRAP_LIMIT = 79;
+
+const LINE_NUMBER_REGEX = /^l\.(\d+)\s?(.*)$/;
+const INPUT_LINE_REGEX = /on input line (\d+)/;
+const LINES_RANGE_REGEX = /at lines? (\d+)(?:--(\d+))?/;
+const LATEX_WARNING_REGEX = /^((?:La|pdf|Xe|Lua)TeX|Package(?: (\S+))?|Class(?: (\S+))?) Warning:\s*(.*)$/;
+const PACKAGE_INFO_REGEX = /^(LaTeX|Package(?: (\S+))?) Info:\s*(.*)$/;
+const BOX_REGEX = /^(Over|Under)full \\([vh])box/;
+
+/**
+ * Join physical log lines that TeX split at the wrap limit back into logical lines.
+ */
+function unwrapLog(rawLog) {
+  const physical = rawLog.replace(/\r\n?/g, '\n').split('\n');
+  const lines = [];
+  let buffer = '';
+  for (const line of physical) {
+    buffer += line;
+    // A line of exactly the wrap length almost always continues on the next one
+    if (line.length !== LOG_WRAP_LIMIT) {
+      lines.push(buffer);
+      buffer = '';
+    }
+  }
+  if (buffer) lines.push(buffer);
+  return lines;
+}
+
+/**
+ * Read a file name that starts at `start` (just after an opening parenthesis).
+ * File names end at whitespace, a parenthesis or the end of the line.
+ */
+function readFileName(line, start) {
+  const match = line.slice(start).match(/^("[^"]+"|[^\s()]+)/);
+  return match ? match[1].replace(/^"|"$/g, '') : null;
+}
+
+function looksLikeFile(name) {
+  return !!name && (/\.[A-Za-z0-9]{1,8}$/.test(name) || name.startsWith('./') || name.startsWith('/'));
+}
+
+/**
+ * Make a path from the log relative to the job directory so clients can map it to a project file.
+ * Files outside the job directory (TeX distribution files) keep their base name.
+ */
+function normalizeLogPath(filePath, rootDir) {
+  if (!filePath) return null;
+  let normalized = filePath.replace(/\\/g, '/');
+  if (rootDir) {
+    const root = rootDir.replace(/\\/g, '/').replace(/\/$/, '');
+    if (normalized.startsWith(root + '/')) {
+      normalized = normalized.slice(root.length + 1);
+    } else if (path.isAbsolute(normalized) || /^[A-Za-z]:\//.test(normalized)) {
+      return path.posix.basename(normalized);
+    }
+  }
+  return normalized.replace(/^\.\//, '');
+}
+
+function classifyWarning(message) {
+  if (/Reference .* undefined/.test(message)) return 'undefined-reference';
+  if (/Citation .* undefined/.test(message)) return 'undefined-citation';
+  if (/There were undefined (references|citations)/.test(message)) return 'undefined-reference';
+  if (/Label\(s\) may have changed/.test(message)) return 'rerun';
+  if (/multiply defined/.test(message)) return 'duplicate-label';
+  if (/File .* not found/.test(message)) return 'missing-file';
+  return 'warning';
+}
+
+function classifyError(message) {
+  if (/Undefined control sequence/.test(message)) return 'undefined-command';
+  if (/^LaTeX Error: Environment \S+ undefined/.test(message)) return 'undefined-environment';
+  if (/^LaTeX Error: File `[^']+' not found/.test(message)) return 'missing-file';
+  return 'error';
+}
+
+// TeX stops reading right after the undefined command, so it ends the echoed source line
+function undefinedCommandName(context, contextLines) {
+  for (const text of [context, ...contextLines.slice().reverse()]) {
+    const match = text.trim().match(/\\([A-Za-z@]+)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Parse a TeX log into `{ errors, warnings, info }`.
+ * Every entry has `severity`, `type`, `message`, `file` (relative to rootDir when possible) and `line`.
+ */
+function parseLatexLog(rawLog, options = {}) {
+  const { rootDir = null, mainFile = null } = options;
+  const lines = unwrapLog(rawLog || '');
+  const errors = [];
+  const warnings = [];
+  const info = [];
+
+  // Stack of currently open files, tracked through the log's parentheses
+  const fileStack = [];
+  const currentFile = () => {
+    for (let i = fileStack.length - 1; i >= 0; i--) {
+      if (fileStack[i]) return normalizeLogPath(fileStack[i], rootDir);
+    }
+    return mainFile;
+  };
+
+  const makeEntry = (severity, type, message, line, extra = {}) => ({
+    severity,
+    type,
+    message: message.trim(),
+    file: currentFile(),
+    line: line ? parseInt(line, 10) : null,
+    ...extra
+  });
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Errors: "! Message" followed (possibly a few lines later) by "l.<n> context"
+    if (line.startsWith('!')) {
+      const message = line.replace(/^!\s*/, '');
+      if (/^==> Fatal error occurred/.test(message) || message === 'Emergency stop.') {
+        continue;
+      }
+      const contextLines = [];
+      let lineNumber = null;
+      let context = '';
+      let lastContextIndex = i;
+      for (let j = i + 1; j < Math.min(lines.length, i + 12); j++) {
+        const lineMatch = lines[j].match(LINE_NUMBER_REGEX);
+        if (lineMatch) {
+          lineNumber = lineMatch[1];
+          context = lineMatch[2];
+          lastContextIndex = j;
+          break;
+        }
+        if (lines[j].startsWith('!')) break;
+        contextLines.push(lines[j]);
+      }
+      const fullMessage = [message, ...contextLines.filter(l => l.trim() && !/^(See the|Type\s+H|\.\s*$)/.test(l.trim()))]
+        .join('\n');
+      const type = classifyError(message);
+      const command = type === 'undefined-command' ? undefinedCommandName(context, contextLines) : null;
+      errors.push(makeEntry('error', type, message, lineNumber, {
+        context: context.trim(),
+        raw: fullMessage,
+        ...(command ? { command } : {})
+      }));
+      // Error context echoes source text, whose parentheses must not affect file tracking
+      i = lastContextIndex;
+      continue;
+    }
+
+    // "./chapter.tex:12: message" style errors from -file-line-error
+    const fileLineMatch = line.match(/^(\.?\/?[^:\s]+\.[A-Za-z]+):(\d+):\s*(.*)$/);
+    if (fileLineMatch) {
+      errors.push({
+        severity: 'error',
+        type: 'error',
+        message: fileLineMatch[3].trim(),
+        file: normalizeLogPath(fileLineMatch[1], rootDir),
+        line: parseInt(fileLineMatch[2], 10)
+      });
+      continue;
+    }
+
+    const warningMatch = line.match(LATEX_WARNING_REGEX);
+    if (warningMatch) {
+      // Package warnings continue on lines prefixed with "(pkgname)"
+      let message = warningMatch[4];
+      const packageName = warningMatch[2] || warningMatch[3] || null;
+      while (i + 1 < lines.length && /^\(([^)]+)\)\s+/.test(lines[i + 1]) && lines[i + 1].trim() !== '') {
+        i++;
+        message += ' ' + lines[i].replace(/^\([^)]+\)\s+/, '');
+      }
+      const inputLine = message.match(INPUT_LINE_REGEX);
+      const type = classifyWarning(message);
+      warnings.push(makeEntry('warning', type, message, inputLine ? inputLine[1] : null, packageName ? { package: packageName } : {}));
+      continue;
+    }
+
+    const boxMatch = line.match(BOX_REGEX);
+    if (boxMatch) {
+      const rangeMatch = line.match(LINES_RANGE_REGEX);
+      warnings.push(makeEntry('warning', 'bad-box', line, rangeMatch ? rangeMatch[1] : null));
+      // Skip the box content dump that follows
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '' && !lines[i + 1].startsWith('(') && !lines[i + 1].startsWith(')')) {
+        i++;
+      }
+      continue;
+    }
+
+    const infoMatch = line.match(PACKAGE_INFO_REGEX);
+    if (infoMatch && !/^LaTeX Font Info/.test(line)) {
+      const inputLine = infoMatch[3].match(INPUT_LINE_REGEX);
+      info.push(makeEntry('info', 'info', infoMatch[3], inputLine ? inputLine[1] : null, infoMatch[2] ? { package: infoMatch[2] } : {}));
+    } else if (/^No file .*\.(aux|toc|bbl|lof|lot|out|nav)\.?$/.test(line)) {
+      info.push(makeEntry('info', 'info', line, null));
+    }
+
+    // Track file opens and closes so diagnostics land on the right file
+    for (let pos = 0; pos < line.length; pos++) {
+      const char = line[pos];
+      if (char === '(') {
+        const name = readFileName(line, pos + 1);
+        if (looksLikeFile(name)) {
+          fileStack.push(name);
+          pos += name.length;
+        } else {
+          fileStack.push(null);
+        }
+      } else if (char === ')') {
+        fileStack.pop();
+      }
+    }
+  }
+
+  return { errors, warnings, info };
+}
+
+/**
+ * Short human readable summary used for the top-level `error` field.
+ */
+function summarizeDiagnostics(diagnostics) {
+  const first = diagnostics.errors[0];
+  if (!first) return null;
+  const location = first.file ? `${first.file}${first.line ? `:${first.line}` : ''}: ` : '';
+  return `${location}${first.message}`;
+}
+
+module.exports = {
+  parseLatexLog,
+  summarizeDiagnostics,
+  unwrapLog
+};
@@ -0,0 +1,152 @@
+// outputFormats.js
+// Commands and post-processing for the non-PDF outputs of /render: page images (PNG, SVG) and HTML
+
+const fs = require('fs-extra');
+const path = require('path');
+
+const SUPPORTED_FORMATS = ['pdf', 'png', 'svg', 'html'];
+const DEFAULT_DPI = 150;
+const MIN_DPI = 36;
+const MAX_DPI = 600;
+// Rasterizing long documents is slow and produces huge responses
+const MAX_IMAGE_PAGES = parseInt(process.env.MAX_IMAGE_PAGES || '50', 10);
+
+// poppler-utils tools, found on PATH
+const PDFINFO = 'pdfinfo';
+const PDFTOCAIRO = 'pdftocairo';
+const MAKE4HT = 'make4ht';
+
+const ASSET_MIME_TYPES = {
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif'
+};
+
+function isSupportedFormat(format) {
+  return SUPPORTED_FORMATS.includes(format);
+}
+
+const toPositiveInt = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Clamp the client's page image options: `{ dpi, firstPage, lastPage }`.
+ */
+function normalizeImageOptions(options = {}) {
+  const dpi = Math.min(Math.max(toPositiveInt(options.dpi, DEFAULT_DPI), MIN_DPI), MAX_DPI);
+  const firstPage = toPositiveInt(options.firstPage, 1);
+  const lastPage = Math.min(
+    Math.max(toPositiveInt(options.lastPage, firstPage + MAX_IMAGE_PAGES - 1), firstPage),
+    firstPage + MAX_IMAGE_PAGES - 1
+  );
+  return { dpi, firstPage, lastPage };
+}
+
+function pageCountCommand(pdfPath) {
+  return { file: PDFINFO, args: [pdfPath] };
+}
+
+function parsePageCount(pdfinfoOutput) {
+  const match = (pdfinfoOutput || '').match(/^Pages:\s+(\d+)/m);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Commands that write the requested pages as `${prefix}-<page>.<format>`.
+ * pdftocairo writes PNGs for a page range in one run but only one page per SVG file.
+ */
+function pageImageCommands(format, pdfPath, prefix, { dpi, firstPage, lastPage }) {
+  if (format === 'png') {
+    return [{
+      file: PDFTOCAIRO,
+      args: ['-png', '-r', String(dpi), '-f', String(firstPage), '-l', String(lastPage), pdfPath, prefix]
+    }];
+  }
+  const commands = [];
+  for (let page = firstPage; page <= lastPage; page++) {
+    commands.push({
+      file: PDFTOCAIRO,
+      args: ['-svg', '-f', String(page), '-l', String(page), pdfPath, `${prefix}-${page}.svg`]
+    });
+  }
+  return commands;
+}
+
+/**
+ * Read the images written by pageImageCommands as `[{ page, data }]` with base64 data, in page order.
+ * pdftocairo pads PNG page numbers to the width of the last page number.
+ */
+function collectPageImages(dir, prefix, format) {
+  const baseName = path.basename(prefix);
+  const pattern = new RegExp(`^${baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-(\\d+)\\.${format}$`);
+  return fs.readdirSync(dir)
+    .map(fileName => ({ fileName, match: fileName.match(pattern) }))
+    .filter(entry => entry.match)
+    .map(entry => ({
+      page: parseInt(entry.match[1], 10),
+      data: fs.readFileSync(path.join(dir, entry.fileName)).toString('base64')
+    }))
+    .sort((a, b) => a.page - b.page);
+}
+
+// tex4ht through make4ht; it runs the engine itself and writes `${jobName}.html` next to the sources
+function htmlCommand(relativeInput) {
+  return { file: MAKE4HT, args: ['--utf8', '--format', 'html5', relativeInput] };
+}
+
+// Files make4ht writes next to the sources besides the ones the engine writes anyway
+const HTML_BYPRODUCT_EXTENSIONS = ['.html', '.css', '.4ct', '.4tc', '.idv', '.lg', '.tmp', '.xref', '.dvi'];
+
+function htmlByproducts(rootDir, jobName) {
+  const escapedJobName = jobName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pictureRegex = new RegExp(`^${escapedJobName}\\d+x\\.(png|svg)$`);
+  return fs.readdirSync(rootDir)
+    .filter(fileName => pictureRegex.test(fileName)
+      || HTML_BYPRODUCT_EXTENSIONS.some(extension => fileName === `${jobName}${extension}`))
+    .map(fileName => path.join(rootDir, fileName));
+}
+
+/**
+ * Make tex4ht output self-contained: stylesheets become <style> blocks and images become data URLs.
+ * `resolvePath` maps a referenced name to a path inside the job directory and throws for anything else.
+ */
+function inlineHtmlAssets(html, rootDir, resolvePath) {
+  const readAsset = (reference) => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(reference)) return null;
+    try {
+      const assetPath = resolvePath(rootDir, decodeURIComponent(reference));
+      return fs.existsSync(assetPath) ? fs.readFileSync(assetPath) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return html
+    .replace(/<link\b[^>]*rel=["']stylesheet["'][^>]*>/gi, (tag) => {
+      const href = (tag.match(/href=["']([^"']+)["']/i) || [])[1];
+      const css = href ? readAsset(href) : null;
+      return css ? `<style>\n${css.toString('utf8')}\n</style>` : tag;
+    })
+    .replace(/(<img\b[^>]*\bsrc=["'])([^"']+)(["'])/gi, (match, before, src, after) => {
+      const mimeType = ASSET_MIME_TYPES[path.extname(src).toLowerCase()];
+      const data = mimeType ? readAsset(src) : null;
+      return data ? `${before}data:${mimeType};base64,${data.toString('base64')}${after}` : match;
+    });
+}
+
+module.exports = {
+  SUPPORTED_FORMATS,
+  isSupportedFormat,
+  normalizeImageOptions,
+  pageCountCommand,
+  parsePageCount,
+  pageImageCommands,
+  collectPageImages,
+  htmlCommand,
+  htmlByproducts,
+  inlineHtmlAssets
+};
@@ -0,0 +1,114 @@
+// packageHints.js
+// Recognizes errors caused by a missing package and attaches a fix the editor can apply:
+// load the package that defines an undefined command or environment, or upload a missing style file
+
+// Commands from common packages, by the name TeX reports as undefined
+const COMMAND_PACKAGES = {
+  toprule: 'booktabs', midrule: 'booktabs', bottomrule: 'booktabs', cmidrule: 'booktabs', addlinespace: 'booktabs',
+  SI: 'siunitx', si: 'siunitx', num: 'siunitx', qty: 'siunitx', unit: 'siunitx', ang: 'siunitx',
+  includegraphics: 'graphicx', graphicspath: 'graphicx', rotatebox: 'graphicx', scalebox: 'graphicx', resizebox: 'graphicx',
+  textcolor: 'xcolor', color: 'xcolor', colorbox: 'xcolor', fcolorbox: 'xcolor', definecolor: 'xcolor',
+  rowcolor: 'colortbl', cellcolor: 'colortbl',
+  href: 'hyperref', url: 'url', hypersetup: 'hyperref', autoref: 'hyperref',
+  cref: 'cleveref', Cref: 'cleveref',
+  text: 'amsmath', eqref: 'amsmath', DeclareMathOperator: 'amsmath', boldsymbol: 'amsmath', tfrac: 'amsmath',
+  dfrac: 'amsmath', binom: 'amsmath', operatorname: 'amsmath', intertext: 'amsmath', numberthis: 'amsmath',
+  mathbb: 'amssymb', mathfrak: 'amssymb', checkmark: 'amssymb', varnothing: 'amssymb', leqslant: 'amssymb',
+  geqslant: 'amssymb', therefore: 'amssymb', because: 'amssymb',
+  coloneqq: 'mathtools', mathclap: 'mathtools', DeclarePairedDelimiter: 'mathtools',
+  mathscr: 'mathrsfs', bm: 'bm', cancel: 'cancel', nicefrac: 'nicefrac', ce: 'mhchem',
+  qedhere: 'amsthm', theoremstyle: 'amsthm',
+  multirow: 'multirow',
+  lipsum: 'lipsum', blindtext: 'blindtext',
+  tikz: 'tikz', usetikzlibrary: 'tikz',
+  todo: 'todonotes', listoftodos: 'todonotes',
+  captionof: 'caption', captionsetup: 'caption', subcaption: 'subcaption', subref: 'subcaption',
+  lstinline: 'listings', lstset: 'listings', lstinputlisting: 'listings', mintinline: 'minted',
+  verbatiminput: 'verbatim',
+  xspace: 'xspace', ifthenelse: 'ifthen',
+  newgeometry: 'geometry', restoregeometry: 'geometry', geometry: 'geometry',
+  hl: 'soul', ul: 'soul', sout: 'ulem', uline: 'ulem',
+  citep: 'natbib', citet: 'natbib', citealp: 'natbib', citeauthor: 'natbib',
+  autocite: 'biblatex', parencite: 'biblatex', textcite: 'biblatex', printbibliography: 'biblatex', addbibresource: 'biblatex',
+  FloatBarrier: 'placeins',
+  fancyhead: 'fancyhdr', fancyfoot: 'fancyhdr', fancyhf: 'fancyhdr',
+  doublespacing: 'setspace', onehalfspacing: 'setspace', singlespacing: 'setspace', setstretch: 'setspace',
+  enquote: 'csquotes', euro: 'eurosym', degree: 'gensymb', celsius: 'gensymb',
+  titleformat: 'titlesec', titlespacing: 'titlesec',
+  setlist: 'enumitem', newlist: 'enumitem',
+  adjustbox: 'adjustbox', tcbset: 'tcolorbox', pgfplotsset: 'pgfplots', lettrine: 'lettrine',
+  algrenewcommand: 'algpseudocode', State: 'algpseudocode', Require: 'algpseudocode', Ensure: 'algpseudocode'
+};
+
+// Environments from common packages, by the name in "Environment ... undefined"
+const ENVIRONMENT_PACKAGES = {
+  align: 'amsmath', 'align*': 'amsmath', gather: 'amsmath', 'gather*': 'amsmath', multline: 'amsmath',
+  'multline*': 'amsmath', 'equation*': 'amsmath', split: 'amsmath', cases: 'amsmath', alignat: 'amsmath',
+  pmatrix: 'amsmath', bmatrix: 'amsmath', vmatrix: 'amsmath', Vmatrix: 'amsmath', matrix: 'amsmath', smallmatrix: 'amsmath',
+  proof: 'amsthm',
+  tabularx: 'tabularx', longtable: 'longtable', threeparttable: 'threeparttable',
+  tikzpicture: 'tikz', axis: 'pgfplots',
+  subfigure: 'subcaption', subtable: 'subcaption',
+  algorithm: 'algorithm', algorithmic: 'algpseudocode',
+  lstlisting: 'listings', minted: 'minted',
+  multicols: 'multicol', 'multicols*': 'multicol',
+  wrapfigure: 'wrapfig', wraptable: 'wrapfig',
+  landscape: 'pdflscape', sidewaystable: 'rotating', sidewaysfigure: 'rotating',
+  spacing: 'setspace', comment: 'comment',
+  mdframed: 'mdframed', tcolorbox: 'tcolorbox', adjustbox: 'adjustbox'
+};
+
+const MISSING_FILE_REGEX = /^LaTeX Error: File `([^']+)' not found/;
+const UNDEFINED_ENVIRONMENT_REGEX = /^LaTeX Error: Environment (\S+) undefined/;
+
+// Names come from the document, so `constructor` and the like must not reach Object.prototype
+function lookupPackage(table, name) {
+  return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : null;
+}
+
+/**
+ * The fix for one error diagnostic, or null when the error is not a missing-package one.
+ * Fixes are `{ action: 'add-package', package }` or `{ action: 'upload-file', fileName }`.
+ */
+function packageFix(diagnostic) {
+  if (diagnostic.type === 'undefined-command' && diagnostic.command) {
+    const packageName = lookupPackage(COMMAND_PACKAGES, diagnostic.command);
+    return packageName ? { action: 'add-package', package: packageName } : null;
+  }
+  const environment = diagnostic.message.match(UNDEFINED_ENVIRONMENT_REGEX);
+  if (environment) {
+    const packageName = lookupPackage(ENVIRONMENT_PACKAGES, environment[1]);
+    return packageName ? { action: 'add-package', package: packageName } : null;
+  }
+  const missingFile = diagnostic.message.match(MISSING_FILE_REGEX);
+  if (missingFile) {
+    return { action: 'upload-file', fileName: missingFile[1] };
+  }
+  return null;
+}
+
+/**
+ * Add a `fix` to every error that a missing package explains. Style and class files that are
+ * neither installed nor in the project are retyped 'missing-package'.
+ */
+function attachPackageFixes(diagnostics) {
+  return {
+    ...diagnostics,
+    errors: diagnostics.errors.map(diagnostic => {
+      const fix = packageFix(diagnostic);
+      if (!fix) return diagnostic;
+      const missingPackage = fix.action === 'upload-file' && /\.(sty|cls)$/.test(fix.fileName);
+      return {
+        ...diagnostic,
+        type: missingPackage ? 'missing-package' : diagnostic.type,
+        ...(missingPackage ? { package: fix.fileName.replace(/\.(sty|cls)$/, '') } : {}),
+        fix
+      };
+    })
+  };
+}
+
+module.exports = {
+  packageFix,
+  attachPackageFixes
+};
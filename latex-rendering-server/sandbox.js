@@ -0,0 +1,143 @@
+// sandbox.js
+// Locked-down TeX invocations: argument arrays instead of shell strings, no shell escape unless
+// the project allowlists commands, file access kept to the job directory, and OS resource limits
+
+const fs = require('fs-extra');
+const os = require('os');
+const path = require('path');
+
+// COMPILE_SANDBOX=off runs commands with the server's own environment (local development only)
+const SANDBOX_ENABLED = process.env.COMPILE_SANDBOX !== 'off';
+const MEMORY_LIMIT_MB = parseInt(process.env.SANDBOX_MEMORY_MB || '2048', 10);
+const CPU_LIMIT_SECONDS = parseInt(process.env.SANDBOX_CPU_SECONDS || '120', 10);
+const FILE_SIZE_LIMIT_MB = parseInt(process.env.SANDBOX_FILE_SIZE_MB || '200', 10);
+const OPEN_FILES_LIMIT = parseInt(process.env.SANDBOX_OPEN_FILES || '512', 10);
+
+// What projects may enable for restricted shell escape; TeX Live's own restricted list by default
+const DEFAULT_SHELL_ESCAPE_COMMANDS = ['bibtex', 'bibtex8', 'extractbb', 'kpsewhich', 'makeindex', 'repstopdf', 'epstopdf'];
+const SERVER_SHELL_ESCAPE_COMMANDS = process.env.ALLOWED_SHELL_ESCAPE_COMMANDS
+  ? process.env.ALLOWED_SHELL_ESCAPE_COMMANDS.split(',').map(command => command.trim()).filter(Boolean)
+  : DEFAULT_SHELL_ESCAPE_COMMANDS;
+const COMMAND_NAME_REGEX = /^[A-Za-z0-9_.-]+$/;
+
+// prlimit (util-linux) applies rlimits to the child without a shell in between
+const PRLIMIT_PATH = os.platform() === 'linux'
+  ? ['/usr/bin/prlimit', '/bin/prlimit'].find(candidate => fs.existsSync(candidate)) || null
+  : null;
+
+// Caches (LuaLaTeX font names, generated formats) are shared between jobs instead of living in each job directory
+const TEXMF_VAR = process.env.TEXMFVAR || path.join(os.tmpdir(), 'texmf-var');
+
+/**
+ * Split a project's requested shell escape commands into the ones this server allows and the rest.
+ */
+function resolveShellEscape(requested) {
+  const allowed = [];
+  const rejected = [];
+  const names = Array.isArray(requested) ? requested : [];
+  for (const name of new Set(names.map(value => String(value).trim()).filter(Boolean))) {
+    if (COMMAND_NAME_REGEX.test(name) && SERVER_SHELL_ESCAPE_COMMANDS.includes(name)) {
+      allowed.push(name);
+    } else {
+      rejected.push(name);
+    }
+  }
+  return { allowed, rejected };
+}
+
+// Engine flags for the allowlist: restricted shell escape with it, none at all without
+function shellEscapeArgs(allowedCommands) {
+  return allowedCommands.length > 0 ? ['-shell-restricted'] : ['-no-shell-escape'];
+}
+
+/**
+ * A minimal environment for TeX programs. kpathsea reads texmf.cnf overrides from the environment:
+ * openin_any/openout_any=p refuse absolute paths, ".." and dot files, and TEXMFOUTPUT keeps
+ * writes in the job directory. Server secrets are not passed on.
+ */
+function sandboxEnv(rootDir, allowedCommands) {
+  const env = {
+    PATH: process.env.PATH,
+    HOME: rootDir,
+    LANG: process.env.LANG || 'C.UTF-8',
+    TEXMFVAR: TEXMF_VAR,
+    TEXMFOUTPUT: rootDir,
+    openin_any: 'p',
+    openout_any: 'p',
+    shell_escape: allowedCommands.length > 0 ? 'p' : 'f',
+    shell_escape_commands: allowedCommands.join(',')
+  };
+  // Windows programs need their system variables to start at all
+  for (const name of ['SystemRoot', 'TEMP', 'TMP', 'PATHEXT']) {
+    if (process.env[name]) env[name] = process.env[name];
+  }
+  return env;
+}
+
+/**
+ * Describe how to spawn `file` with `args` for a job in rootDir, as `{ file, args, options }`
+ * for child_process.spawn (never with a shell).
+ */
+function sandboxCommand(file, args, { rootDir, shellEscapeCommands = [] }) {
+  if (!SANDBOX_ENABLED) {
+    return { file, args, options: { cwd: rootDir } };
+  }
+  const options = { cwd: rootDir, env: sandboxEnv(rootDir, shellEscapeCommands) };
+  if (!PRLIMIT_PATH) {
+    return { file, args, options };
+  }
+  return {
+    file: PRLIMIT_PATH,
+    args: [
+      `--as=${MEMORY_LIMIT_MB * 1024 * 1024}`,
+      `--cpu=${CPU_LIMIT_SECONDS}`,
+      `--fsize=${FILE_SIZE_LIMIT_MB * 1024 * 1024}`,
+      `--nofile=${OPEN_FILES_LIMIT}`,
+      '--',
+      file,
+      ...args
+    ],
+    options
+  };
+}
+
+/**
+ * Biber does not go through kpathsea, so check the data sources biblatex asked for before running it.
+ * Returns the sources that are remote or outside the job directory.
+ */
+function findUnsafeBiberSources(rootDir, jobName) {
+  const bcfPath = path.join(rootDir, `${jobName}.bcf`);
+  if (!fs.existsSync(bcfPath)) return [];
+  const content = fs.readFileSync(bcfPath, 'utf8');
+  const unsafe = [];
+  const sourceRegex = /<bcf:datasource\b([^>]*)>([^<]*)<\/bcf:datasource>/g;
+  let match;
+  while ((match = sourceRegex.exec(content)) !== null) {
+    const attributes = match[1];
+    const source = match[2].trim();
+    const isFile = !/\btype="/.test(attributes) || /\btype="file"/.test(attributes);
+    const resolved = path.resolve(rootDir, source);
+    const insideRoot = resolved === rootDir || resolved.startsWith(rootDir + path.sep);
+    if (!isFile || /^[a-z][a-z0-9+.-]*:\/\//i.test(source) || path.isAbsolute(source) || !insideRoot) {
+      unsafe.push(source);
+    }
+  }
+  return unsafe;
+}
+
+function getSandboxInfo() {
+  return {
+    enabled: SANDBOX_ENABLED,
+    resourceLimits: Boolean(SANDBOX_ENABLED && PRLIMIT_PATH),
+    shellEscapeCommands: SERVER_SHELL_ESCAPE_COMMANDS
+  };
+}
+
+module.exports = {
+  resolveShellEscape,
+  shellEscapeArgs,
+  sandboxEnv,
+  sandboxCommand,
+  findUnsafeBiberSources,
+  getSandboxInfo
+};
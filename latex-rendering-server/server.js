@@ -1,11 +1,60 @@
 const express = require('express');
 const bodyParser = require('body-parser');
-const { exec } = require('child_process');
+const { execFile, spawn } = require('child_process');
 const tmp = require('tmp');
 const fs = require('fs-extra');
 const path = require('path');
 const cors = require('cors');
 const os = require('os');
+const { parseLatexLog, summarizeDiagnostics } = require('./logParser');
+const { attachPackageFixes } = require('./packageHints');
+const { detectBibliographyBackend, needsRerun, parseBibliographyLog } = require('./bibliography');
+const { readSynctex } = require('./synctex');
+const { computeInputHash, getCachedResult, setCachedResult, getCacheStats } = require('./compileCache');
+const { withWorkspace, syncWorkspaceFiles, clearAuxiliaryFiles, cleanupWorkspaces } = require('./workspaces');
+const {
+  resolveShellEscape,
+  shellEscapeArgs,
+  sandboxCommand,
+  findUnsafeBiberSources,
+  getSandboxInfo
+} = require('./sandbox');
+const {
+  isSupportedFormat,
+  normalizeImageOptions,
+  pageCountCommand,
+  parsePageCount,
+  pageImageCommands,
+  collectPageImages,
+  htmlCommand,
+  htmlByproducts,
+  inlineHtmlAssets
+} = require('./outputFormats');
+const {
+  parseGraphicsPaths,
+  findGraphicsReferences,
+  resolveGraphicsReference,
+  planConversion,
+  isConversionCurrent,
+  conversionCommand,
+  convertedReference,
+  rewriteGraphicsReferences,
+  ensureGraphicxPackage
+} = require('./imageConversion');
+const {
+  createJob,
+  getJob,
+  isQueueFull,
+  runJob,
+  stopJob,
+  emitJobEvent,
+  onJobEvent,
+  watchOutputSize,
+  stopReasonMessage,
+  describeJob,
+  getQueueStats,
+  cleanupJobs
+} = require('./jobQueue');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -16,16 +65,37 @@ const isWindows = os.platform() === 'win32';
 const isMac = os.platform() === 'darwin';
 const isLinux = os.platform() === 'linux';
 
-// Determine LaTeX executable path based on platform
-let pdflatexPath;
-if (isWindows) {
-  pdflatexPath = '"C:\\Program Files\\MiKTeX\\miktex\\bin\\x64\\pdflatex.exe"';
-} else if (isMac) {
-  pdflatexPath = '/Library/TeX/texbin/pdflatex';
-} else {
+// Determine LaTeX executable paths based on platform
+const texExecutablePath = (name) => {
+  if (isWindows) {
+    return `C:\\Program Files\\MiKTeX\\miktex\\bin\\x64\\${name}.exe`;
+  } else if (isMac) {
+    return `/Library/TeX/texbin/${name}`;
+  }
   // Linux - assume installed via texlive
-  pdflatexPath = '/usr/bin/pdflatex';
-}
+  return `/usr/bin/${name}`;
+};
+const pdflatexPath = texExecutablePath('pdflatex');
+
+// Engines a project can compile with
+const DEFAULT_ENGINE = 'pdflatex';
+const enginePaths = {
+  pdflatex: pdflatexPath,
+  xelatex: texExecutablePath('xelatex'),
+  lualatex: texExecutablePath('lualatex')
+};
+
+// Bibliography processors, picked per document from the first pass output
+const bibliographyPaths = {
+  bibtex: texExecutablePath('bibtex'),
+  biber: texExecutablePath('biber')
+};
+
+// Upper bound on engine passes while waiting for references to settle
+const MAX_ENGINE_PASSES = 5;
+
+// Largest stdout/stderr kept from a single command; runaway \message loops hit this first
+const MAX_COMMAND_OUTPUT_BYTES = 10 * 1024 * 1024;
 
 // Config based on environment
 const corsOrigins =
@@ -77,6 +147,8 @@ const cleanupTempFiles = () => {
   });
 };
 setInterval(cleanupTempFiles, 60 * 60 * 1000);
+setInterval(cleanupWorkspaces, 60 * 60 * 1000);
+setInterval(cleanupJobs, 10 * 60 * 1000);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -86,6 +158,10 @@ app.get('/health', (req, res) => {
     environment: NODE_ENV,
     platform: os.platform(),
     latexPath: pdflatexPath,
+    engines: Object.keys(enginePaths),
+    compileCache: getCacheStats(),
+    jobs: getQueueStats(),
+    sandbox: getSandboxInfo(),
     timestamp: new Date().toISOString()
   };
   res.json(healthInfo);
@@ -96,144 +172,622 @@ function escapeRegExp(string) {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+// Resolve a client supplied relative path inside the job directory, rejecting traversal
+function resolveJobPath(rootDir, relativePath) {
+  const normalized = path.normalize(String(relativePath).replace(/\\/g, '/')).replace(/^(\.\.(\/|$))+/, '');
+  const resolved = path.resolve(rootDir, normalized);
+  if (resolved !== rootDir && !resolved.startsWith(rootDir + path.sep)) {
+    throw new Error(`Invalid file path: ${relativePath}`);
+  }
+  return resolved;
+}
+
+// Decode a data URL or bare base64 string into a Buffer
+function decodeBase64Data(data) {
+  if (typeof data !== 'string') {
+    throw new Error("File data must be a string");
+  }
+  if (data.startsWith('data:')) {
+    const matches = data.match(/^data:([A-Za-z-+.\/]+)?(?:;[^,]*)?;base64,(.+)$/s);
+    if (!matches) {
+      throw new Error("Invalid data URL format");
+    }
+    return Buffer.from(matches[2], 'base64');
+  }
+  return Buffer.from(data, 'base64');
+}
+
+// Decode the project tree into `{ path, contents }` entries, keeping its folder layout
+function toWorkspaceEntries(files) {
+  const entries = [];
+  for (const file of files) {
+    if (!file || !file.path) {
+      continue;
+    }
+    entries.push({
+      path: file.path,
+      contents: typeof file.data === 'string' ? decodeBase64Data(file.data) : file.content || ''
+    });
+  }
+  return entries;
+}
+
+// Run a command for a job and resolve with its outcome, failures included.
+// `command` is `{ file, args, options }` from sandboxCommand; nothing goes through a shell.
+// The child gets its own process group so cancelling the job kills everything it started.
+function runCommand(command, job) {
+  return new Promise(resolve => {
+    if (job.stopReason) {
+      return resolve({ error: new Error(stopReasonMessage(job.stopReason)), stdout: '', stderr: '' });
+    }
+    const child = spawn(command.file, command.args, { ...command.options, detached: !isWindows });
+    job.processes.add(child);
+    let stdout = '';
+    let stderr = '';
+    const collect = (append) => (chunk) => {
+      if (stdout.length + stderr.length > MAX_COMMAND_OUTPUT_BYTES) {
+        stopJob(job, 'output-limit');
+        return;
+      }
+      const text = chunk.toString();
+      append(text);
+      emitJobEvent(job, 'log', { text });
+    };
+    child.stdout.on('data', collect(text => { stdout += text; }));
+    child.stderr.on('data', collect(text => { stderr += text; }));
+    child.on('error', error => {
+      job.processes.delete(child);
+      resolve({ error, stdout, stderr });
+    });
+    child.on('close', (code, signal) => {
+      job.processes.delete(child);
+      const error = code === 0
+        ? null
+        : Object.assign(new Error(`Command failed with ${signal || `exit code ${code}`}: ${describeCommand(command)}`), { code, signal });
+      resolve({ error, stdout, stderr });
+    });
+  });
+}
+
+function describeCommand(command) {
+  return [command.file, ...command.args].join(' ');
+}
+
+// Run the engine, BibTeX or Biber when the document needs it, then rerun the engine
+// until cross references and citations stop changing
+async function runCompilePipeline({ job, engine, rootDir, relativeInput, jobName, warm = false, shellEscapeCommands = [] }) {
+  // Runs from the project root, so \input, \include and \bibliography paths resolve like they do locally
+  // and every output lands there without an absolute -output-directory
+  const sandbox = { rootDir, shellEscapeCommands };
+  const engineCommand = sandboxCommand(
+    enginePaths[engine],
+    [...shellEscapeArgs(shellEscapeCommands), '-interaction=nonstopmode', '-halt-on-error', '-synctex=1', relativeInput],
+    sandbox
+  );
+  const logPath = path.join(rootDir, `${jobName}.log`);
+  const readLog = () => (fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8') : '');
+  const bibliography = { backend: null, errors: [], warnings: [] };
+  // Runaway documents can write gigabytes of log or PDF before the timeout fires
+  const stopWatchingOutput = watchOutputSize(job, [logPath, path.join(rootDir, `${jobName}.pdf`)]);
+  try {
+    return await runCompilePasses({ job, engine, engineCommand, sandbox, rootDir, jobName, warm, readLog, bibliography });
+  } finally {
+    stopWatchingOutput();
+  }
+}
+
+// Engine and bibliography passes for runCompilePipeline
+async function runCompilePasses({ job, engine, engineCommand, sandbox, rootDir, jobName, warm, readLog, bibliography }) {
+  console.log(`Running LaTeX command (${engine}):`, describeCommand(engineCommand));
+  // Only biblatex writes a .bcf, and the backend is chosen by its presence, so one left in a warm
+  // workspace would keep running biber after the project switched to BibTeX. The .aux is rewritten every pass.
+  fs.removeSync(path.join(rootDir, `${jobName}.bcf`));
+  emitJobEvent(job, 'stage', { stage: 'engine', pass: 1, engine });
+  let result = await runCommand(engineCommand, job);
+  let passes = 1;
+  if (result.error) {
+    return { ...result, log: readLog(), bibliography, passes };
+  }
+
+  // A fresh directory always needs a second pass; a warm one already has last run's .aux
+  let extraPassNeeded = !warm;
+
+  const backend = detectBibliographyBackend(rootDir, jobName);
+  // Biber reads data sources without kpathsea's path checks, so refuse ones outside the project
+  const unsafeSources = backend === 'biber' ? findUnsafeBiberSources(rootDir, jobName) : [];
+  if (unsafeSources.length > 0) {
+    bibliography.backend = backend;
+    bibliography.errors.push({
+      severity: 'error',
+      type: 'bibliography',
+      message: `Biber was not run: bibliography sources must be files inside the project (${unsafeSources.join(', ')})`,
+      file: null,
+      line: null,
+      package: 'Biber'
+    });
+  } else if (backend) {
+    const bblPath = path.join(rootDir, `${jobName}.bbl`);
+    const readBbl = () => (fs.existsSync(bblPath) ? fs.readFileSync(bblPath, 'utf8') : null);
+    const bblBefore = readBbl();
+    bibliography.backend = backend;
+    const bibCommand = sandboxCommand(bibliographyPaths[backend], [jobName], sandbox);
+    emitJobEvent(job, 'stage', { stage: 'bibliography', backend });
+    const bibResult = await runCommand(bibCommand, job);
+    const blgPath = path.join(rootDir, `${jobName}.blg`);
+    const blgContent = fs.existsSync(blgPath) ? fs.readFileSync(blgPath, 'utf8') : bibResult.stdout;
+    const parsed = parseBibliographyLog(blgContent, backend, { rootDir });
+    bibliography.errors = parsed.errors;
+    bibliography.warnings = parsed.warnings;
+    if (bibResult.error && parsed.errors.length === 0 && parsed.warnings.length === 0) {
+      bibliography.errors.push({
+        severity: 'error',
+        type: 'bibliography',
+        message: `${backend} failed: ${(bibResult.stderr || bibResult.error.message).trim()}`,
+        file: null,
+        line: null,
+        package: backend === 'biber' ? 'Biber' : 'BibTeX'
+      });
+    }
+    // New or changed bibliography entries only show up after another pass
+    if (readBbl() !== bblBefore) {
+      extraPassNeeded = true;
+    }
+  }
+
+  // Keep going while a pass is still owed or the log asks for a rerun
+  while (!result.error && passes < MAX_ENGINE_PASSES && (extraPassNeeded || needsRerun(readLog()))) {
+    extraPassNeeded = false;
+    emitJobEvent(job, 'stage', { stage: 'engine', pass: passes + 1, engine });
+    result = await runCommand(engineCommand, job);
+    passes++;
+  }
+
+  return { ...result, log: readLog(), bibliography, passes };
+}
+
+// Fold bibliography diagnostics, sandbox notes and image conversion failures into the ones parsed from the engine log
+function mergeDiagnostics(diagnostics, bibliography, extraDiagnostics = []) {
+  return {
+    ...diagnostics,
+    errors: [
+      ...extraDiagnostics.filter(diagnostic => diagnostic.severity === 'error'),
+      ...diagnostics.errors,
+      ...bibliography.errors
+    ],
+    warnings: [
+      ...diagnostics.warnings,
+      ...bibliography.warnings,
+      ...extraDiagnostics.filter(diagnostic => diagnostic.severity !== 'error')
+    ]
+  };
+}
+
+/**
+ * Convert graphics referenced from `sources` that the engines cannot include (see imageConversion.js).
+ * Resolves with the reference rewrites to apply and a diagnostic for each failed conversion.
+ */
+async function convertGraphics({ job, rootDir, sources, sandbox }) {
+  const graphicsPaths = [...new Set(sources.flatMap(parseGraphicsPaths))];
+  const conversions = new Map();
+  const referencesBySource = new Map();
+  for (const reference of new Set(sources.flatMap(findGraphicsReferences))) {
+    const resolved = resolveGraphicsReference(rootDir, reference, graphicsPaths);
+    const conversion = resolved ? conversions.get(resolved) || planConversion(rootDir, resolved) : null;
+    if (!conversion) continue;
+    conversions.set(resolved, conversion);
+    referencesBySource.set(resolved, [...(referencesBySource.get(resolved) || []), reference]);
+  }
+
+  const replacements = new Map();
+  const diagnostics = [];
+  if (conversions.size === 0) {
+    return { replacements, diagnostics };
+  }
+  emitJobEvent(job, 'stage', { stage: 'images', count: conversions.size });
+
+  for (const conversion of conversions.values()) {
+    if (!isConversionCurrent(rootDir, conversion)) {
+      const command = conversionCommand(conversion);
+      const result = await runCommand(sandboxCommand(command.file, command.args, sandbox), job);
+      if (result.error || !fs.existsSync(path.join(rootDir, conversion.output))) {
+        const reason = (result.stderr || (result.error && result.error.message) || 'no output was written').trim().split('\n')[0];
+        diagnostics.push({
+          severity: 'error',
+          type: 'image-conversion',
+          message: `Could not convert ${conversion.source} (${conversion.format.toUpperCase()}) to ${conversion.target.toUpperCase()}: ${reason}`,
+          file: conversion.source,
+          line: null
+        });
+        fs.removeSync(path.join(rootDir, conversion.output));
+        continue;
+      }
+    }
+    for (const reference of referencesBySource.get(conversion.source)) {
+      replacements.set(reference, convertedReference(reference, conversion));
+    }
+  }
+  return { replacements, diagnostics };
+}
+
+// Tell the user about allowlisted shell escape commands this server does not permit
+function shellEscapeWarnings(rejectedCommands) {
+  return rejectedCommands.map(command => ({
+    severity: 'warning',
+    type: 'shell-escape',
+    message: `Shell escape command "${command}" is not enabled on this server, so \\write18 calls to it will fail`,
+    file: null,
+    line: null
+  }));
+}
+
 // Full document rendering endpoint
 app.post('/render', apiKeyMiddleware, async (req, res) => {
   console.log(`[${new Date().toISOString()}] Received rendering request`);
-  const { latex, format = 'pdf', images = [] } = req.body;
-  if (!latex) {
-    return res.status(400).json({ error: 'LaTeX content is required' });
+  const {
+    latex,
+    files = [],
+    mainFile,
+    format = 'pdf',
+    images = [],
+    engine = DEFAULT_ENGINE,
+    projectId = null,
+    jobId: requestedJobId = null,
+    stream = false,
+    shellEscapeCommands = [],
+    imageOptions = {}
+  } = req.body;
+  const isProjectBuild = Array.isArray(files) && files.length > 0;
+  if (!enginePaths[engine]) {
+    return res.status(400).json({ error: `Unsupported engine: ${engine}` });
+  }
+  if (!isSupportedFormat(format)) {
+    return res.status(400).json({ error: `Unsupported output format: ${format}` });
+  }
+  if (!latex && !isProjectBuild) {
+    return res.status(400).json({ error: 'LaTeX content or project files are required' });
+  }
+  if (isProjectBuild && !mainFile) {
+    return res.status(400).json({ error: 'mainFile is required when sending project files' });
+  }
+  // Shell escape stays off unless the project allowlists commands this server permits
+  const shellEscape = resolveShellEscape(shellEscapeCommands);
+  const pageImageOptions = format === 'png' || format === 'svg' ? normalizeImageOptions(imageOptions) : null;
+  // Identical inputs give identical output, so answer from the cache when we can
+  const cacheKey = computeInputHash({
+    files: isProjectBuild ? files : [],
+    images,
+    latex: isProjectBuild ? '' : latex,
+    mainFile,
+    engine,
+    format,
+    options: { shellEscape: shellEscape.allowed, images: pageImageOptions }
+  });
+  const cachedResult = getCachedResult(cacheKey);
+  if (cachedResult && !stream) {
+    return res.json({ ...cachedResult, cached: true });
+  }
+  if (!cachedResult && isQueueFull()) {
+    return res.status(503).json({ error: 'The render server is busy, please try again shortly' });
+  }
+  // Streaming clients get stages and log output as Server-Sent Events, then the response as a "result" event
+  const sendEvent = stream ? openEventStream(res) : null;
+  const respond = (status, body) => {
+    if (!sendEvent) {
+      return res.status(status).json(body);
+    }
+    sendEvent('stage', { stage: 'done' });
+    sendEvent('result', { status, body });
+    res.end();
+  };
+  if (cachedResult) {
+    return respond(200, { ...cachedResult, cached: true });
+  }
+  const job = createJob(requestedJobId);
+  const stopFollowing = sendEvent ? onJobEvent(job, sendEvent) : () => {};
+  if (sendEvent) {
+    sendEvent('job', { jobId: job.id });
+    // Nobody is left to read the result once a streaming client goes away, so stop the build
+    res.on('close', () => {
+      if (!res.writableEnded && stopJob(job, 'cancelled')) {
+        console.log(`Client disconnected, cancelled job ${job.id}`);
+      }
+    });
   }
   try {
-    // Create temporary directory for the job
-    const tmpDir = tmp.dirSync({ unsafeCleanup: true });
-    const inputFile = path.join(tmpDir.name, 'input.tex');
-    console.log(`Created temporary directory: ${tmpDir.name}`);
-    console.log(`LaTeX content length: ${latex.length}`);
-    console.log(`Received ${images.length} images`);
-    // Create an images subfolder
-    const imagesDir = path.join(tmpDir.name, 'images');
-    fs.mkdirSync(imagesDir, { recursive: true });
-    // Mapping between original image names and sanitized filenames
-    const imageNameMapping = {};
-    if (images && images.length > 0) {
-      console.log(`Processing ${images.length} images`);
-      for (const image of images) {
-        try {
-          if (image.name && image.data) {
-            const originalName = path.basename(image.name);
-            const safeName = originalName.replace(/[^a-zA-Z0-9._-]/g, '_');
-            imageNameMapping[originalName] = safeName;
-            const mainPath = path.join(tmpDir.name, safeName);
-            const imagePath = path.join(imagesDir, safeName);
-            let imageData;
-            if (typeof image.data === 'string' && image.data.startsWith('data:')) {
-              const matches = image.data.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-              if (matches && matches.length === 3) {
-                imageData = Buffer.from(matches[2], 'base64');
-              } else {
-                throw new Error("Invalid data URL format");
-              }
-            } else if (typeof image.data === 'string') {
-              imageData = Buffer.from(image.data, 'base64');
-            } else {
-              throw new Error("Image data must be a string");
-            }
-            fs.writeFileSync(mainPath, imageData);
-            fs.writeFileSync(imagePath, imageData);
-            console.log(`Saved image ${safeName} (${imageData.length} bytes)`);
-          } else {
-            console.log(`Missing name or data for image`);
-          }
-        } catch (imgError) {
-          console.error(`Error processing image ${image?.name}:`, imgError);
+    const build = { job, latex, files, mainFile, format, images, engine, isProjectBuild, shellEscape, pageImageOptions };
+    // Projects build in a warm workspace that keeps auxiliary files between runs. The job
+    // queues for a worker once the workspace is free, so waiting on an earlier build of the
+    // same project neither holds a worker slot nor counts against the job's time limit.
+    const outcome = await (isProjectBuild && projectId
+      ? withWorkspace(projectId, ({ dir, warm }) => runJob(job, () => buildDocument({ ...build, rootDir: dir, warm })))
+      : runJob(job, () => buildInTemporaryDirectory(build)));
+    const response = job.stopReason ? stoppedJobResponse(job, outcome) : outcome;
+    if (!job.stopReason && outcome.status === 200) {
+      setCachedResult(cacheKey, outcome.body);
+    }
+    return respond(response.status, { ...response.body, jobId: job.id });
+  } catch (error) {
+    console.error(`Server error:`, error);
+    return respond(500, { error: 'Server error', jobId: job.id });
+  } finally {
+    stopFollowing();
+  }
+});
+
+// Switch a response to Server-Sent Events and return a function that sends one event
+function openEventStream(res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop proxies from holding events back until the response ends
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  return (event, data) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+}
+
+// Describe a job that was cancelled or hit a limit, keeping any diagnostics from the partial log
+function stoppedJobResponse(job, outcome) {
+  const message = stopReasonMessage(job.stopReason);
+  if (job.stopReason === 'cancelled') {
+    return { status: 409, body: { error: message, cancelled: true } };
+  }
+  const partial = outcome && outcome.body && outcome.body.diagnostics
+    ? outcome.body.diagnostics
+    : { errors: [], warnings: [], info: [] };
+  const diagnostics = {
+    ...partial,
+    errors: [{ severity: 'error', type: job.stopReason, message, file: null, line: null }, ...partial.errors]
+  };
+  return { status: 500, body: { error: message, stopReason: job.stopReason, diagnostics } };
+}
+
+// One-off builds (no project to keep a workspace for) use a throwaway directory
+async function buildInTemporaryDirectory(build) {
+  const tmpDir = tmp.dirSync({ unsafeCleanup: true });
+  console.log(`Created temporary directory: ${tmpDir.name}`);
+  try {
+    return await buildDocument({ ...build, rootDir: tmpDir.name, warm: false });
+  } finally {
+    tmpDir.removeCallback();
+  }
+}
+
+// Write the sources into rootDir, compile them and describe the response to send
+async function buildDocument({
+  job,
+  latex,
+  files,
+  mainFile,
+  format,
+  images,
+  engine,
+  isProjectBuild,
+  shellEscape,
+  pageImageOptions,
+  rootDir,
+  warm
+}) {
+  // Project builds compile the requested main file, single documents use input.tex
+  let inputFile;
+  try {
+    if (isProjectBuild) {
+      syncWorkspaceFiles(rootDir, toWorkspaceEntries(files), resolveJobPath);
+      inputFile = resolveJobPath(rootDir, mainFile);
+    } else {
+      inputFile = path.join(rootDir, 'input.tex');
+    }
+  } catch (treeError) {
+    return { status: 400, body: { error: treeError.message } };
+  }
+  if (!fs.existsSync(inputFile) && isProjectBuild) {
+    return { status: 400, body: { error: `Main file not found: ${mainFile}` } };
+  }
+  const jobName = path.basename(inputFile, path.extname(inputFile));
+  // Take the main file from the request; the copy on disk may carry an earlier run's preamble fixes
+  const mainEntry = isProjectBuild
+    ? files.find(file => file && file.path && resolveJobPath(rootDir, file.path) === inputFile)
+    : null;
+  const sourceLaTeX = isProjectBuild
+    ? (mainEntry && typeof mainEntry.content === 'string' ? mainEntry.content : fs.readFileSync(inputFile, 'utf8'))
+    : latex;
+  console.log(`LaTeX content length: ${sourceLaTeX.length}`);
+  console.log(`Received ${images.length} images`);
+  // Images keep their relative paths, so figs/a/plot.png and figs/b/plot.png stay two files
+  if (images && images.length > 0) {
+    console.log(`Processing ${images.length} images`);
+    for (const image of images) {
+      try {
+        if (image.name && image.data) {
+          const imagePath = resolveJobPath(rootDir, image.name);
+          const imageData = decodeBase64Data(image.data);
+          fs.mkdirSync(path.dirname(imagePath), { recursive: true });
+          fs.writeFileSync(imagePath, imageData);
+          console.log(`Saved image ${path.relative(rootDir, imagePath)} (${imageData.length} bytes)`);
+        } else {
+          console.log(`Missing name or data for image`);
         }
+      } catch (imgError) {
+        console.error(`Error processing image ${image?.name}:`, imgError);
       }
     }
-    // Inject graphicspath and add graphicx package if needed
-    let processedLaTeX = latex;
-    if (!processedLaTeX.includes('\\graphicspath')) {
-      const graphicsPathCmd = '\\graphicspath{{./}{./images/}{.}}\n';
-      if (processedLaTeX.includes('\\begin{document}')) {
-        processedLaTeX = processedLaTeX.replace(/(\\begin\{document\})/, `${graphicsPathCmd}$1`);
-      } else {
-        processedLaTeX = graphicsPathCmd + processedLaTeX;
-      }
-      console.log("Added graphicspath command to LaTeX");
+  }
+  let processedLaTeX = ensureGraphicxPackage(sourceLaTeX, engine);
+  // SVG, EPS, WebP, HEIC, GIF and TIFF graphics are converted first; other .tex files are rewritten in place
+  const sandbox = { rootDir, shellEscapeCommands: shellEscape.allowed };
+  const otherTexPaths = isProjectBuild
+    ? files
+        .filter(file => file && file.path && /\.tex$/i.test(file.path) && typeof file.content === 'string')
+        .map(file => resolveJobPath(rootDir, file.path))
+        .filter(filePath => filePath !== inputFile && fs.existsSync(filePath))
+    : [];
+  const otherTexSources = otherTexPaths.map(filePath => fs.readFileSync(filePath, 'utf8'));
+  const graphics = await convertGraphics({ job, rootDir, sources: [processedLaTeX, ...otherTexSources], sandbox });
+  processedLaTeX = rewriteGraphicsReferences(processedLaTeX, graphics.replacements);
+  otherTexPaths.forEach((filePath, index) => {
+    const rewritten = rewriteGraphicsReferences(otherTexSources[index], graphics.replacements);
+    if (rewritten !== otherTexSources[index]) {
+      fs.writeFileSync(filePath, rewritten);
+    }
+  });
+  fs.writeFileSync(inputFile, processedLaTeX);
+  console.log(`LaTeX content written to ${inputFile}`);
+  const relativeInput = path.relative(rootDir, inputFile);
+  // Never hand back a PDF left over from an earlier build in this workspace
+  fs.removeSync(path.join(rootDir, `${jobName}.pdf`));
+  const result = await runCompilePipeline({
+    job,
+    engine,
+    rootDir,
+    relativeInput,
+    jobName,
+    warm,
+    shellEscapeCommands: shellEscape.allowed
+  });
+  const extraDiagnostics = [...shellEscapeWarnings(shellEscape.rejected), ...graphics.diagnostics];
+  const { bibliography } = result;
+  if (result.error) {
+    console.error(`Error executing ${engine}:`, result.error.message);
+    if (result.log) {
+      const debugLogPath = path.join(outputDir, `latex-log-${Date.now()}.txt`);
+      fs.writeFileSync(debugLogPath, result.log);
+      console.log(`Saved LaTeX log to ${debugLogPath}`);
+    }
+    const diagnostics = mergeDiagnostics(
+      attachPackageFixes(parseLatexLog(result.log || result.stderr, { rootDir, mainFile: relativeInput })),
+      bibliography,
+      extraDiagnostics
+    );
+    const errorMessage = summarizeDiagnostics(diagnostics) || 'LaTeX compilation failed';
+    // A failed run can leave truncated auxiliary files behind, so the next build starts clean
+    clearAuxiliaryFiles(rootDir);
+    // Return the summary plus structured diagnostics so clients can point at file and line
+    return { status: 500, body: { error: errorMessage, diagnostics } };
+  }
+  const diagnostics = mergeDiagnostics(
+    attachPackageFixes(parseLatexLog(result.log, { rootDir, mainFile: relativeInput })),
+    bibliography,
+    extraDiagnostics
+  );
+  const pdfPath = path.join(rootDir, `${jobName}.pdf`);
+  if (!fs.existsSync(pdfPath)) {
+    console.error('PDF file not found at expected path');
+    console.log('Files in temp directory after compilation:');
+    listFilesRecursively(rootDir);
+    return { status: 500, body: { error: 'PDF generation failed - output file not found' } };
+  }
+  console.log(`Successfully generated PDF after ${result.passes} passes`);
+  if (format === 'png' || format === 'svg') {
+    return renderPageImages({ job, pdfPath, format, imageOptions: pageImageOptions, sandbox, diagnostics, bibliography });
+  }
+  if (format === 'html') {
+    return renderHtml({ job, relativeInput, jobName, sandbox, diagnostics, bibliography, isProjectBuild });
+  }
+  const pdfData = fs.readFileSync(pdfPath);
+  const base64Pdf = pdfData.toString('base64');
+  let synctex = null;
+  try {
+    synctex = readSynctex(rootDir, jobName);
+  } catch (synctexError) {
+    console.error('Error reading SyncTeX data:', synctexError);
+  }
+  // Submission bundles ship the generated bibliography instead of the .bib sources
+  const bblPath = path.join(rootDir, `${jobName}.bbl`);
+  const bbl = bibliography.backend && fs.existsSync(bblPath) ? fs.readFileSync(bblPath, 'utf8') : null;
+  return {
+    status: 200,
+    body: {
+      format: 'pdf',
+      data: base64Pdf,
+      diagnostics,
+      bibliographyBackend: bibliography.backend,
+      synctex,
+      bbl
     }
-    if (!processedLaTeX.includes('\\usepackage{graphicx}') &&
-        !processedLaTeX.includes('\\usepackage[pdftex]{graphicx}')) {
-      if (processedLaTeX.includes('\\documentclass')) {
-        processedLaTeX = processedLaTeX.replace(/(\\documentclass.*?\})/, '$1\n\\usepackage[pdftex]{graphicx}');
-        console.log("Added graphicx package to LaTeX");
+  };
+}
+
+// Rasterize (PNG) or vectorize (SVG) the requested pages of a compiled PDF
+async function renderPageImages({ job, pdfPath, format, imageOptions, sandbox, diagnostics, bibliography }) {
+  emitJobEvent(job, 'stage', { stage: 'converting', format });
+  const infoCommand = pageCountCommand(pdfPath);
+  const infoResult = await runCommand(sandboxCommand(infoCommand.file, infoCommand.args, sandbox), job);
+  const pageCount = parsePageCount(infoResult.stdout);
+  if (infoResult.error || pageCount === 0) {
+    console.error('Error reading PDF page count:', infoResult.error ? infoResult.error.message : infoResult.stdout);
+    return { status: 500, body: { error: 'Could not read the compiled PDF', diagnostics } };
+  }
+  const range = { ...imageOptions, lastPage: Math.min(imageOptions.lastPage, pageCount) };
+  if (range.firstPage > pageCount) {
+    return { status: 400, body: { error: `The document has only ${pageCount} pages`, diagnostics } };
+  }
+  // Images go to a scratch directory so they never mix with the project's files
+  const imagesDir = tmp.dirSync({ unsafeCleanup: true });
+  try {
+    const prefix = path.join(imagesDir.name, 'page');
+    for (const command of pageImageCommands(format, pdfPath, prefix, range)) {
+      const commandResult = await runCommand(sandboxCommand(command.file, command.args, sandbox), job);
+      if (commandResult.error) {
+        console.error(`Error converting PDF to ${format}:`, commandResult.stderr || commandResult.error.message);
+        return { status: 500, body: { error: `Converting the PDF to ${format.toUpperCase()} failed`, diagnostics } };
       }
     }
-    // Replace image references inside \includegraphics commands with sanitized filenames
-    processedLaTeX = processedLaTeX.replace(/\\includegraphics(\[.*?\])?\{([^}]+)\}/g, (match, options, filename) => {
-      const trimmed = filename.trim();
-      if (imageNameMapping[trimmed]) {
-        console.log(`Replaced image reference '${trimmed}' with '${imageNameMapping[trimmed]}'`);
-        return `\\includegraphics${options || ''}{${imageNameMapping[trimmed]}}`;
+    const pages = collectPageImages(imagesDir.name, prefix, format);
+    return {
+      status: 200,
+      body: {
+        format,
+        pages,
+        pageCount,
+        dpi: format === 'png' ? range.dpi : undefined,
+        diagnostics,
+        bibliographyBackend: bibliography.backend
       }
-      return match;
-    });
-    fs.writeFileSync(inputFile, processedLaTeX);
-    console.log(`LaTeX content written to ${inputFile}`);
-    const pdfLatexCmd = `${pdflatexPath} -interaction=nonstopmode -halt-on-error -output-directory="${tmpDir.name}" "${inputFile}"`;
-    console.log("Running LaTeX command:", pdfLatexCmd);
-    // Run pdflatex twice to resolve references
-    exec(pdfLatexCmd, async (error, stdout, stderr) => {
-      console.log("First LaTeX run completed");
-      console.log("Running LaTeX command a second time");
-      exec(pdfLatexCmd, async (error2, stdout2, stderr2) => {
-        if (error2) {
-          console.error(`Error executing pdflatex:`, error2.message);
-          const logPath = path.join(tmpDir.name, 'input.log');
-          if (fs.existsSync(logPath)) {
-            const logContent = fs.readFileSync(logPath, 'utf8');
-            const debugLogPath = path.join(outputDir, `latex-log-${Date.now()}.txt`);
-            fs.writeFileSync(debugLogPath, logContent);
-            console.log(`Saved LaTeX log to ${debugLogPath}`);
-          }
-          let errorMessage = 'LaTeX compilation failed';
-          const errorLog = fs.existsSync(path.join(tmpDir.name, 'input.log')) 
-            ? fs.readFileSync(path.join(tmpDir.name, 'input.log'), 'utf8')
-            : stderr2;
-          const errorMatch = errorLog.match(/!(.*?)(?:\n|$)/);
-          if (errorMatch) {
-            errorMessage = errorMatch[1].trim();
-          }
-          tmpDir.removeCallback();
-          // Return only the simplified error message to the client
-          return res.status(500).json({ error: errorMessage });
-        }
-        const pdfPath = path.join(tmpDir.name, 'input.pdf');
-        if (format === 'pdf') {
-          if (fs.existsSync(pdfPath)) {
-            const pdfData = fs.readFileSync(pdfPath);
-            const base64Pdf = pdfData.toString('base64');
-            console.log(`Successfully generated PDF (${pdfData.length} bytes)`);
-            tmpDir.removeCallback();
-            return res.json({
-              format: 'pdf',
-              data: base64Pdf
-            });
-          } else {
-            console.error('PDF file not found at expected path');
-            console.log('Files in temp directory after compilation:');
-            listFilesRecursively(tmpDir.name);
-            tmpDir.removeCallback();
-            return res.status(500).json({ error: 'PDF generation failed - output file not found' });
-          }
-        }
-        tmpDir.removeCallback();
-        return res.status(400).json({ error: 'Unsupported output format' });
-      });
-    });
-  } catch (error) {
-    console.error(`Server error:`, error);
-    return res.status(500).json({ error: 'Server error' });
+    };
+  } finally {
+    imagesDir.removeCallback();
   }
-});
+}
+
+// Convert the document to a single self-contained HTML page with tex4ht
+async function renderHtml({ job, relativeInput, jobName, sandbox, diagnostics, bibliography, isProjectBuild }) {
+  emitJobEvent(job, 'stage', { stage: 'converting', format: 'html' });
+  const command = htmlCommand(relativeInput);
+  const htmlResult = await runCommand(sandboxCommand(command.file, command.args, sandbox), job);
+  // tex4ht leaves its own .aux and .toc behind, which a PDF build must not pick up
+  if (isProjectBuild) {
+    clearAuxiliaryFiles(sandbox.rootDir);
+  }
+  const htmlPath = path.join(sandbox.rootDir, `${jobName}.html`);
+  if (htmlResult.error || !fs.existsSync(htmlPath)) {
+    removeHtmlByproducts(sandbox.rootDir, jobName);
+    console.error('Error converting to HTML:', htmlResult.stderr || (htmlResult.error && htmlResult.error.message));
+    return { status: 500, body: { error: 'HTML conversion failed', diagnostics } };
+  }
+  const html = inlineHtmlAssets(fs.readFileSync(htmlPath, 'utf8'), sandbox.rootDir, resolveJobPath);
+  removeHtmlByproducts(sandbox.rootDir, jobName);
+  return {
+    status: 200,
+    body: {
+      format: 'html',
+      html,
+      diagnostics,
+      bibliographyBackend: bibliography.backend
+    }
+  };
+}
+
+// Keep tex4ht's intermediate files and pages out of the project workspace
+function removeHtmlByproducts(rootDir, jobName) {
+  for (const filePath of htmlByproducts(rootDir, jobName)) {
+    fs.removeSync(filePath);
+  }
+}
 
 // Helper function to list all files in a directory recursively (for debugging)
 function listFilesRecursively(dir) {
@@ -250,6 +804,26 @@ function listFilesRecursively(dir) {
   });
 }
 
+// Compile job status
+app.get('/jobs/:jobId', apiKeyMiddleware, (req, res) => {
+  const job = getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  res.json(describeJob(job));
+});
+
+// Cancel a queued or running compile job
+app.post('/jobs/:jobId/cancel', apiKeyMiddleware, (req, res) => {
+  const job = getJob(req.params.jobId);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  const cancelled = stopJob(job, 'cancelled');
+  console.log(`Cancel requested for job ${job.id}: ${cancelled ? 'stopped' : 'already finished'}`);
+  res.json({ ...describeJob(job), cancelled });
+});
+
 // Math formula rendering endpoint
 app.post('/render-math', apiKeyMiddleware, async (req, res) => {
   const { latex, displayMode = false } = req.body;
@@ -271,9 +845,13 @@ ${displayMode ? `\\begin{align*}${latex}\\end{align*}` : `$${latex}$`}
 \\end{document}
 `;
     fs.writeFileSync(inputFile, fullLatex);
-    const pdfLatexCmd = `${pdflatexPath} -interaction=nonstopmode -halt-on-error -output-directory="${tmpDir.name}" "${inputFile}"`;
-    console.log("Running LaTeX math command:", pdfLatexCmd);
-    exec(pdfLatexCmd, async (error, stdout, stderr) => {
+    const latexCommand = sandboxCommand(
+      pdflatexPath,
+      ['-no-shell-escape', '-interaction=nonstopmode', '-halt-on-error', 'input.tex'],
+      { rootDir: tmpDir.name }
+    );
+    console.log("Running LaTeX math command:", describeCommand(latexCommand));
+    execFile(latexCommand.file, latexCommand.args, latexCommand.options, async (error, stdout, stderr) => {
       if (error) {
         const errorLog = fs.existsSync(path.join(tmpDir.name, 'input.log'))
           ? fs.readFileSync(path.join(tmpDir.name, 'input.log'), 'utf8')
@@ -288,11 +866,12 @@ ${displayMode ? `\\begin{align*}${latex}\\end{align*}` : `$${latex}$`}
       }
       const pdfPath = path.join(tmpDir.name, 'input.pdf');
       const outputPng = path.join(tmpDir.name, 'output.png');
-      const convertCmd = isWindows
-        ? `magick convert -density 300 -background white -alpha remove "${pdfPath}" "${outputPng}"`
-        : `convert -density 300 -background white -alpha remove "${pdfPath}" "${outputPng}"`;
-      console.log("Running ImageMagick math command:", convertCmd);
-      exec(convertCmd, (imgError, imgStdout, imgStderr) => {
+      const convertArgs = ['-density', '300', '-background', 'white', '-alpha', 'remove', pdfPath, outputPng];
+      const convertCommand = isWindows
+        ? { file: 'magick', args: ['convert', ...convertArgs] }
+        : { file: 'convert', args: convertArgs };
+      console.log("Running ImageMagick math command:", describeCommand(convertCommand));
+      execFile(convertCommand.file, convertCommand.args, (imgError, imgStdout, imgStderr) => {
         if (imgError) {
           console.error(`Error converting PDF to image: ${imgError.message}`);
           tmpDir.removeCallback();
@@ -330,5 +909,6 @@ app.listen(PORT, '0.0.0.0', () => {
   console.log(`Environment: ${NODE_ENV}`);
   console.log(`Detected platform: ${os.platform()}`);
   console.log(`Using LaTeX executable: ${pdflatexPath}`);
+  console.log(`Available engines: ${Object.keys(enginePaths).join(', ')}`);
   console.log(`CORS origins: ${corsOrigins.join(', ')}`);
 });
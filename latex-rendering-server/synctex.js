@@ -0,0 +1,36 @@
+// synctex.js
+// Packages the engine's SyncTeX output so clients can map between source lines and PDF positions
+
+const fs = require('fs-extra');
+const path = require('path');
+const zlib = require('zlib');
+
+/**
+ * Read `<jobName>.synctex.gz`, rewrite its Input records to project-relative paths
+ * and return it gzipped and base64 encoded, or null when the engine wrote none.
+ */
+function readSynctex(rootDir, jobName) {
+  const synctexPath = path.join(rootDir, `${jobName}.synctex.gz`);
+  if (!fs.existsSync(synctexPath)) return null;
+
+  const root = rootDir.replace(/\\/g, '/').replace(/\/$/, '');
+  const content = zlib.gunzipSync(fs.readFileSync(synctexPath)).toString('utf8');
+  const relativeContent = content.split('\n').map(line => {
+    const inputMatch = line.match(/^Input:(\d+):(.*)$/);
+    if (!inputMatch) return line;
+    let inputPath = inputMatch[2].replace(/\\/g, '/');
+    if (inputPath.startsWith(root + '/')) {
+      inputPath = path.posix.normalize(inputPath.slice(root.length + 1));
+    } else if (!path.posix.isAbsolute(inputPath)) {
+      inputPath = path.posix.normalize(inputPath);
+    }
+    // Files outside the job directory (TeX distribution files) keep their absolute path
+    return `Input:${inputMatch[1]}:${inputPath}`;
+  }).join('\n');
+
+  return zlib.gzipSync(relativeContent).toString('base64');
+}
+
+module.exports = {
+  readSynctex
+};
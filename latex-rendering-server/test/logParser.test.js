@@ -0,0 +1,190 @@
+// test/logParser.test.js
+// Diagnostics read from TeX logs: which file and line they point at, and what kind they are.
+// The compile test needs pdflatex on PATH and is skipped without it.
+
+const { test, describe } = require('node:test');
+const assert = require('node:assert');
+const { spawnSync } = require('child_process');
+const fs = require('fs-extra');
+const os = require('os');
+const path = require('path');
+
+const { parseLatexLog, summarizeDiagnostics, unwrapLog } = require('../logParser');
+const { attachPackageFixes } = require('../packageHints');
+const { ensureGraphicxPackage } = require('../imageConversion');
+const { sandboxCommand } = require('../sandbox');
+
+const hasPdflatex = !spawnSync('pdflatex', ['--version'], { stdio: 'ignore' }).error;
+
+const ROOT_DIR = '/tmp/job';
+
+// A project build: main.tex inputs chapters/intro.tex, which uses an undefined command,
+// and main.tex itself uses an environment no loaded package defines
+const PROJECT_LOG = [
+  'This is pdfTeX, Version 3.141592653-2.6-1.40.25 (TeX Live 2023) (preloaded format=pdflatex)',
+  ' restricted \\write18 enabled.',
+  'entering extended mode',
+  '(./main.tex',
+  'LaTeX2e <2022-11-01> patch level 1',
+  '(/usr/share/texlive/texmf-dist/tex/latex/base/article.cls',
+  'Document Class: article 2022/07/02 v1.4n Standard LaTeX document class',
+  '(/usr/share/texlive/texmf-dist/tex/latex/base/size10.clo))',
+  '(/tmp/job/chapters/intro.tex',
+  '! Undefined control sequence.',
+  'l.3 Some text with \\foo',
+  '                        and (more) text.',
+  '',
+  'LaTeX Warning: Reference `fig:plot\' on page 1 undefined on input line 7.',
+  '',
+  ')',
+  '! LaTeX Error: Environment wrapfigure undefined.',
+  '',
+  'See the LaTeX manual or LaTeX Companion for explanation.',
+  'Type  H <return>  for immediate help.',
+  ' ...                                              ',
+  '                                                  ',
+  'l.12 \\begin{wrapfigure}',
+  '                        {r}{0.4\\textwidth}',
+  '',
+  'Overfull \\hbox (15.0pt too wide) in paragraph at lines 20--22',
+  '[]\\OT1/cmr/m/n/10 Averylongwordthatdoesnotfitonthe line (really)|',
+  '',
+  '[1{/usr/share/texlive/texmf-var/fonts/map/pdftex/updmap/pdftex.map}] )',
+  'Output written on main.pdf (1 page, 12345 bytes).',
+  ''
+].join('\n');
+
+const MISSING_PACKAGE_LOG = [
+  '(./main.tex',
+  'LaTeX2e <2022-11-01> patch level 1',
+  '',
+  '! LaTeX Error: File `fancystuff.sty\' not found.',
+  '',
+  'Type X to quit or <RETURN> to proceed,',
+  'or enter new name. (Default extension: sty)',
+  '',
+  'Enter file name: ',
+  '! Emergency stop.',
+  '<read *> ',
+  '         ',
+  'l.4 \\usepackage',
+  '               {fancystuff}^^M',
+  '*** (cannot \\read from terminal in nonstop modes)',
+  ''
+].join('\n');
+
+describe('file and line attribution', () => {
+  const diagnostics = parseLatexLog(PROJECT_LOG, { rootDir: ROOT_DIR, mainFile: 'main.tex' });
+
+  test('attributes errors to the file open at the time, relative to the job directory', () => {
+    assert.deepStrictEqual(
+      diagnostics.errors.map(error => [error.file, error.line]),
+      [['chapters/intro.tex', 3], ['main.tex', 12]]
+    );
+  });
+
+  test('takes warning lines from "on input line"', () => {
+    const [reference] = diagnostics.warnings.filter(warning => warning.type === 'undefined-reference');
+    assert.strictEqual(reference.file, 'chapters/intro.tex');
+    assert.strictEqual(reference.line, 7);
+  });
+
+  test('falls back to the main file before any file is open', () => {
+    const log = '! Undefined control sequence.\nl.5 \\oops\n';
+    const [error] = parseLatexLog(log, { rootDir: ROOT_DIR, mainFile: 'thesis.tex' }).errors;
+    assert.strictEqual(error.file, 'thesis.tex');
+    assert.strictEqual(error.line, 5);
+  });
+
+  test('reads -file-line-error messages', () => {
+    const [error] = parseLatexLog('./chapters/intro.tex:9: Missing $ inserted.\n', { rootDir: ROOT_DIR }).errors;
+    assert.deepStrictEqual(
+      { file: error.file, line: error.line, message: error.message },
+      { file: 'chapters/intro.tex', line: 9, message: 'Missing $ inserted.' }
+    );
+  });
+
+  test('joins lines TeX wrapped at 79 characters', () => {
+    const start = `(./${'a'.repeat(73)}/ch`;
+    assert.strictEqual(start.length, 79);
+    assert.deepStrictEqual(unwrapLog(`${start}\napter.tex\nnext`), [`${start}apter.tex`, 'next']);
+  });
+});
+
+describe('undefined control sequences', () => {
+  test('names the command and keeps the source context', () => {
+    const [error] = parseLatexLog(PROJECT_LOG, { rootDir: ROOT_DIR, mainFile: 'main.tex' }).errors;
+    assert.strictEqual(error.type, 'undefined-command');
+    assert.strictEqual(error.command, 'foo');
+    assert.strictEqual(error.context, 'Some text with \\foo');
+  });
+
+  test('summarizes the first error with its location', () => {
+    const diagnostics = parseLatexLog(PROJECT_LOG, { rootDir: ROOT_DIR, mainFile: 'main.tex' });
+    assert.strictEqual(summarizeDiagnostics(diagnostics), 'chapters/intro.tex:3: Undefined control sequence.');
+  });
+});
+
+describe('overfull and underfull boxes', () => {
+  test('reports the first line of the paragraph and skips the box dump', () => {
+    const diagnostics = parseLatexLog(PROJECT_LOG, { rootDir: ROOT_DIR, mainFile: 'main.tex' });
+    const boxes = diagnostics.warnings.filter(warning => warning.type === 'bad-box');
+    assert.strictEqual(boxes.length, 1);
+    assert.strictEqual(boxes[0].file, 'main.tex');
+    assert.strictEqual(boxes[0].line, 20);
+    assert.match(boxes[0].message, /^Overfull \\hbox \(15\.0pt too wide\)/);
+  });
+
+  test('has no line for boxes built while the page is output', () => {
+    const log = '(./main.tex\nUnderfull \\vbox (badness 10000) has occurred while \\output is active []\n\n)';
+    const [box] = parseLatexLog(log, { rootDir: ROOT_DIR, mainFile: 'main.tex' }).warnings;
+    assert.strictEqual(box.type, 'bad-box');
+    assert.strictEqual(box.line, null);
+  });
+});
+
+describe('missing packages', () => {
+  test('reads a missing style file as a missing package with an upload fix', () => {
+    const diagnostics = attachPackageFixes(parseLatexLog(MISSING_PACKAGE_LOG, { rootDir: ROOT_DIR, mainFile: 'main.tex' }));
+    assert.strictEqual(diagnostics.errors.length, 1);
+    const [error] = diagnostics.errors;
+    assert.strictEqual(error.file, 'main.tex');
+    assert.strictEqual(error.type, 'missing-package');
+    assert.strictEqual(error.package, 'fancystuff');
+    assert.deepStrictEqual(error.fix, { action: 'upload-file', fileName: 'fancystuff.sty' });
+  });
+
+  test('suggests the package for an undefined environment', () => {
+    const diagnostics = attachPackageFixes(parseLatexLog(PROJECT_LOG, { rootDir: ROOT_DIR, mainFile: 'main.tex' }));
+    const environment = diagnostics.errors.find(error => error.type === 'undefined-environment');
+    assert.deepStrictEqual(environment.fix, { action: 'add-package', package: 'wrapfig' });
+  });
+});
+
+describe('line numbers in a document without graphicx', () => {
+  // The undefined command is on line 4 of what the user wrote
+  const SOURCE = '\\documentclass{article}\n\\begin{document}\nSome text.\n\\foo\n\\end{document}\n';
+
+  test('graphicx is loaded without adding a line', () => {
+    const processed = ensureGraphicxPackage(SOURCE, 'pdflatex');
+    assert.strictEqual(processed.split('\n')[0], '\\documentclass{article}\\usepackage[pdftex]{graphicx}');
+    assert.deepStrictEqual(processed.split('\n').slice(1), SOURCE.split('\n').slice(1));
+    assert.strictEqual(ensureGraphicxPackage(processed, 'pdflatex'), processed);
+  });
+
+  test('an error is reported on the line it is on in the source', { skip: !hasPdflatex && 'pdflatex is not installed' }, async () => {
+    const rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-parser-test-'));
+    try {
+      fs.writeFileSync(path.join(rootDir, 'main.tex'), ensureGraphicxPackage(SOURCE, 'pdflatex'));
+      const command = sandboxCommand('pdflatex', ['-interaction=nonstopmode', 'main.tex'], { rootDir });
+      spawnSync(command.file, command.args, { ...command.options, timeout: 60000 });
+      const log = fs.readFileSync(path.join(rootDir, 'main.log'), 'utf8');
+      const [error] = parseLatexLog(log, { rootDir, mainFile: 'main.tex' }).errors;
+      assert.strictEqual(error.type, 'undefined-command');
+      assert.strictEqual(error.file, 'main.tex');
+      assert.strictEqual(error.line, 4);
+    } finally {
+      await fs.remove(rootDir);
+    }
+  });
+});
@@ -0,0 +1,22 @@
+// test/packageHints.test.js
+// Missing-package fixes for undefined commands and environments
+
+const { test } = require('node:test');
+const assert = require('node:assert');
+
+const { packageFix } = require('../packageHints');
+
+const undefinedCommand = (command) => ({ type: 'undefined-command', command, message: `Undefined control sequence \\${command}` });
+const undefinedEnvironment = (name) => ({ type: 'error', message: `LaTeX Error: Environment ${name} undefined.` });
+
+test('suggests the package for a known command or environment', () => {
+  assert.deepStrictEqual(packageFix(undefinedCommand('toprule')), { action: 'add-package', package: 'booktabs' });
+  assert.deepStrictEqual(packageFix(undefinedEnvironment('wrapfigure')), { action: 'add-package', package: 'wrapfig' });
+});
+
+test('ignores names that only exist on Object.prototype', () => {
+  for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+    assert.strictEqual(packageFix(undefinedCommand(name)), null);
+    assert.strictEqual(packageFix(undefinedEnvironment(name)), null);
+  }
+});
@@ -0,0 +1,198 @@
+// test/sandbox.test.js
+// A hostile document must not read host files or write outside its job directory.
+// The compile tests need pdflatex on PATH and are skipped without it.
+
+const { test, describe, before, after } = require('node:test');
+const assert = require('node:assert');
+const { spawnSync } = require('child_process');
+const fs = require('fs-extra');
+const os = require('os');
+const path = require('path');
+
+// Secrets in the server's environment must not reach TeX
+process.env.LATEX_API_KEY = 'sandbox-test-secret';
+
+const {
+  sandboxEnv,
+  sandboxCommand,
+  shellEscapeArgs,
+  findUnsafeBiberSources
+} = require('../sandbox');
+
+const hasPdflatex = !spawnSync('pdflatex', ['--version'], { stdio: 'ignore' }).error;
+const hasKpsewhich = !spawnSync('kpsewhich', ['--version'], { stdio: 'ignore' }).error;
+
+// A marker that only the host file contains, so finding it in TeX's output means it was read
+const SECRET_MARKER = 'HOST-SECRET-7f3a9c';
+
+let workDir;
+let rootDir;
+
+before(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-test-'));
+  rootDir = path.join(workDir, 'job');
+  await fs.ensureDir(rootDir);
+  // Outside the job directory, reachable by ../ and by absolute path
+  await fs.writeFile(path.join(workDir, 'secret.tex'), `${SECRET_MARKER}\n`);
+});
+
+after(async () => {
+  await fs.remove(workDir);
+});
+
+// Compile `source` as main.tex in a fresh job directory, the way the server runs the engine
+function compile(source) {
+  fs.emptyDirSync(rootDir);
+  fs.writeFileSync(path.join(rootDir, 'main.tex'), source);
+  const command = sandboxCommand(
+    'pdflatex',
+    [...shellEscapeArgs([]), '-interaction=nonstopmode', 'main.tex'],
+    { rootDir }
+  );
+  spawnSync(command.file, command.args, { ...command.options, encoding: 'utf8', timeout: 60000 });
+  const logPath = path.join(rootDir, 'main.log');
+  return fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8') : '';
+}
+
+describe('sandboxEnv', () => {
+  test('uses paranoid kpathsea file access and keeps output in the job directory', () => {
+    const env = sandboxEnv(rootDir, []);
+    assert.strictEqual(env.openin_any, 'p');
+    assert.strictEqual(env.openout_any, 'p');
+    assert.strictEqual(env.TEXMFOUTPUT, rootDir);
+    assert.strictEqual(env.HOME, rootDir);
+  });
+
+  test('disables shell escape unless commands are allowlisted', () => {
+    assert.strictEqual(sandboxEnv(rootDir, []).shell_escape, 'f');
+    const restricted = sandboxEnv(rootDir, ['bibtex']);
+    assert.strictEqual(restricted.shell_escape, 'p');
+    assert.strictEqual(restricted.shell_escape_commands, 'bibtex');
+  });
+
+  test('does not pass server secrets on', () => {
+    const env = sandboxEnv(rootDir, []);
+    assert.ok(!Object.values(env).includes('sandbox-test-secret'));
+    assert.ok(!('LATEX_API_KEY' in env));
+  });
+});
+
+describe('sandboxCommand', () => {
+  test('spawns with an argument array in the job directory and never through a shell', () => {
+    const command = sandboxCommand('pdflatex', ['-no-shell-escape', 'main.tex; rm -rf /'], { rootDir });
+    assert.strictEqual(command.options.cwd, rootDir);
+    assert.ok(!command.options.shell);
+    assert.deepStrictEqual(command.args.slice(-2), ['-no-shell-escape', 'main.tex; rm -rf /']);
+    assert.strictEqual(command.options.env.openin_any, 'p');
+  });
+
+  test('kpathsea sees the sandbox settings', { skip: !hasKpsewhich && 'kpsewhich is not installed' }, () => {
+    for (const variable of ['openin_any', 'openout_any']) {
+      const command = sandboxCommand('kpsewhich', [`-var-value=${variable}`], { rootDir });
+      const result = spawnSync(command.file, command.args, { ...command.options, encoding: 'utf8' });
+      assert.strictEqual(result.stdout.trim(), 'p');
+    }
+  });
+});
+
+describe('hostile documents', { skip: !hasPdflatex && 'pdflatex is not installed' }, () => {
+  test('\\input of an absolute host path is refused', () => {
+    const log = compile(`\\documentclass{article}\\begin{document}\\input{${path.join(workDir, 'secret.tex')}}\\end{document}\n`);
+    assert.ok(!log.includes(SECRET_MARKER));
+  });
+
+  test('\\input{/etc/passwd} is refused', () => {
+    const log = compile('\\documentclass{article}\\begin{document}\\input{/etc/passwd}\\end{document}\n');
+    assert.ok(!/root:.*:0:0:/.test(log));
+  });
+
+  test('\\input with a ../ escape is refused', () => {
+    const log = compile('\\documentclass{article}\\begin{document}\\input{../secret.tex}\\end{document}\n');
+    assert.ok(!log.includes(SECRET_MARKER));
+  });
+
+  test('\\openin cannot read host files', () => {
+    const log = compile([
+      '\\documentclass{article}',
+      '\\newread\\hostfile',
+      '\\begin{document}',
+      '\\immediate\\openin\\hostfile=../secret.tex',
+      '\\ifeof\\hostfile\\typeout{OPENIN-REFUSED}\\else\\read\\hostfile to\\line\\typeout{READ:\\line}\\fi',
+      '\\immediate\\openin\\hostfile=/etc/passwd',
+      '\\ifeof\\hostfile\\typeout{OPENIN-REFUSED}\\else\\read\\hostfile to\\line\\typeout{READ:\\line}\\fi',
+      'x',
+      '\\end{document}',
+      ''
+    ].join('\n'));
+    assert.ok(!log.includes(SECRET_MARKER));
+    assert.ok(!log.includes('READ:'));
+  });
+
+  test('\\openout cannot write outside the job directory', async () => {
+    const absoluteTarget = path.join(workDir, 'absolute-escape.tex');
+    compile([
+      '\\documentclass{article}',
+      '\\newwrite\\outfile',
+      '\\begin{document}',
+      '\\immediate\\openout\\outfile=../relative-escape.tex',
+      '\\immediate\\write\\outfile{escaped}',
+      '\\immediate\\closeout\\outfile',
+      `\\immediate\\openout\\outfile=${absoluteTarget}`,
+      '\\immediate\\write\\outfile{escaped}',
+      '\\immediate\\closeout\\outfile',
+      'x',
+      '\\end{document}',
+      ''
+    ].join('\n'));
+    assert.ok(!fs.existsSync(path.join(workDir, 'relative-escape.tex')));
+    assert.ok(!fs.existsSync(absoluteTarget));
+  });
+
+  test('\\write18 does not run commands', () => {
+    const target = path.join(rootDir, 'shell-escape-ran');
+    compile(`\\documentclass{article}\\begin{document}\\immediate\\write18{touch ${target}}x\\end{document}\n`);
+    assert.ok(!fs.existsSync(target));
+  });
+});
+
+describe('findUnsafeBiberSources', () => {
+  const writeBcf = (sources) => {
+    fs.emptyDirSync(rootDir);
+    const entries = sources.map(([attributes, source]) => `<bcf:datasource ${attributes}>${source}</bcf:datasource>`);
+    fs.writeFileSync(path.join(rootDir, 'main.bcf'), `<bcf:controlfile>\n${entries.join('\n')}\n</bcf:controlfile>\n`);
+  };
+
+  test('returns nothing without a .bcf', () => {
+    fs.emptyDirSync(rootDir);
+    assert.deepStrictEqual(findUnsafeBiberSources(rootDir, 'main'), []);
+  });
+
+  test('allows files inside the job directory', () => {
+    writeBcf([
+      ['type="file" datatype="bibtex"', 'refs.bib'],
+      ['type="file" datatype="bibtex"', 'bib/more.bib'],
+      ['datatype="bibtex"', './local.bib']
+    ]);
+    assert.deepStrictEqual(findUnsafeBiberSources(rootDir, 'main'), []);
+  });
+
+  test('rejects absolute paths, ../ escapes, remote URLs and non-file sources', () => {
+    writeBcf([
+      ['type="file" datatype="bibtex"', '/etc/passwd'],
+      ['type="file" datatype="bibtex"', '../secret.bib'],
+      ['type="file" datatype="bibtex"', 'bib/../../secret.bib'],
+      ['type="file" datatype="bibtex"', 'https://example.com/refs.bib'],
+      ['type="file" datatype="bibtex"', 'file:///etc/passwd'],
+      ['type="zoterordfxml" datatype="bibtex"', 'refs.rdf'],
+      ['type="file" datatype="bibtex"', 'refs.bib']
+    ]);
+    assert.deepStrictEqual(findUnsafeBiberSources(rootDir, 'main'), [
+      '/etc/passwd',
+      '../secret.bib',
+      'bib/../../secret.bib',
+      'https://example.com/refs.bib',
+      'file:///etc/passwd',
+      'refs.rdf'
+    ]);
+  });
+});
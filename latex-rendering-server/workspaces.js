@@ -0,0 +1,135 @@
+// workspaces.js
+// Per-project build directories kept between compiles so auxiliary files (.aux, .bbl, .toc) are reused
+
+const crypto = require('crypto');
+const fs = require('fs-extra');
+const os = require('os');
+const path = require('path');
+
+const WORKSPACE_ROOT = process.env.WORKSPACE_DIR || path.join(os.tmpdir(), 'latex-workspaces');
+const WORKSPACE_TTL_MS = 60 * 60 * 1000;
+const MANIFEST_NAME = '.workspace-manifest.json';
+
+// Outputs of earlier runs; a failed run can leave them truncated
+const AUXILIARY_EXTENSIONS = ['.aux', '.bbl', '.bcf', '.blg', '.toc', '.lof', '.lot', '.out', '.nav', '.snm', '.vrb', '.run.xml'];
+
+// Builds of the same project share a directory, so they run one after another
+const workspaceLocks = new Map();
+const workspaceLastUsed = new Map();
+
+function workspaceKey(projectId) {
+  return crypto.createHash('sha256').update(String(projectId)).digest('hex').slice(0, 32);
+}
+
+/**
+ * Run `task({ dir, warm })` in the project's workspace once earlier builds of it have finished.
+ * `warm` is true when the directory holds output from a previous build.
+ */
+function withWorkspace(projectId, task) {
+  const key = workspaceKey(projectId);
+  const dir = path.join(WORKSPACE_ROOT, key);
+  const previous = workspaceLocks.get(key) || Promise.resolve();
+
+  const run = previous.then(async () => {
+    const warm = fs.existsSync(path.join(dir, MANIFEST_NAME));
+    fs.ensureDirSync(dir);
+    workspaceLastUsed.set(key, Date.now());
+    try {
+      return await task({ dir, warm });
+    } finally {
+      workspaceLastUsed.set(key, Date.now());
+    }
+  });
+
+  const settled = run.catch(() => {});
+  workspaceLocks.set(key, settled);
+  settled.then(() => {
+    if (workspaceLocks.get(key) === settled) workspaceLocks.delete(key);
+  });
+  return run;
+}
+
+function hashContents(contents) {
+  return crypto.createHash('sha1').update(contents).digest('hex');
+}
+
+function readManifest(dir) {
+  try {
+    return fs.readJsonSync(path.join(dir, MANIFEST_NAME));
+  } catch {
+    return { files: {} };
+  }
+}
+
+/**
+ * Make the workspace's sources match the request: write new or changed files and remove
+ * files that are no longer part of the project. Build outputs are left alone.
+ * `entries` are `{ path, contents }` with a Buffer or string; `resolvePath` guards against traversal.
+ */
+function syncWorkspaceFiles(dir, entries, resolvePath) {
+  const manifest = readManifest(dir);
+  const nextFiles = {};
+  let written = 0;
+  let removed = 0;
+
+  for (const entry of entries) {
+    const targetPath = resolvePath(dir, entry.path);
+    const relativePath = path.relative(dir, targetPath);
+    const contentHash = hashContents(entry.contents);
+    nextFiles[relativePath] = contentHash;
+    if (manifest.files[relativePath] === contentHash && fs.existsSync(targetPath)) continue;
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    fs.writeFileSync(targetPath, entry.contents);
+    written++;
+  }
+
+  for (const relativePath of Object.keys(manifest.files)) {
+    if (nextFiles[relativePath]) continue;
+    fs.removeSync(resolvePath(dir, relativePath));
+    removed++;
+  }
+
+  fs.writeJsonSync(path.join(dir, MANIFEST_NAME), { files: nextFiles });
+  return { written, removed };
+}
+
+// Delete auxiliary outputs so the next build starts from scratch
+function clearAuxiliaryFiles(dir) {
+  const walk = (current) => {
+    for (const name of fs.readdirSync(current)) {
+      const filePath = path.join(current, name);
+      const stats = fs.statSync(filePath);
+      if (stats.isDirectory()) {
+        walk(filePath);
+      } else if (AUXILIARY_EXTENSIONS.some(extension => name.endsWith(extension))) {
+        fs.removeSync(filePath);
+      }
+    }
+  };
+  if (fs.existsSync(dir)) walk(dir);
+}
+
+// Remove workspaces nobody has compiled in for a while
+function cleanupWorkspaces() {
+  if (!fs.existsSync(WORKSPACE_ROOT)) return;
+  const cutoff = Date.now() - WORKSPACE_TTL_MS;
+  for (const key of fs.readdirSync(WORKSPACE_ROOT)) {
+    if (workspaceLocks.has(key)) continue;
+    const dir = path.join(WORKSPACE_ROOT, key);
+    const lastUsed = workspaceLastUsed.get(key) || fs.statSync(dir).mtimeMs;
+    if (lastUsed < cutoff) {
+      fs.remove(dir, err => {
+        if (err) console.error(`Error removing workspace ${key}:`, err);
+      });
+      workspaceLastUsed.delete(key);
+    }
+  }
+}
+
+module.exports = {
+  withWorkspace,
+  syncWorkspaceFiles,
+  clearAuxiliaryFiles,
+  cleanupWorkspaces
+};
@@ -0,0 +1,41 @@
+// app/api/compile-latex/cancel/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { LATEX_API_KEY as API_KEY, LATEX_SERVER_URL } from '@/services/renderServerService';
+
+export async function POST(request: NextRequest) {
+  try {
+    if (API_KEY && request.headers.get('x-api-key') !== API_KEY) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized access'
+      }, { status: 401 });
+    }
+
+    const { jobId } = await request.json();
+    if (!jobId || typeof jobId !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: 'A job ID is required'
+      }, { status: 400 });
+    }
+
+    const serverResponse = await fetch(`${LATEX_SERVER_URL}/jobs/${encodeURIComponent(jobId)}/cancel`, {
+      method: 'POST',
+      headers: { 'x-api-key': API_KEY },
+      cache: 'no-store'
+    });
+    const responseData = await serverResponse.json().catch(() => ({}));
+
+    // The job may already have finished, which is not an error for the editor
+    return NextResponse.json({
+      success: serverResponse.ok,
+      ...responseData
+    }, { status: serverResponse.ok ? 200 : serverResponse.status });
+  } catch (error) {
+    console.error('Error cancelling compile job:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -2,12 +2,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDoc, doc, collection, query, where, getDocs } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import {
+  ProjectFileRecord,
+  ProjectTreeEntry,
+  buildProjectPaths,
+  getFileExtension,
+  resolveMainFile
+} from '@/utils/projectFileUtils';
+import { collectProjectTree } from '@/services/projectArchiveService';
+import { LATEX_API_KEY as API_KEY, LATEX_SERVER_URL, RenderServerResponse } from '@/services/renderServerService';
+import {
+  CompileFormat,
+  DEFAULT_LATEX_ENGINE,
+  LatexEngine,
+  isCompileFormat,
+  isLatexEngine,
+  normalizeShellEscapeCommands
+} from '@/services/latexService';
+import { formatServerSentEvent, readServerSentEvents } from '@/utils/serverSentEvents';
+import { renderLatexToHtml } from '@/utils/LaTeXHtmlRenderer';
+import { parseGraphicsPaths, resolveGraphicsPath } from '@/utils/graphicsPaths';
 
-// Get the LaTeX server URL from environment variables with fallback
-const LATEX_SERVER_URL = process.env.LATEX_SERVER_URL || 'https://latex-server-236736164668.us-central1.run.app/';
-const API_KEY = process.env.LATEX_API_KEY || 'ewZolV1dblxUYDjTrLXyqFkipvSNRM0vKP1H03gjM3JUIKhGuxb6x26CqaOHAjyGbtL95LM9gQPJ4TSa1LI4RlkgMATbXAj0fOTmgdFupwHULRJhTNHzQcCyw6engs4e';
 console.log('API_KEY being used to access LaTeX server:', API_KEY);
 
+
 export async function POST(request: NextRequest) {
   try {
     // API Key authentication (optional)
@@ -22,198 +40,133 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    const { latex, projectId } = await request.json();
-
-    if (!latex) {
+    const {
+      latex,
+      projectId,
+      fileId,
+      engine: requestedEngine,
+      jobId,
+      stream = false,
+      format: requestedFormat,
+      imageOptions
+    } = await request.json();
+
+    const format: CompileFormat = requestedFormat === undefined ? 'pdf' : requestedFormat;
+    if (!isCompileFormat(format)) {
       return NextResponse.json({
         success: false,
-        error: 'LaTeX content is required'
+        error: `Unsupported output format: ${requestedFormat}`
       }, { status: 400 });
     }
 
-    // Extract image references from LaTeX content
-    const imageReferences = extractImageReferences(latex);
-    console.log('Found image references:', imageReferences);
+    if (!latex && !projectId) {
+      return NextResponse.json({
+        success: false,
+        error: 'LaTeX content or a project ID is required'
+      }, { status: 400 });
+    }
 
-    // Array to hold image data to send to the LaTeX server
-    const imagesToSend = [];
+    // Assemble the whole project tree so \input, \include, .sty/.cls and .bib files are available
+    let projectFiles: ProjectFileRecord[] = [];
+    let mainFileId: string | null = null;
+    let projectEngine: unknown = null;
+    let shellEscapeCommands: string[] = [];
+
+    if (projectId) {
+      try {
+        const projectDoc = await getDoc(doc(db, "projects", projectId));
+        if (projectDoc.exists()) {
+          mainFileId = projectDoc.data().mainFileId || null;
+          projectEngine = projectDoc.data().engine || null;
+          shellEscapeCommands = normalizeShellEscapeCommands(projectDoc.data().shellEscapeCommands);
+        }
 
-    try {
-      // If projectId is provided, try to fetch the images from Firestore
-      if (projectId && imageReferences.length > 0) {
-        // Create a query to find all project files
         const filesQuery = query(
           collection(db, "projectFiles"),
           where("projectId", "==", projectId)
         );
-
         const querySnapshot = await getDocs(filesQuery);
-        const projectFiles = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        }));
+        projectFiles = querySnapshot.docs
+          .map(fileDoc => ({ id: fileDoc.id, ...fileDoc.data() } as ProjectFileRecord))
+          .filter(file => file.deleted !== true);
 
         console.log(`Found ${projectFiles.length} project files`);
-
-        // For each image reference, try to find a matching file
-        for (const imgRef of imageReferences) {
-          console.log(`Looking for image: ${imgRef}`);
-
-          // Try different ways to match the filename
-          const matchingFile = projectFiles.find(file =>
-            file.name === imgRef ||
-            file.name === `/${imgRef}` ||
-            file.name.endsWith(`/${imgRef}`) ||
-            file.name.toLowerCase() === imgRef.toLowerCase() ||
-            (file.name.toLowerCase().includes(".jpg") ||
-              file.name.toLowerCase().includes(".png") ||
-              file.name.toLowerCase().includes(".jpeg")) &&
-            file.name.toLowerCase().includes(imgRef.toLowerCase().replace(/\.[^/.]+$/, ""))
-          );
-
-          if (matchingFile) {
-            console.log(`Found matching file for ${imgRef}: ${matchingFile.name}`);
-
-            // Check different ways the image data might be stored
-            if (matchingFile.dataUrl) {
-              console.log(`Using dataUrl field for ${imgRef}`);
-
-              // Extract the base64 data from the data URL if needed
-              if (matchingFile.dataUrl.startsWith('data:')) {
-                const matches = matchingFile.dataUrl.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-
-                if (matches && matches.length === 3) {
-                  const base64Data = matches[2];
-                  console.log(`Extracted base64 data for ${imgRef} (${base64Data.length} chars)`);
-
-                  imagesToSend.push({
-                    name: imgRef,
-                    data: base64Data,
-                    type: matches[1]
-                  });
-                } else {
-                  console.log(`Could not extract base64 data from dataUrl for ${imgRef}`);
-                }
-              } else {
-                // Assume it's already base64
-                console.log(`Using dataUrl as base64 directly for ${imgRef}`);
-                imagesToSend.push({
-                  name: imgRef,
-                  data: matchingFile.dataUrl,
-                  type: 'image/jpeg' // Default type
-                });
-              }
-            }
-            else if (matchingFile.content && typeof matchingFile.content === 'string' &&
-              (matchingFile.content.startsWith('data:') ||
-                matchingFile.content.match(/^[A-Za-z0-9+/=]+$/))) {
-              console.log(`Using content field for ${imgRef}`);
-
-              // If content looks like a data URL or base64
-              if (matchingFile.content.startsWith('data:')) {
-                const matches = matchingFile.content.match(/^data:([A-Za-z-+\/]+);base64,(.+)$/);
-
-                if (matches && matches.length === 3) {
-                  imagesToSend.push({
-                    name: imgRef,
-                    data: matches[2],
-                    type: matches[1]
-                  });
-                }
-              } else if (matchingFile.content.match(/^[A-Za-z0-9+/=]+$/)) {
-                // Appears to be base64 directly
-                imagesToSend.push({
-                  name: imgRef,
-                  data: matchingFile.content,
-                  type: 'image/jpeg' // Default type
-                });
-              }
-            }
-            else if (matchingFile.url) {
-              console.log(`Found URL for ${imgRef}: ${matchingFile.url}`);
-              // For URLs, we'd typically need to fetch them server-side
-              try {
-                // Try to fetch the image from URL if it's accessible
-                if (matchingFile.url.startsWith('http')) {
-                  const imageResponse = await fetch(matchingFile.url);
-                  if (imageResponse.ok) {
-                    const arrayBuffer = await imageResponse.arrayBuffer();
-                    const base64 = Buffer.from(arrayBuffer).toString('base64');
-                    const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
-
-                    imagesToSend.push({
-                      name: imgRef,
-                      data: base64,
-                      type: contentType
-                    });
-                    console.log(`Successfully fetched image from URL for ${imgRef}`);
-                  }
-                }
-              } catch (fetchError) {
-                console.error(`Error fetching image from URL for ${imgRef}:`, fetchError);
-              }
-            }
-            else {
-              console.log(`No usable image data found in matching file for ${imgRef}`);
-            }
-          } else {
-            console.log(`Could not find matching file for ${imgRef} in project files`);
-          }
-        }
+      } catch (error) {
+        console.error('Error loading project files:', error);
+        // Continue with the single document we were given
       }
-    } catch (error) {
-      console.error('Error processing image references:', error);
-      // Continue with compilation even if image processing fails
     }
 
-    // Check if we have any modifiable LaTeX content
-    let processedLaTeX = latex;
+    // The editor's buffer may be ahead of Firestore, so prefer it for the open file
+    if (fileId && typeof latex === 'string') {
+      projectFiles = projectFiles.map(file =>
+        file.id === fileId ? { ...file, content: latex } : file
+      );
+    }
 
-    // Add graphicspath if it doesn't exist
-    if (!processedLaTeX.includes('\\graphicspath')) {
-      // Create a graphicspath command that includes multiple possible locations
-      const graphicsPathCmd = '\\graphicspath{{./}{./images/}{.}}\n';
+    const mainFile = resolveMainFile(projectFiles, mainFileId, fileId);
+    const projectPaths = buildProjectPaths(projectFiles);
+    const mainFilePath = mainFile ? projectPaths.get(mainFile.id) || 'main.tex' : 'main.tex';
+    const mainContent = mainFile ? mainFile.content || '' : latex;
 
-      // Add after documentclass and packages but before begin document
-      if (processedLaTeX.includes('\\begin{document}')) {
-        processedLaTeX = processedLaTeX.replace(
-          /(\\begin\{document\})/,
-          `${graphicsPathCmd}$1`
-        );
-      } else {
-        // If no begin document, add at the beginning
-        processedLaTeX = graphicsPathCmd + processedLaTeX;
-      }
+    if (!mainContent) {
+      return NextResponse.json({
+        success: false,
+        error: 'No main document found to compile'
+      }, { status: 400 });
+    }
+
+    // An explicit engine in the request wins over the project's setting
+    const engine: LatexEngine = isLatexEngine(requestedEngine)
+      ? requestedEngine
+      : isLatexEngine(projectEngine) ? projectEngine : DEFAULT_LATEX_ENGINE;
+
+    console.log(`Compiling main document: ${mainFilePath} with ${engine}`);
+
+    const filesToSend = await collectProjectTree(projectFiles, projectPaths);
+    const shippedPaths = new Set(filesToSend.map(entry => entry.path));
 
-      console.log("Added graphicspath command to LaTeX content");
+    // TeX finds graphics in the shipped tree by their exact paths; report the ones it will not find
+    const unresolvedGraphics = findUnresolvedGraphics(filesToSend, shippedPaths);
+    if (unresolvedGraphics.length > 0) {
+      console.log('Graphics not found in the project tree:', unresolvedGraphics);
     }
 
-    // Make sure graphicx package is included
-    if (!processedLaTeX.includes('\\usepackage{graphicx}') &&
-      !processedLaTeX.includes('\\usepackage[pdftex]{graphicx}')) {
-      if (processedLaTeX.includes('\\documentclass')) {
-        processedLaTeX = processedLaTeX.replace(
-          /(\\documentclass.*?\})/,
-          '$1\n\\usepackage[pdftex]{graphicx}'
-        );
-        console.log("Added graphicx package to LaTeX content");
-      }
+    // Preamble fixes only apply to the main document
+    const processedLaTeX = preparePreamble(mainContent, engine);
+    const mainEntry = filesToSend.find(entry => entry.path === mainFilePath);
+    if (mainEntry) {
+      mainEntry.content = processedLaTeX;
+    } else {
+      filesToSend.push({ id: mainFile?.id || 'main', path: mainFilePath, content: processedLaTeX });
     }
 
-    // Create HTML preview (used as fallback)
-    const htmlPreview = createKatexHtmlPreview(processedLaTeX);
+    // Create HTML preview (used as fallback) from the same project tree
+    const htmlPreview = createHtmlPreview(processedLaTeX, filesToSend);
+
+    // Create request data with the project tree
+    const requestData = {
+      files: filesToSend.map(({ path, content, data }) => ({ path, content, data })),
+      mainFile: mainFilePath,
+      format,
+      // Page range and resolution for PNG and SVG output
+      imageOptions: imageOptions || undefined,
+      engine,
+      // Programs the project lets \write18 run; without any the server disables shell escape
+      shellEscapeCommands,
+      // Lets the render server reuse the project's workspace (.aux, .bbl, .toc) between builds
+      projectId: projectId || null,
+      // Chosen by the editor so it can cancel this build while it is still running
+      jobId: typeof jobId === 'string' ? jobId : undefined
+    };
+    console.log(`Sending request to LaTeX server at ${LATEX_SERVER_URL} with ${filesToSend.length} files`);
+
+    if (stream) {
+      return streamCompile(requestData, htmlPreview);
+    }
 
     try {
-      console.log(`Sending request to LaTeX server at ${LATEX_SERVER_URL} with ${imagesToSend.length} images`);
-
-      // Create request data with image information
-      const requestData = {
-        latex: processedLaTeX,
-        format: 'pdf',
-        images: imagesToSend
-      };
-
-      // Try to access the LaTeX server with the image data
+      // Try to access the LaTeX server with the project tree
       const serverResponse = await fetch(`${LATEX_SERVER_URL}/render`, {
         method: 'POST',
         headers: {
@@ -222,42 +175,22 @@ export async function POST(request: NextRequest) {
         },
         body: JSON.stringify(requestData),
         cache: 'no-store'
-      });       
-
+      });
 
-      // Handle the server response
+      const responseText = await serverResponse.text();
       if (!serverResponse.ok) {
-        const errorText = await serverResponse.text();
-        console.error('LaTeX server error:', errorText);
-        throw new Error('LaTeX server returned an error response');
-      }
-
-      const responseData = await serverResponse.json();
-      console.log('LaTeX server response received');
-
-      // If we got PDF data, return it
-      if (responseData.format === 'pdf' && responseData.data) {
-        return NextResponse.json({
-          success: true,
-          pdfData: `data:application/pdf;base64,${responseData.data}`
-        });
+        console.error('LaTeX server error:', responseText);
       } else {
-        // No usable data from server, return our HTML preview
-        return NextResponse.json({
-          success: true,
-          htmlPreview,
-          message: 'Using browser rendering (server did not return PDF)'
-        });
+        console.log('LaTeX server response received');
       }
+
+      const { status, body } = toCompileResponse(serverResponse.ok, parseJsonSafely(responseText), htmlPreview);
+      return NextResponse.json(body, { status });
     } catch (error) {
       console.error('Error communicating with LaTeX server:', error);
 
       // Return the HTML preview as fallback
-      return NextResponse.json({
-        success: true,
-        htmlPreview,
-        message: 'Using browser rendering (server connection failed)'
-      });
+      return NextResponse.json(browserFallback(htmlPreview, 'server connection failed'));
     }
   } catch (error) {
     console.error('API route error:', error);
@@ -269,135 +202,240 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Function to extract image references from LaTeX content
-function extractImageReferences(latex: string): string[] {
-  // Regular expressions to match various image inclusion commands
-  const patterns = [
-    /\\includegraphics(?:\[.*?\])?\{([^{}]+)\}/g,      // Standard includegraphics
-    /\\includesvg(?:\[.*?\])?\{([^{}]+)\}/g,           // includesvg if used
-    /\\includestandalone(?:\[.*?\])?\{([^{}]+)\}/g,    // includestandalone if used
-    /\\import\{([^{}]+)\}\{([^{}]+)\}/g,               // import command
-    /\\input\{([^{}]+)\}/g                             // input command (might contain images)
-  ];
-
-  let matches: string[] = [];
-
-  // Extract matches from each pattern
-  patterns.forEach(pattern => {
-    const patternMatches = [...latex.matchAll(pattern)];
-    const extractedPaths = patternMatches.map(match => {
-      // For import command, combine the path and filename
-      if (pattern.toString().includes('\\\\import')) {
-        return `${match[1]}/${match[2]}`;
+function browserFallback(htmlPreview: string, reason: string) {
+  return {
+    success: true,
+    browserFallback: true,
+    htmlPreview,
+    message: `Using browser rendering (${reason})`
+  };
+}
+
+// Turn a render server response into the status and body this route answers with
+function toCompileResponse(ok: boolean, responseData: RenderServerResponse | null, htmlPreview: string) {
+  if (!ok) {
+    if (responseData?.cancelled) {
+      return {
+        status: 409,
+        body: {
+          success: false,
+          cancelled: true,
+          jobId: responseData.jobId,
+          error: responseData.error || 'Compilation cancelled'
+        }
+      };
+    }
+    // A failed build comes back with parsed diagnostics; surface those instead of a fallback preview
+    if (responseData?.diagnostics) {
+      return {
+        status: 422,
+        body: {
+          success: false,
+          jobId: responseData.jobId,
+          error: responseData.error || 'LaTeX compilation failed',
+          diagnostics: responseData.diagnostics
+        }
+      };
+    }
+    return { status: 200, body: browserFallback(htmlPreview, 'server connection failed') };
+  }
+
+  // If we got PDF data, return it
+  if (responseData?.format === 'pdf' && responseData.data) {
+    return {
+      status: 200,
+      body: {
+        success: true,
+        jobId: responseData.jobId,
+        format: 'pdf',
+        pdfData: `data:application/pdf;base64,${responseData.data}`,
+        diagnostics: responseData.diagnostics,
+        synctex: responseData.synctex || null
+      }
+    };
+  }
+
+  // Page images come back as base64 per page
+  if ((responseData?.format === 'png' || responseData?.format === 'svg') && responseData.pages) {
+    const mimeType = responseData.format === 'png' ? 'image/png' : 'image/svg+xml';
+    return {
+      status: 200,
+      body: {
+        success: true,
+        jobId: responseData.jobId,
+        format: responseData.format,
+        pages: responseData.pages.map(({ page, data }) => ({ page, data: `data:${mimeType};base64,${data}` })),
+        pageCount: responseData.pageCount,
+        diagnostics: responseData.diagnostics
+      }
+    };
+  }
+
+  if (responseData?.format === 'html' && typeof responseData.html === 'string') {
+    return {
+      status: 200,
+      body: {
+        success: true,
+        jobId: responseData.jobId,
+        format: 'html',
+        html: responseData.html,
+        diagnostics: responseData.diagnostics
+      }
+    };
+  }
+
+  // No usable data from server, return our HTML preview
+  return { status: 200, body: browserFallback(htmlPreview, 'server did not return PDF') };
+}
+
+/**
+ * Compile through the render server's event stream, passing its stage and log events on
+ * and answering with a final "result" event that carries this route's usual status and body.
+ */
+function streamCompile(requestData: Record<string, unknown>, htmlPreview: string) {
+  const encoder = new TextEncoder();
+  const upstream = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+      let resultSent = false;
+
+      try {
+        const serverResponse = await fetch(`${LATEX_SERVER_URL}/render`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': API_KEY
+          },
+          body: JSON.stringify({ ...requestData, stream: true }),
+          cache: 'no-store',
+          signal: upstream.signal
+        });
+
+        // Requests rejected before the build starts are answered with plain JSON
+        const contentType = serverResponse.headers.get('content-type') || '';
+        if (!serverResponse.body || !contentType.includes('text/event-stream')) {
+          const responseText = await serverResponse.text();
+          console.error('LaTeX server did not stream:', responseText);
+          send('result', toCompileResponse(serverResponse.ok, parseJsonSafely(responseText), htmlPreview));
+          resultSent = true;
+          return;
+        }
+
+        await readServerSentEvents(serverResponse.body, ({ event, data }) => {
+          if (event === 'result') {
+            const { status, body: responseData } = data as { status: number; body: RenderServerResponse };
+            send('result', toCompileResponse(status >= 200 && status < 300, responseData, htmlPreview));
+            resultSent = true;
+          } else {
+            send(event, data);
+          }
+        });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Error streaming from LaTeX server:', error);
+        }
+      } finally {
+        if (!upstream.signal.aborted) {
+          if (!resultSent) {
+            send('result', { status: 200, body: browserFallback(htmlPreview, 'server connection failed') });
+          }
+          controller.close();
+        }
       }
-      return match[1];
-    });
-    matches = [...matches, ...extractedPaths];
+    },
+    // The editor went away or started a newer compile
+    cancel() {
+      upstream.abort();
+    }
   });
 
-  // Process paths to handle extensions properly
-  const processedMatches = matches.map(path => {
-    // If no extension is provided, LaTeX will look for common image extensions
-    if (!path.includes('.')) {
-      return path; // Return as is, the compile function will try different extensions
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
     }
-    return path;
   });
-
-  // Return unique values
-  return [...new Set(processedMatches)];
 }
 
-
-// Create KaTeX-compatible HTML preview for client-side rendering
-function createKatexHtmlPreview(latex: string): string {
-  // Extract metadata
-  const titleMatch = latex.match(/\\title\{([^}]+)\}/);
-  const authorMatch = latex.match(/\\author\{([^}]+)\}/);
-  const dateMatch = latex.match(/\\date\{([^}]+)\}/);
-
-  const title = titleMatch ? titleMatch[1] : 'Untitled Document';
-  const author = authorMatch ? authorMatch[1] : '';
-  const date = dateMatch ? dateMatch[1] : (latex.includes('\\today') ? new Date().toLocaleDateString() : '');
-
-  // Extract content between \begin{document} and \end{document}
-  const documentMatch = latex.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
-  const documentContent = documentMatch ? documentMatch[1] : latex;
-
-  // Process document content with KaTeX-compatible rules
-  let processedContent = documentContent
-    // Remove \maketitle if present - we'll render our own title
-    .replace(/\\maketitle/g, '')
-
-    // Process sections and subsections
-    .replace(/\\section\{([^}]+)\}/g, '<h2 class="text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-300 text-black">$1</h2>')
-    .replace(/\\subsection\{([^}]+)\}/g, '<h3 class="text-xl font-semibold mt-5 mb-2 text-black">$1</h3>')
-    .replace(/\\subsubsection\{([^}]+)\}/g, '<h4 class="text-lg font-semibold mt-4 mb-2 text-black">$1</h4>')
-
-    // Handle images
-    .replace(/\\includegraphics(?:\[([^\]]*)\])?\{([^}]+)\}/g, (match, options, file) => {
-      const width = options?.match(/width=([^,}]+)/) ? options.match(/width=([^,}]+)/)[1] : '80%';
-      return `<div class="my-4 text-center p-4 bg-gray-100 rounded"><div class="border-2 border-dashed border-gray-300 p-4 bg-white"><div class="text-gray-500 font-medium">Image: ${file}</div></div><div class="text-sm text-gray-500 mt-2">${file}</div></div>`;
-    })
-
-    // Preserve math expressions for KaTeX
-    .replace(/\\begin\{equation\}/g, '$$')
-    .replace(/\\end\{equation\}/g, '$$')
-    .replace(/\\begin\{align\}([\s\S]*?)\\end\{align\}/g, '$$\\begin{aligned}$1\\end{aligned}$$')
-
-    // Process lists
-    .replace(/\\begin\{itemize\}([\s\S]*?)\\end\{itemize\}/g, '<ul class="list-disc pl-8 my-4 text-black">$1</ul>')
-    .replace(/\\begin\{enumerate\}([\s\S]*?)\\end\{enumerate\}/g, '<ol class="list-decimal pl-8 my-4 text-black">$1</ol>')
-    .replace(/\\item\s+/g, '<li class="mb-2">')
-    .replace(/(?<=<li class="mb-2">[^\n]+)\n/g, '</li>\n')
-    .replace(/(?<=<li class="mb-2">[^\n]+)(?=<li)/g, '</li>')
-    .replace(/(?<=<li class="mb-2">[^\n]+)(?=<\/[ou]l>)/g, '</li>')
-
-    // Text formatting
-    .replace(/\\textbf\{([^}]+)\}/g, '<strong>$1</strong>')
-    .replace(/\\textit\{([^}]+)\}/g, '<em>$1</em>')
-    .replace(/\\emph\{([^}]+)\}/g, '<em>$1</em>')
-
-    // Simplified table handling
-    .replace(/\\begin\{table\}([\s\S]*?)\\end\{table\}/g, '<div class="table-container my-4">$1</div>')
-    .replace(/\\begin\{tabular\}\{([^}]+)\}([\s\S]*?)\\end\{tabular\}/g,
-      '<table class="border-collapse border border-gray-300 mx-auto"><tbody>$2</tbody></table>')
-    .replace(/([^\\])\\\\/g, '$1</tr><tr>')
-    .replace(/&/g, '</td><td class="border border-gray-300 px-3 py-2">')
-
-    // Process references
-    .replace(/\\ref\{([^}]+)\}/g, '<span class="text-blue-600">[ref:$1]</span>')
-    .replace(/\\cite\{([^}]+)\}/g, '<span class="text-blue-600">[citation:$1]</span>')
-
-    // Simple paragraph handling
-    .replace(/\n\n/g, '</p><p class="my-3 text-black">');
-
-  // Wrap in paragraphs if not already
-  if (!processedContent.startsWith('<')) {
-    processedContent = '<p class="my-3 text-black">' + processedContent;
-  }
-  if (!processedContent.endsWith('>')) {
-    processedContent += '</p>';
+// Parse a JSON response body without throwing on plain-text errors
+function parseJsonSafely(text: string) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
   }
+}
 
-  // Create title block if we found title information
-  let titleBlock = '';
-  if (title) {
-    titleBlock = `
-      <div class="mb-6 text-center">
-        <h1 class="text-3xl font-bold mb-2 text-black">${title}</h1>
-        ${author ? `<p class="text-xl mb-1 text-gray-700">${author}</p>` : ''}
-        ${date ? `<p class="text-gray-500">${date}</p>` : ''}
-      </div>
-    `;
+// Make sure the main document has graphicx loaded
+function preparePreamble(latex: string, engine: LatexEngine): string {
+  let processedLaTeX = latex;
+
+  // Make sure graphicx package is included, with the pdftex driver only under pdfLaTeX
+  if (!/\\usepackage(\[[^\]]*\])?\{graphicx\}/.test(processedLaTeX)) {
+    if (processedLaTeX.includes('\\documentclass')) {
+      const graphicxPackage = engine === 'pdflatex' ? '\\usepackage[pdftex]{graphicx}' : '\\usepackage{graphicx}';
+      // On the \documentclass line, so later lines keep the numbers the log and SyncTeX report
+      processedLaTeX = processedLaTeX.replace(
+        /(\\documentclass.*?\})/,
+        `$1${graphicxPackage}`
+      );
+      console.log("Added graphicx package to LaTeX content");
+    }
   }
 
-  return `
-    <div class="latex-preview font-serif">
-      ${titleBlock}
-      <div class="latex-content prose prose-lg max-w-none text-black">
-        ${processedContent}
-      </div>
-    </div>
-  `;
-}
\ No newline at end of file
+  return processedLaTeX;
+}
+
+// \includegraphics targets that resolve to no file, with \graphicspath and extensionless lookup applied
+function findUnresolvedGraphics(files: ProjectTreeEntry[], shippedPaths: Set<string>): string[] {
+  const sources = files
+    .filter(entry => entry.path.toLowerCase().endsWith('.tex') && typeof entry.content === 'string')
+    .map(entry => (entry.content as string).replace(/(^|[^\\])%.*$/gm, '$1'));
+  const graphicsPaths = sources.flatMap(parseGraphicsPaths);
+
+  const references = sources.flatMap(source =>
+    [...source.matchAll(/\\includegraphics\*?(?:\[[^\]]*\])*\s*\{([^}]+)\}/g)].map(match => match[1].trim())
+  );
+
+  return [...new Set(references)].filter(reference =>
+    resolveGraphicsPath(reference, graphicsPaths, path => shippedPaths.has(path)) === null
+  );
+}
+
+// Stored binaries do not always carry a MIME type
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  pdf: 'application/pdf'
+};
+
+// Offline preview of the main document with the project's images, \input files and .bib sources
+function createHtmlPreview(latex: string, files: ProjectTreeEntry[]): string {
+  const filesByPath = new Map(files.map(entry => [entry.path, entry]));
+
+  return renderLatexToHtml(latex, {
+    resolveImage: (path) => {
+      const entry = filesByPath.get(path);
+      if (!entry?.data) return null;
+      const mimeType = entry.mimeType || IMAGE_MIME_TYPES[getFileExtension(path)] || 'application/octet-stream';
+      return `data:${mimeType};base64,${entry.data}`;
+    },
+    resolveInput: (path) => {
+      const entry = filesByPath.get(path);
+      return typeof entry?.content === 'string' ? entry.content : null;
+    },
+    bibliography: files
+      .filter(entry => entry.path.toLowerCase().endsWith('.bib') && typeof entry.content === 'string')
+      .map(entry => entry.content)
+      .join('\n')
+  });
+}
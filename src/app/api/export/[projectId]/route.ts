@@ -0,0 +1,98 @@
+// app/api/export/[projectId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { getDoc, doc, collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ProjectFileRecord } from '@/utils/projectFileUtils';
+import { archiveFileName, createProjectArchive, streamArchive } from '@/services/projectArchiveService';
+import { MAX_COMPILE_HISTORY, listCompileArtifacts } from '@/services/compileHistoryService';
+
+/**
+ * Download the project as a ZIP with its folder layout, for its owner and collaborators.
+ * `?pdf=true` adds the latest compiled PDF kept in the compile history.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized access'
+      }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const includePdf = request.nextUrl.searchParams.get('pdf') === 'true';
+
+    const projectDoc = await getDoc(doc(db, "projects", projectId));
+    if (!projectDoc.exists()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Project not found'
+      }, { status: 404 });
+    }
+    const projectData = projectDoc.data();
+    if (projectData.owner !== userId && !projectData.collaborators?.includes(userId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'You do not have access to this project'
+      }, { status: 403 });
+    }
+
+    const filesQuery = query(
+      collection(db, "projectFiles"),
+      where("projectId", "==", projectId)
+    );
+    const querySnapshot = await getDocs(filesQuery);
+    const projectFiles = querySnapshot.docs.map(fileDoc => ({ id: fileDoc.id, ...fileDoc.data() } as ProjectFileRecord));
+
+    const extraFiles: { path: string; data: Uint8Array }[] = [];
+    if (includePdf) {
+      const pdf = await fetchLatestCompiledPdf(projectId);
+      if (pdf) {
+        extraFiles.push({ path: archiveFileName(projectData.title, '.pdf'), data: pdf });
+      } else {
+        console.log(`No stored compile to add to the export of project ${projectId}`);
+      }
+    }
+
+    const { zip, fileCount, skipped } = await createProjectArchive(projectFiles, { extraFiles });
+    if (skipped.length > 0) {
+      console.log(`Export of project ${projectId} skipped files without data: ${skipped.join(', ')}`);
+    }
+    console.log(`Exporting project ${projectId}: ${fileCount} files`);
+
+    return new NextResponse(streamArchive(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${archiveFileName(projectData.title)}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting project:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+// Compiles kept only in a browser's IndexedDB cannot be reached from here
+async function fetchLatestCompiledPdf(projectId: string): Promise<Uint8Array | null> {
+  try {
+    const artifacts = await listCompileArtifacts(projectId, MAX_COMPILE_HISTORY);
+    const latest = artifacts.find(artifact => artifact.location === 'storage' && artifact.downloadURL);
+    if (!latest?.downloadURL) return null;
+
+    const response = await fetch(latest.downloadURL);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.error('Error loading the latest compiled PDF:', error);
+    return null;
+  }
+}
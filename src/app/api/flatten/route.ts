@@ -0,0 +1,83 @@
+// app/api/flatten/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDoc, doc, collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  ProjectFileRecord,
+  buildProjectPaths,
+  getFileName,
+  isBinaryProjectFile,
+  resolveMainFile
+} from '@/utils/projectFileUtils';
+import { flattenLatex } from '@/utils/latexFlatten';
+
+/**
+ * The project's main document as one self-contained .tex, with \input, \include and \subfile
+ * files inlined. `latex` with `fileId` replaces that file's saved content; `stripComments`
+ * removes comments; `bbl` (the text of a .bbl) replaces \bibliography{...}. The response's
+ * `sourceMap[n - 1]` gives the file and line that output line n came from.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { latex, projectId, fileId, stripComments = false, bbl } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({
+        success: false,
+        error: 'A project ID is required'
+      }, { status: 400 });
+    }
+
+    const projectDoc = await getDoc(doc(db, "projects", projectId));
+    if (!projectDoc.exists()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Project not found'
+      }, { status: 404 });
+    }
+
+    const filesQuery = query(
+      collection(db, "projectFiles"),
+      where("projectId", "==", projectId)
+    );
+    const querySnapshot = await getDocs(filesQuery);
+    let projectFiles = querySnapshot.docs
+      .map(fileDoc => ({ id: fileDoc.id, ...fileDoc.data() } as ProjectFileRecord))
+      .filter(file => file.deleted !== true);
+
+    // The editor's buffer may be ahead of Firestore
+    if (fileId && typeof latex === 'string') {
+      projectFiles = projectFiles.map(file =>
+        file.id === fileId ? { ...file, content: latex } : file
+      );
+    }
+
+    const mainFile = resolveMainFile(projectFiles, projectDoc.data().mainFileId || null, fileId);
+    if (!mainFile) {
+      return NextResponse.json({
+        success: false,
+        error: 'No main document found to flatten'
+      }, { status: 400 });
+    }
+
+    const projectPaths = buildProjectPaths(projectFiles);
+    const sources = new Map(
+      projectFiles
+        .filter(file => file.type !== 'folder' && !isBinaryProjectFile(file))
+        .map(file => [projectPaths.get(file.id) || getFileName(file), file.content || ''])
+    );
+    const mainPath = projectPaths.get(mainFile.id) || getFileName(mainFile);
+
+    const result = flattenLatex(mainPath, path => sources.get(path) ?? null, {
+      stripComments: stripComments === true,
+      bbl: typeof bbl === 'string' ? { path: mainPath.replace(/\.[^./]+$/, '') + '.bbl', content: bbl } : null
+    });
+    return NextResponse.json({ success: true, mainFile: mainPath, ...result });
+  } catch (error) {
+    console.error('Error flattening project:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+// app/api/submission/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDoc, doc, collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ProjectFileRecord, ProjectTreeEntry, buildProjectPaths, resolveMainFile } from '@/utils/projectFileUtils';
+import { DEFAULT_LATEX_ENGINE, LatexEngine, isLatexEngine, normalizeShellEscapeCommands } from '@/services/latexService';
+import type { CompileDiagnostics } from '@/services/latexService';
+import { archiveFileName, collectProjectTree, createTreeArchive } from '@/services/projectArchiveService';
+import { RenderServerResponse, renderOnServer } from '@/services/renderServerService';
+import { buildSubmissionBundle } from '@/utils/submissionBundle';
+import { traceFlattenedLine } from '@/utils/latexFlatten';
+
+/**
+ * Prepare a submission bundle: the main document flattened without comments, the .bbl from
+ * compiling the project, and only the graphics it uses. The bundle is then compiled on its
+ * own, in a fresh directory, to check that nothing it needs was left out.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { latex, projectId, fileId, inlineBbl = false } = await request.json();
+
+    if (!projectId) {
+      return NextResponse.json({
+        success: false,
+        error: 'A project ID is required'
+      }, { status: 400 });
+    }
+
+    const projectDoc = await getDoc(doc(db, "projects", projectId));
+    if (!projectDoc.exists()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Project not found'
+      }, { status: 404 });
+    }
+    const projectData = projectDoc.data();
+
+    const filesQuery = query(
+      collection(db, "projectFiles"),
+      where("projectId", "==", projectId)
+    );
+    const querySnapshot = await getDocs(filesQuery);
+    let projectFiles = querySnapshot.docs
+      .map(fileDoc => ({ id: fileDoc.id, ...fileDoc.data() } as ProjectFileRecord))
+      .filter(file => file.deleted !== true);
+
+    // The editor's buffer may be ahead of Firestore
+    if (fileId && typeof latex === 'string') {
+      projectFiles = projectFiles.map(file =>
+        file.id === fileId ? { ...file, content: latex } : file
+      );
+    }
+
+    const mainFile = resolveMainFile(projectFiles, projectData.mainFileId || null, fileId);
+    if (!mainFile) {
+      return NextResponse.json({
+        success: false,
+        error: 'No main document found to submit'
+      }, { status: 400 });
+    }
+
+    const projectPaths = buildProjectPaths(projectFiles);
+    const mainFilePath = projectPaths.get(mainFile.id) || 'main.tex';
+    const engine: LatexEngine = isLatexEngine(projectData.engine) ? projectData.engine : DEFAULT_LATEX_ENGINE;
+    const shellEscapeCommands = normalizeShellEscapeCommands(projectData.shellEscapeCommands);
+    const entries = await collectProjectTree(projectFiles, projectPaths);
+
+    // The project's own build, in its warm workspace, supplies the .bbl
+    const projectBuild = await compileTree(entries, mainFilePath, engine, shellEscapeCommands, projectId);
+    if (!projectBuild.success) {
+      return NextResponse.json({
+        success: false,
+        error: 'The project does not compile; fix its errors before preparing a submission',
+        errors: projectBuild.errors.map(formatBuildError)
+      }, { status: 422 });
+    }
+
+    const bundle = buildSubmissionBundle(entries, mainFilePath, { bbl: projectBuild.bbl, inlineBbl: inlineBbl === true });
+    console.log(`Submission bundle for ${projectId}: ${bundle.files.length} files, ${bundle.report.removed.length} removed`);
+
+    // No projectId, so the render server builds it in an empty directory
+    const check = await compileTree(bundle.files, mainFilePath, engine, shellEscapeCommands, null);
+    // Errors in the flattened main document are reported where that line came from
+    const checkErrors = check.errors.map(error => {
+      const origin = error.file === mainFilePath && error.line ? traceFlattenedLine(bundle, error.line) : null;
+      return formatBuildError(origin ? { ...error, ...origin } : error);
+    });
+
+    const zipData = await createTreeArchive(bundle.files).generateAsync({ type: 'base64', compression: 'DEFLATE' });
+    return NextResponse.json({
+      success: true,
+      fileName: archiveFileName(`${projectData.title || 'project'}-submission`),
+      zipData,
+      files: bundle.files.map(file => file.path),
+      report: bundle.report,
+      check: { success: check.success, errors: checkErrors }
+    });
+  } catch (error) {
+    console.error('Error preparing submission:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+interface BuildError {
+  file: string | null;
+  line: number | null;
+  message: string;
+}
+
+const formatBuildError = ({ file, line, message }: BuildError): string =>
+  `${file ? `${file}${line ? `:${line}` : ''} ` : ''}${message}`;
+
+// Build a tree on the render server
+async function compileTree(
+  files: ProjectTreeEntry[],
+  mainFile: string,
+  engine: LatexEngine,
+  shellEscapeCommands: string[],
+  projectId: string | null
+): Promise<{ success: boolean; errors: BuildError[]; bbl: string | null }> {
+  let response: { ok: boolean; body: RenderServerResponse | null };
+  try {
+    response = await renderOnServer({
+      files: files.map(({ path, content, data }) => ({ path, content, data })),
+      mainFile,
+      format: 'pdf',
+      engine,
+      shellEscapeCommands,
+      projectId
+    });
+  } catch (error) {
+    console.error('Error communicating with LaTeX server:', error);
+    return { success: false, errors: [{ file: null, line: null, message: 'The render server could not be reached' }], bbl: null };
+  }
+
+  const diagnostics = response.body?.diagnostics as CompileDiagnostics | undefined;
+  const errors: BuildError[] = (diagnostics?.errors || []).map(({ file, line, message }) => ({ file, line, message }));
+  const success = response.ok && !!response.body?.data;
+  if (!success && errors.length === 0) {
+    errors.push({ file: null, line: null, message: response.body?.error || 'The build produced no PDF' });
+  }
+  return { success, errors, bbl: response.body?.bbl || null };
+}
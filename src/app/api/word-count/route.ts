@@ -0,0 +1,87 @@
+// app/api/word-count/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDoc, doc, collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  ProjectFileRecord,
+  buildProjectPaths,
+  getFileName,
+  isBinaryProjectFile,
+  isTexFile,
+  resolveMainFile
+} from '@/utils/projectFileUtils';
+import { analyzeLatexWords, analyzeProjectWords, totalWords } from '@/utils/wordCount';
+
+/**
+ * Word count and document statistics. Send `projectId` to count the project's main document
+ * with everything it includes (`latex` with `fileId` replaces that file's saved content),
+ * or just `latex` to count a single document.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { latex, projectId, fileId } = await request.json();
+
+    if (typeof latex !== 'string' && !projectId) {
+      return NextResponse.json({
+        success: false,
+        error: 'LaTeX content or a project ID is required'
+      }, { status: 400 });
+    }
+
+    if (!projectId) {
+      const file = analyzeLatexWords(latex, 'main.tex');
+      return NextResponse.json({
+        success: true,
+        words: totalWords(file.counts),
+        counts: file.counts,
+        files: [file]
+      });
+    }
+
+    const projectDoc = await getDoc(doc(db, "projects", projectId));
+    if (!projectDoc.exists()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Project not found'
+      }, { status: 404 });
+    }
+
+    const filesQuery = query(
+      collection(db, "projectFiles"),
+      where("projectId", "==", projectId)
+    );
+    const querySnapshot = await getDocs(filesQuery);
+    let projectFiles = querySnapshot.docs
+      .map(fileDoc => ({ id: fileDoc.id, ...fileDoc.data() } as ProjectFileRecord))
+      .filter(file => file.deleted !== true);
+
+    // The editor's buffer may be ahead of Firestore
+    if (fileId && typeof latex === 'string') {
+      projectFiles = projectFiles.map(file =>
+        file.id === fileId ? { ...file, content: latex } : file
+      );
+    }
+
+    const mainFile = resolveMainFile(projectFiles, projectDoc.data().mainFileId || null, fileId);
+    if (!mainFile) {
+      return NextResponse.json({
+        success: false,
+        error: 'No main document found to count'
+      }, { status: 400 });
+    }
+
+    const projectPaths = buildProjectPaths(projectFiles);
+    const sources = projectFiles
+      .filter(file => file.type !== 'folder' && isTexFile(getFileName(file)) && !isBinaryProjectFile(file))
+      .map(file => ({ path: projectPaths.get(file.id) || getFileName(file), content: file.content || '' }));
+
+    const statistics = analyzeProjectWords(sources, projectPaths.get(mainFile.id) || getFileName(mainFile));
+    return NextResponse.json({ success: true, ...statistics });
+  } catch (error) {
+    console.error('Error counting words:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
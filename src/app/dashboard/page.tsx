@@ -50,8 +50,10 @@ import {
   TrendingUp,
   Menu,
   X,
-  ArchiveRestore // Added for potential Unarchive action
+  ArchiveRestore, // Added for potential Unarchive action
+  FileArchive
 } from "lucide-react";
+import { ProjectImportProgress, importProjectArchive } from "@/services/projectImportService";
 
 // Type for Project (ensure consistency with useProjects hook if possible)
 interface Project {
@@ -172,13 +174,56 @@ const NewProjectModal = ({ isOpen, onClose, userId }) => {
   const [title, setTitle] = useState("");
   const [template, setTemplate] = useState("blank");
   const [isCreating, setIsCreating] = useState(false);
+  // ZIP import, e.g. an Overleaf download
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
+  const [importProgress, setImportProgress] = useState<ProjectImportProgress | null>(null);
+  const [importError, setImportError] = useState("");
+  const archiveInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
   if (!isOpen) return null;
 
+  const handleArchiveSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setArchiveFile(file);
+    setTemplate("zip");
+    setImportError("");
+    if (!title.trim()) {
+      setTitle(file.name.replace(/\.zip$/i, ""));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archiveFile) return;
+    setIsCreating(true);
+    setImportError("");
+    try {
+      const result = await importProjectArchive(archiveFile, {
+        title: title.trim(),
+        userId,
+        onProgress: setImportProgress
+      });
+      if (result.failed.length > 0) {
+        console.warn(`Imported project ${result.projectId} without: ${result.failed.join(", ")}`);
+      }
+      onClose();
+      router.push(`/editor/${result.projectId}`);
+    } catch (error) {
+      console.error("Error importing project:", error);
+      setImportError(error instanceof Error ? error.message : "Failed to import the archive");
+      setImportProgress(null);
+      setIsCreating(false);
+    }
+  };
+
   const handleSubmit = async (e) => {
     e.preventDefault();
     if (!title.trim()) return;
+    if (template === "zip") {
+      await handleImport();
+      return;
+    }
 
     setIsCreating(true);
 
@@ -396,9 +441,56 @@ Hello, world!
                 </div>
                 <div className="text-xs text-gray-700 ml-7">Presentation</div>
               </button>
+
+              {/* ZIP import */}
+              <button
+                type="button"
+                onClick={() => archiveInputRef.current?.click()}
+                disabled={isCreating}
+                className={`col-span-2 p-3 border rounded-lg text-left transition-colors ${template === "zip"
+                  ? "border-blue-500 bg-blue-50 text-gray-900 ring-1 ring-blue-500"
+                  : "border-gray-300 hover:border-blue-300 hover:bg-blue-50/30 text-gray-900"
+                  } ${isCreating ? 'cursor-not-allowed opacity-70' : ''}`}
+              >
+                <div className="flex items-center mb-1">
+                  <FileArchive className="h-5 w-5 text-gray-800 mr-2" />
+                  <div className="font-medium">Import ZIP</div>
+                </div>
+                <div className="text-xs text-gray-700 ml-7 truncate">
+                  {archiveFile ? archiveFile.name : "Upload a project archive, e.g. an Overleaf download"}
+                </div>
+              </button>
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                ref={archiveInputRef}
+                onChange={handleArchiveSelect}
+                className="hidden"
+              />
             </div>
           </div>
 
+          {importProgress && (
+            <div className="mb-4 text-xs text-gray-600">
+              <div className="flex justify-between mb-1">
+                <span className="truncate">{importProgress.path || "Finishing..."}</span>
+                <span>{importProgress.done} / {importProgress.total}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1.5">
+                <div
+                  className="h-1.5 rounded-full bg-blue-500"
+                  style={{ width: `${importProgress.total ? (importProgress.done / importProgress.total) * 100 : 0}%` }}
+                ></div>
+              </div>
+            </div>
+          )}
+
+          {importError && (
+            <div className="mb-4 text-sm text-red-600">
+              {importError}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 mt-6">
             <button
               type="button"
@@ -410,8 +502,8 @@ Hello, world!
             </button>
             <button
               type="submit"
-              disabled={!title.trim() || isCreating}
-              className={`px-4 py-2 text-sm text-white rounded-lg flex items-center justify-center transition-colors ${!title.trim() || isCreating
+              disabled={!title.trim() || isCreating || (template === "zip" && !archiveFile)}
+              className={`px-4 py-2 text-sm text-white rounded-lg flex items-center justify-center transition-colors ${!title.trim() || isCreating || (template === "zip" && !archiveFile)
                 ? "bg-blue-400 cursor-not-allowed"
                 : "bg-blue-600 hover:bg-blue-700"
                 }`}
@@ -419,10 +511,10 @@ Hello, world!
               {isCreating ? (
                 <>
                   <Loader className="w-4 h-4 mr-2 animate-spin" />
-                  Creating...
+                  {template === "zip" ? "Importing..." : "Creating..."}
                 </>
               ) : (
-                "Create Project"
+                template === "zip" ? "Import Project" : "Create Project"
               )}
             </button>
           </div>
@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Columns, Download, Eye, Loader, RefreshCw, Trash2, X } from 'lucide-react';
+import {
+  CompileArtifact,
+  deleteCompileArtifact,
+  listCompileArtifacts,
+  loadCompileArtifactPdf
+} from '@/services/compileHistoryService';
+
+interface CompileHistoryPanelProps {
+  projectId: string;
+  // Changes whenever a compile is stored, so the list reloads
+  refreshKey: number;
+  // Hash of the current sources, to mark entries built from them
+  currentSourceHash?: string | null;
+  onOpen: (pdfData: string, artifact: CompileArtifact) => void;
+  // One stored compile is compared with the current output, two with each other (older first)
+  onCompare: (compiles: { pdfData: string; artifact: CompileArtifact }[]) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatTime = (date: Date | null): string =>
+  date ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' }) : 'Just now';
+
+const CompileHistoryPanel: React.FC<CompileHistoryPanelProps> = ({
+  projectId,
+  refreshKey,
+  currentSourceHash,
+  onOpen,
+  onCompare,
+  onClose
+}) => {
+  const [artifacts, setArtifacts] = useState<CompileArtifact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Entry whose PDF is being fetched, and for what
+  const [busy, setBusy] = useState<{ id: string; action: 'open' | 'compare' | 'download' | 'delete' } | null>(null);
+  // Entries ticked for comparing with each other
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isComparingSelected, setIsComparingSelected] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setArtifacts(await listCompileArtifacts(projectId));
+    } catch (err) {
+      console.error('Error loading compile history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load compile history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  const runAction = async (artifact: CompileArtifact, action: 'open' | 'compare' | 'download' | 'delete') => {
+    if (busy) return;
+    setBusy({ id: artifact.id, action });
+    setError(null);
+    try {
+      if (action === 'delete') {
+        await deleteCompileArtifact(artifact);
+        setArtifacts(current => current.filter(entry => entry.id !== artifact.id));
+        setSelectedIds(current => current.filter(id => id !== artifact.id));
+        return;
+      }
+      const pdfData = await loadCompileArtifactPdf(artifact);
+      if (action === 'open') {
+        onOpen(pdfData, artifact);
+      } else if (action === 'compare') {
+        onCompare([{ pdfData, artifact }]);
+      } else {
+        const link = document.createElement('a');
+        link.href = pdfData;
+        link.download = `${(artifact.fileName || 'document').replace(/\.tex$/i, '')}-${artifact.sourceHash.slice(0, 8)}.pdf`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+      }
+    } catch (err) {
+      console.error(`Error running ${action} on compile ${artifact.id}:`, err);
+      setError(err instanceof Error ? err.message : `Failed to ${action} the stored PDF`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleSelected = (artifact: CompileArtifact) => {
+    setSelectedIds(current =>
+      current.includes(artifact.id)
+        ? current.filter(id => id !== artifact.id)
+        // Ticking a third entry replaces the oldest pick
+        : [...current, artifact.id].slice(-2)
+    );
+  };
+
+  const compareSelected = async () => {
+    const selected = artifacts
+      .filter(artifact => selectedIds.includes(artifact.id))
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+    if (selected.length !== 2 || isComparingSelected) return;
+    setIsComparingSelected(true);
+    setError(null);
+    try {
+      const pdfs = await Promise.all(selected.map(loadCompileArtifactPdf));
+      onCompare(selected.map((artifact, index) => ({ pdfData: pdfs[index], artifact })));
+    } catch (err) {
+      console.error('Error loading compiles to compare:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the stored PDFs');
+    } finally {
+      setIsComparingSelected(false);
+    }
+  };
+
+  const actionButton = (artifact: CompileArtifact, action: 'open' | 'compare' | 'download' | 'delete', icon: React.ReactNode, title: string) => (
+    <button
+      onClick={() => runAction(artifact, action)}
+      disabled={!!busy}
+      className="p-1 text-gray-400 hover:text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+      title={title}
+    >
+      {busy?.id === artifact.id && busy.action === action ? <Loader className="h-3.5 w-3.5 animate-spin" /> : icon}
+    </button>
+  );
+
+  return (
+    <div className="h-48 flex flex-col bg-white border-t border-gray-200 flex-shrink-0">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-3 text-xs text-gray-600">
+          <span className="font-medium text-gray-700">COMPILE HISTORY</span>
+          {isLoading && <Loader className="h-3.5 w-3.5 text-blue-500 animate-spin" />}
+          {error && <span className="text-red-600">{error}</span>}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={compareSelected}
+            disabled={selectedIds.length !== 2 || isComparingSelected}
+            className="flex items-center px-2 py-0.5 mr-1 text-xs text-gray-600 rounded hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-transparent"
+            title="Tick two compiles to compare them"
+          >
+            {isComparingSelected ? <Loader className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Columns className="h-3.5 w-3.5 mr-1" />}
+            Compare selected
+          </button>
+          <button
+            onClick={loadHistory}
+            className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+            title="Reload History"
+          >
+            <RefreshCw className="h-3.5 w-3.5" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+            title="Close History"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300">
+        {!isLoading && artifacts.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-gray-500">Successful compiles will be kept here.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody>
+              {artifacts.map(artifact => (
+                <tr key={artifact.id} className="hover:bg-gray-100 border-b border-gray-100">
+                  <td className="pl-3 py-1 w-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(artifact.id)}
+                      onChange={() => toggleSelected(artifact)}
+                      className="h-3 w-3 align-middle"
+                      title="Select for comparison"
+                    />
+                  </td>
+                  <td className="px-2 py-1 text-gray-800 whitespace-nowrap">{formatTime(artifact.createdAt)}</td>
+                  <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{artifact.fileName || ''}</td>
+                  <td className="px-2 py-1 text-gray-500 whitespace-nowrap">{artifact.engine || 'default engine'}</td>
+                  <td className="px-2 py-1 text-gray-500 whitespace-nowrap">
+                    {artifact.pageCount} {artifact.pageCount === 1 ? 'page' : 'pages'}, {formatSize(artifact.size)}
+                  </td>
+                  <td className="px-2 py-1 whitespace-nowrap" title={artifact.logSummary.firstWarning}>
+                    <span className={artifact.logSummary.warnings ? 'text-amber-600' : 'text-gray-500'}>
+                      {artifact.logSummary.warnings} warnings
+                    </span>
+                    {artifact.logSummary.badBoxes > 0 && (
+                      <span className="text-gray-500">, {artifact.logSummary.badBoxes} bad boxes</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1 font-mono text-gray-400 whitespace-nowrap" title={`Sources SHA-256 ${artifact.sourceHash}`}>
+                    {artifact.sourceHash.slice(0, 8)}
+                    {currentSourceHash && artifact.sourceHash === currentSourceHash && (
+                      <span className="ml-1 font-sans text-green-600">current</span>
+                    )}
+                    {artifact.location === 'local' && (
+                      <span className="ml-1 font-sans text-gray-400" title="Stored in this browser only">local</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-1">
+                    <div className="flex items-center justify-end space-x-0.5">
+                      {actionButton(artifact, 'open', <Eye className="h-3.5 w-3.5" />, 'Open in Preview')}
+                      {actionButton(artifact, 'compare', <Columns className="h-3.5 w-3.5" />, 'Compare with Current Output')}
+                      {actionButton(artifact, 'download', <Download className="h-3.5 w-3.5" />, 'Download PDF')}
+                      {actionButton(artifact, 'delete', <Trash2 className="h-3.5 w-3.5" />, 'Delete from History')}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompileHistoryPanel;
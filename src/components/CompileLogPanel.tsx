@@ -0,0 +1,85 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Loader, X } from 'lucide-react';
+import type { CompileStage } from '@/services/latexService';
+import { describeCompileStage } from '@/utils/compileProgress';
+
+interface CompileLogPanelProps {
+  stages: CompileStage[];
+  log: string;
+  isCompiling: boolean;
+  onClose: () => void;
+}
+
+const CompileLogPanel: React.FC<CompileLogPanelProps> = ({ stages, log, isCompiling, onClose }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [followOutput, setFollowOutput] = useState(true);
+  const logRef = useRef<HTMLPreElement>(null);
+  const currentStage = stages[stages.length - 1];
+
+  // Keep the newest output in view unless the user scrolled up to read
+  useEffect(() => {
+    const element = logRef.current;
+    if (element && followOutput) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [log, followOutput, isCollapsed]);
+
+  const handleScroll = () => {
+    const element = logRef.current;
+    if (!element) return;
+    setFollowOutput(element.scrollHeight - element.scrollTop - element.clientHeight < 24);
+  };
+
+  return (
+    <div className={`${isCollapsed ? '' : 'h-48'} flex flex-col bg-white border-t border-gray-200 flex-shrink-0`}>
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-200 bg-gray-50">
+        <button
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center space-x-2 text-xs text-gray-600 hover:text-gray-800"
+          title={isCollapsed ? "Expand Log" : "Collapse Log"}
+        >
+          {isCollapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+          <span className="font-medium text-gray-700">COMPILE LOG</span>
+          {isCompiling && <Loader className="h-3.5 w-3.5 text-blue-500 animate-spin" />}
+          {currentStage && <span>{describeCompileStage(currentStage)}</span>}
+        </button>
+        <button
+          onClick={onClose}
+          className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+          title="Close Log"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {!isCollapsed && (
+        <div className="flex-1 flex min-h-0">
+          <ol className="w-48 flex-shrink-0 border-r border-gray-200 overflow-y-auto px-3 py-1 text-xs text-gray-600">
+            {stages.length === 0 ? (
+              <li className="text-gray-400">No compile yet</li>
+            ) : (
+              stages.map((stage, index) => (
+                <li
+                  key={index}
+                  className={index === stages.length - 1 && isCompiling ? 'text-blue-600 font-medium' : ''}
+                >
+                  {describeCompileStage(stage)}
+                </li>
+              ))
+            )}
+          </ol>
+          <pre
+            ref={logRef}
+            onScroll={handleScroll}
+            className="flex-1 overflow-auto px-3 py-1 text-[11px] leading-4 font-mono text-gray-700 whitespace-pre-wrap break-all scrollbar-thin scrollbar-thumb-gray-300"
+          >
+            {log || (isCompiling ? 'Waiting for output...' : 'The log of the next compile will appear here.')}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompileLogPanel;
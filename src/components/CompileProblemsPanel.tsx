@@ -0,0 +1,94 @@
+"use client";
+
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, Info, Wrench, X } from 'lucide-react';
+import type { CompileDiagnostic, CompileDiagnostics } from '@/services/latexService';
+import { describeCompileFix, flattenDiagnostics } from '@/utils/compileDiagnostics';
+
+interface CompileProblemsPanelProps {
+  diagnostics: CompileDiagnostics;
+  onSelect: (diagnostic: CompileDiagnostic) => void;
+  onFix: (diagnostic: CompileDiagnostic) => void;
+  onClose: () => void;
+}
+
+const severityIcon = (severity: CompileDiagnostic['severity']) => {
+  switch (severity) {
+    case 'error':
+      return <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />;
+    case 'warning':
+      return <AlertTriangle className="h-4 w-4 text-amber-500 flex-shrink-0" />;
+    default:
+      return <Info className="h-4 w-4 text-blue-500 flex-shrink-0" />;
+  }
+};
+
+const CompileProblemsPanel: React.FC<CompileProblemsPanelProps> = ({ diagnostics, onSelect, onFix, onClose }) => {
+  const [showInfo, setShowInfo] = useState(false);
+  const entries = flattenDiagnostics(diagnostics, showInfo);
+
+  return (
+    <div className="h-40 flex flex-col bg-white border-t border-gray-200 flex-shrink-0">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center space-x-3 text-xs text-gray-600">
+          <span className="font-medium text-gray-700">PROBLEMS</span>
+          <span className="flex items-center"><AlertCircle className="h-3.5 w-3.5 mr-1 text-red-500" />{diagnostics.errors.length}</span>
+          <span className="flex items-center"><AlertTriangle className="h-3.5 w-3.5 mr-1 text-amber-500" />{diagnostics.warnings.length}</span>
+          <label className="flex items-center cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={showInfo}
+              onChange={(e) => setShowInfo(e.target.checked)}
+              className="mr-1 h-3 w-3"
+            />
+            Show info ({diagnostics.info.length})
+          </label>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-0.5 text-gray-400 hover:text-gray-600 rounded"
+          title="Close Problems"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300">
+        {entries.length === 0 ? (
+          <p className="px-3 py-2 text-xs text-gray-500">No problems reported by the last compile.</p>
+        ) : (
+          <ul>
+            {entries.map((diagnostic, index) => (
+              <li key={`${diagnostic.severity}-${index}`} className="flex items-start hover:bg-gray-100">
+                <button
+                  onClick={() => onSelect(diagnostic)}
+                  className="flex-1 min-w-0 text-left px-3 py-1 flex items-start space-x-2 text-xs"
+                  title={diagnostic.context || diagnostic.message}
+                >
+                  {severityIcon(diagnostic.severity)}
+                  <span className="flex-1 text-gray-800 break-words">{diagnostic.message}</span>
+                  {diagnostic.file && (
+                    <span className="text-gray-500 font-mono whitespace-nowrap">
+                      {diagnostic.file}{diagnostic.line ? `:${diagnostic.line}` : ''}
+                    </span>
+                  )}
+                </button>
+                {/* One-click fix for errors caused by a missing package */}
+                {diagnostic.fix && (
+                  <button
+                    onClick={() => onFix(diagnostic)}
+                    className="my-0.5 mr-2 px-2 py-0.5 flex items-center text-xs text-blue-700 bg-blue-50 border border-blue-200 rounded hover:bg-blue-100 whitespace-nowrap"
+                  >
+                    <Wrench className="h-3 w-3 mr-1" />
+                    {describeCompileFix(diagnostic.fix)}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompileProblemsPanel;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo, useDeferredValue } from "react";
 import dynamic from "next/dynamic";
 import CodeMirror, { ReactCodeMirrorRef } from '@uiw/react-codemirror'; // Import ReactCodeMirrorRef
 import { doc, getDoc, updateDoc, serverTimestamp, collection, addDoc, getDocs, query, where, orderBy, deleteDoc } from "firebase/firestore";
@@ -13,9 +13,10 @@ import { basicSetup } from 'codemirror'
 import { keymap, EditorView } from '@codemirror/view'
 import { indentWithTab } from '@codemirror/commands'
 import { search } from '@codemirror/search';
-import { StreamLanguage } from '@codemirror/language'
+import { lintGutter, setDiagnostics } from '@codemirror/lint';
+import { syntaxHighlighting } from '@codemirror/language'
 import ProjectFileTree from './ProjectFileTree';
-import { stex } from '@codemirror/legacy-modes/mode/stex'
+import { latex, latexHighlightStyle } from '@/utils/latexLanguage'
 import { applyUnifiedDiffPatch } from '../utils/editorUtils';
 import { EditorState } from '@codemirror/state'; // Import EditorState if using onCreateEditor state
 import { applyMultipleUnifiedDiffPatches, applySearchReplaceBlocks, validateDiffHunks } from '../utils/editorUtils';
@@ -24,14 +25,39 @@ import {
   FileText, Folder, FolderOpen, RefreshCw, ChevronLeft, ChevronRight, ChevronDown,
   MoreVertical, FilePlus, FolderPlus, File, MessageSquare,
   X, Upload, FileUp, Trash, Plus, Edit2, Trash2, Copy,
-  Home
+  Home, Settings, LocateFixed, ScrollText, Wand2, History, FolderArchive, PackageCheck
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { ChatProvider, useChat } from '../context/ChatContext';
 import ChatPanel from './ChatWindow';
 import HeaderChatButton from './HeaderChatButton';
-import { compileLatex } from "@/services/latexService";
+import {
+  CompileOptions,
+  CompileStage,
+  cancelCompile,
+  compileLatex,
+  createCompileJobId,
+  isLatexEngine
+} from "@/services/latexService";
+import { appendCompileLog, describeCompileStage } from "@/utils/compileProgress";
 import SuggestionOverlay from './SuggestionOverlay';
+import ProjectSettingsModal from './ProjectSettingsModal';
+import SubmissionModal from './SubmissionModal';
+import CompileProblemsPanel from './CompileProblemsPanel';
+import CompileLogPanel from './CompileLogPanel';
+import CompileHistoryPanel from './CompileHistoryPanel';
+import PdfVisualDiff, { PdfVisualDiffSide } from './PdfVisualDiff';
+import WordCountButton from './WordCountButton';
+import type { CompileDiagnostic, CompileDiagnostics, CompileResult } from '@/services/latexService';
+import { EMPTY_DIAGNOSTICS, sourcePathMatches, revealLine, toEditorDiagnostics, flattenDiagnostics, addPackageToPreamble } from '@/utils/compileDiagnostics';
+import { buildProjectPaths, getFileName, isTexFile, resolveMainFile } from '@/utils/projectFileUtils';
+import { analyzeProjectWords } from '@/utils/wordCount';
+import { renderPageImage } from '@/utils/pdfjs';
+import { repairCompileErrors } from '@/services/compileRepairService';
+import { SuggestionVerification, verifySuggestion } from '@/services/suggestionVerificationService';
+import { CompileArtifact, saveCompileArtifact } from '@/services/compileHistoryService';
+import { applyPdfPostProcessing, postProcessingForTarget } from '@/services/pdfPostProcessingService';
+import { SynctexData, SynctexLocation, decodeSynctex, forwardSearch, inverseSearch } from '@/utils/synctex';
 
 // Import components
 import EnhancedSidebar from '../components/EnhancedSidebar';
@@ -39,11 +65,13 @@ import EditableProjectName from '../components/EditableProjectName';
 import PdfViewer from "../components/PdfViewer";
 
 const editorExtensions = [
-  StreamLanguage.define(stex),
+  latex(),
   basicSetup,
+  syntaxHighlighting(latexHighlightStyle),
   keymap.of([indentWithTab]),
   EditorView.lineWrapping,
   search({ top: false }), // Keep search enabled
+  lintGutter(), // Compile diagnostics from the render server
   EditorView.theme({
 
     // --- Existing Styles ---
@@ -60,9 +88,6 @@ const editorExtensions = [
     ".cm-operator": { color: "#57534e" },
     ".cm-number": { color: "#854d0e" },
     ".cm-variableName": { color: "#047857" },
-    ".cm-m-stex.cm-keyword": { color: "#1d4ed8", fontWeight: "bold" },
-    ".cm-m-stex.cm-tag": { color: "#be185d", fontWeight: "bold" },
-    ".cm-m-stex.cm-bracket": { color: "#374151", fontWeight: "bold" },
 
     // --- UPDATED: Search Panel Styles ---
     ".cm-search": {
@@ -260,6 +285,11 @@ const editorSetup = EditorView.theme({
   }
 });
 
+// How often a successful compile may refresh the project's dashboard thumbnail
+const THUMBNAIL_REFRESH_INTERVAL = 10 * 60 * 1000;
+// About 40 dpi for a letter or A4 page
+const THUMBNAIL_WIDTH = 340;
+
 // Determine if a file is an image
 const isImageFile = (filename: string): boolean => {
   if (!filename) return false;
@@ -294,12 +324,6 @@ const latexTheme = EditorView.theme({
   ".cm-tag": { color: "#f472b6", fontWeight: "bold" },
   ".cm-bracket": { color: "#e5e7eb", fontWeight: "bold" },
   ".cm-property": { color: "#60a5fa" },
-  ".cm-m-stex.cm-keyword": { color: "#f472b6", fontWeight: "bold" },
-  ".cm-m-stex.cm-builtin": { color: "#93c5fd", fontWeight: "bold" },
-  ".cm-m-stex.cm-tag": { color: "#f472b6", fontWeight: "bold" },
-  ".cm-m-stex.cm-bracket": { color: "#e5e7eb", fontWeight: "bold" },
-  ".cm-m-stex.cm-comment": { color: "#6b7280", fontStyle: "italic" },
-  ".cm-m-stex.cm-string": { color: "#fde68a" },
 });
 
 // Performance optimization styles to reduce repaints during resize
@@ -652,13 +676,29 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
   const [editedProjectName, setEditedProjectName] = useState("");
   const [isCompiling, setIsCompiling] = useState(false);
   const [compilationError, setCompilationError] = useState(null);
-  const [pdfData, setPdfData] = useState(null);
+  const [compileDiagnostics, setCompileDiagnostics] = useState<CompileDiagnostics>(EMPTY_DIAGNOSTICS);
+  const [isProblemsOpen, setIsProblemsOpen] = useState(false);
+  const [compileStages, setCompileStages] = useState<CompileStage[]>([]);
+  const [compileLog, setCompileLog] = useState("");
+  const [isLogOpen, setIsLogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Bumped when a compile is stored so the history panel reloads
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [lastCompileSourceHash, setLastCompileSourceHash] = useState<string | null>(null);
+  // Two compile outputs open in the visual diff
+  const [historyComparison, setHistoryComparison] = useState<{ before: PdfVisualDiffSide; after: PdfVisualDiffSide } | null>(null);
+  // Progress of a running "Fix with AI" repair, null when none is running
+  const [repairStatus, setRepairStatus] = useState<string | null>(null);
+  const [synctexData, setSynctexData] = useState<SynctexData | null>(null);
+  const [syncHighlight, setSyncHighlight] = useState<SynctexLocation | null>(null);
+  const [pdfData, setPdfData] = useState<string | null>(null);
   const [htmlPreview, setHtmlPreview] = useState(null);
   const [autoCompile, setAutoCompile] = useState(false);
-  const [compileTimeout, setCompileTimeout] = useState(null);
   const [currentFileId, setCurrentFileId] = useState(null);
   const [currentFileName, setCurrentFileName] = useState("");
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSubmissionOpen, setIsSubmissionOpen] = useState(false);
   const [contextMenu, setContextMenu] = useState(null);
   const [originalContentForDiff, setOriginalContentForDiff] = useState<string>('');
   const { activeSessionId } = useChat();
@@ -692,7 +732,7 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
   const [fileContextMenu, setFileContextMenu] = useState(null);
 
   // Determine if the current file is an image
-  const isImageView = currentFileName && isImageFile(currentFileName);
+  const isImageView = !!currentFileName && isImageFile(currentFileName);
 
   // State and refs for resizing
   const [sidebarWidth, setSidebarWidth] = useState(250);
@@ -713,6 +753,10 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
 
 
   const [originalContentForOverlayDiff, setOriginalContentForOverlayDiff] = useState<string>('');
+  // Compile check of the suggestion in the overlay, cleared whenever the suggestion changes
+  const [suggestionVerification, setSuggestionVerification] = useState<SuggestionVerification | null>(null);
+  const [isVerifyingSuggestion, setIsVerifyingSuggestion] = useState(false);
+  const verifyAbortRef = useRef<AbortController | null>(null);
   const editorRef = useRef<{ view?: EditorView } | null>(null); // Ensure this ref is correctly typed
   const [activeSession, setActiveSession] = useState<any>(null); // Assuming you get this from context or prop
 
@@ -1037,6 +1081,13 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
   const initialSidebarWidth = useRef(0);
   const saveButtonRef = useRef(null);
   const compileButtonRef = useRef(null);
+  const syncToPdfButtonRef = useRef<HTMLButtonElement>(null);
+  const pendingRevealLineRef = useRef<number | null>(null);
+  // The compile whose result the editor is waiting for; older ones are cancelled when a new one starts
+  const activeCompileRef = useRef<{ jobId: string; controller: AbortController } | null>(null);
+  const thumbnailUpdatedAtRef = useRef(0);
+  // Compiles the latest code; the autocompile timer calls it after typing stops
+  const autoCompileRef = useRef<() => void>(() => {});
   const contextMenuRef = useRef(null);
   const fileInputRef = useRef(null);
   const dragNode = useRef(null);
@@ -1109,6 +1160,12 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           compileButtonRef.current?.click();
         }
       }
+
+      // Jump to PDF shortcut (Ctrl+Alt+J)
+      if ((e.ctrlKey || e.metaKey) && e.altKey && e.code === 'KeyJ') {
+        e.preventDefault();
+        syncToPdfButtonRef.current?.click();
+      }
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -1121,22 +1178,12 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
   useEffect(() => {
     if (!autoCompile || isSaved || !currentFileId) return;
 
-    // Clear previous timeout
-    if (compileTimeout) {
-      clearTimeout(compileTimeout);
-    }
-
-    // Set a new timeout to compile after typing stops
+    // Compile after typing stops; every edit restarts the timer
     const timeout = setTimeout(() => {
-      handleCompile();
+      autoCompileRef.current();
     }, 2000); // 2 second delay
 
-    setCompileTimeout(timeout);
-
-    // Cleanup
-    return () => {
-      if (compileTimeout) clearTimeout(compileTimeout);
-    };
+    return () => clearTimeout(timeout);
   }, [code, autoCompile, isSaved, currentFileId]);
 
   // Process files for chat mentions
@@ -1430,7 +1477,18 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           }
         }
 
-        // Second priority: Find main.tex
+        // Second priority: the configured main document
+        if (projectData?.mainFileId) {
+          const configuredMain = filesList.find((f: { id: string }) => f.id === projectData.mainFileId);
+          if (configuredMain) {
+            setCurrentFileId(configuredMain.id);
+            setCurrentFileName(configuredMain._name_ || configuredMain.name || '');
+            setCode(configuredMain.content || '');
+            return;
+          }
+        }
+
+        // Third priority: Find main.tex
         const mainFile = filesList.find(f =>
           (f._name_ === 'main.tex' || f.name === 'main.tex') && f.type === 'file'
         );
@@ -1441,7 +1499,7 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           return;
         }
 
-        // Third priority: Find any .tex file
+        // Fourth priority: Find any .tex file
         const anyTexFile = filesList.find(f =>
           ((f._name_?.toLowerCase() || f.name?.toLowerCase() || '').endsWith('.tex')) &&
           f.type === 'file'
@@ -1981,7 +2039,9 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           file.type === 'text/plain' ||
           file.name.endsWith('.tex') ||
           file.name.endsWith('.bib') ||
-          file.name.endsWith('.cls')
+          file.name.endsWith('.cls') ||
+          file.name.endsWith('.sty') ||
+          file.name.endsWith('.bst')
         ) {
           const content = await readFileAsText(file);
 
@@ -2801,25 +2861,366 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
     }
   };
 
-  // Compile LaTeX
-  const handleCompile = async () => {
-    if (isCompiling) return;
+  // Project-relative path of the open file, used to match compile diagnostics
+  const currentFilePath = currentFileId ? buildProjectPaths(files).get(currentFileId) || currentFileName : null;
 
-    // If no file is selected, can't compile
-    if (!currentFileId) {
-      showNotification("Please select a file to compile", "error");
+  // Show compile diagnostics for the open file in the editor gutter
+  useEffect(() => {
+    const view = editorRef.current?.view;
+    if (!isEditorReady || !view) return;
+
+    const timer = setTimeout(() => {
+      const entries = flattenDiagnostics(compileDiagnostics);
+      view.dispatch(setDiagnostics(view.state, toEditorDiagnostics(entries, currentFilePath, view.state.doc)));
+
+      // Finish a jump that had to wait for another file to load
+      if (pendingRevealLineRef.current !== null) {
+        revealLine(view, pendingRevealLineRef.current);
+        pendingRevealLineRef.current = null;
+      }
+    }, 0);
+
+    return () => clearTimeout(timer);
+  }, [compileDiagnostics, currentFilePath, isEditorReady, viewMode]);
+
+  // Open a project file (if it isn't already) and move the cursor to a line in it
+  const revealSourceLocation = (filePath: string | null, line: number | null) => {
+    if (sourcePathMatches(filePath, currentFilePath)) {
+      const view = editorRef.current?.view;
+      if (view && line) revealLine(view, line);
+      return;
+    }
+
+    const projectPaths = buildProjectPaths(files);
+    const target = files.find(f => f.type === 'file' && sourcePathMatches(filePath, projectPaths.get(f.id)));
+    if (!target) {
+      showNotification(`${filePath || 'This file'} is not part of the project`, "info");
+      return;
+    }
+
+    pendingRevealLineRef.current = line;
+    handleFileSelect(target.id);
+  };
+
+  // Jump from the problems panel to the file and line a diagnostic points at
+  const handleDiagnosticSelect = (diagnostic: CompileDiagnostic) => {
+    revealSourceLocation(diagnostic.file, diagnostic.line);
+  };
+
+  // Forward search: highlight the PDF output of the line under the cursor
+  const handleSyncToPdf = () => {
+    const view = editorRef.current?.view;
+    if (!view || !currentFilePath) return;
+    if (!synctexData) {
+      showNotification("Compile the document to enable jumping to the PDF", "info");
+      return;
+    }
+
+    const cursorLine = view.state.doc.lineAt(view.state.selection.main.head).number;
+    const location = forwardSearch(synctexData, currentFilePath, cursorLine);
+    if (!location) {
+      showNotification("This line has no position in the PDF", "info");
+      return;
+    }
+
+    if (viewMode === "code") {
+      setViewMode("split");
+    }
+    setSyncHighlight({ ...location });
+  };
+
+  // Inverse search: open the source behind a double-clicked PDF position
+  const handleSyncToSource = (page: number, x: number, y: number) => {
+    if (!synctexData) return;
+    const location = inverseSearch(synctexData, page, x, y);
+    if (!location) {
+      showNotification("No source found for this position", "info");
+      return;
+    }
+
+    revealSourceLocation(location.file, location.line);
+  };
+
+  // A project with a main document compiles from any file, otherwise the open file must be .tex
+  const mainDocument = projectData?.mainFileId ? files.find(f => f.id === projectData.mainFileId) : null;
+
+  // Word count of the document being compiled, with the open file's unsaved edits
+  const deferredCode = useDeferredValue(code);
+  const wordCount = useMemo(() => {
+    const countedMain = resolveMainFile(files, projectData?.mainFileId, currentFileId);
+    if (!countedMain) return null;
+    const projectPaths = buildProjectPaths(files);
+    const sources = files
+      .filter(file => file.type === 'file' && isTexFile(getFileName(file)))
+      .map(file => ({
+        path: projectPaths.get(file.id) || getFileName(file),
+        content: file.id === currentFileId ? deferredCode : file.content || ''
+      }));
+    return analyzeProjectWords(sources, projectPaths.get(countedMain.id) || getFileName(countedMain));
+  }, [files, deferredCode, currentFileId, projectData?.mainFileId]);
+  const canCompile = !!mainDocument || (!!currentFileId && !!currentFileName?.toLowerCase().endsWith('.tex'));
+
+  // Apply a diagnostic's fix: load the missing package in the main document, or ask for the missing file
+  const handleDiagnosticFix = async (diagnostic: CompileDiagnostic) => {
+    const fix = diagnostic.fix;
+    if (!fix) return;
+
+    if (fix.action === 'upload-file') {
+      showNotification(`Upload ${fix.fileName} to the project root`, "info");
+      setIsUploadModalOpen(true);
       return;
     }
 
-    // Check if the current file is a .tex file
-    if (!currentFileName.toLowerCase().endsWith('.tex')) {
-      showNotification("Only .tex files can be compiled", "error");
+    // Packages belong in the document that compiles, which is the open file without a main document
+    const target = mainDocument || files.find(f => f.id === currentFileId);
+    if (!target) return;
+    const isOpenFile = target.id === currentFileId;
+    const updated = addPackageToPreamble(isOpenFile ? code : target.content || '', fix.package);
+    if (updated === null) {
+      showNotification(`${fix.package} is already loaded in ${target.name}`, "info");
+      return;
+    }
+
+    try {
+      if (isOpenFile) {
+        setCode(updated);
+        setIsSaved(false);
+      } else {
+        await updateDoc(doc(db, "projectFiles", target.id), {
+          content: updated,
+          lastModified: serverTimestamp()
+        });
+        await refreshFiles();
+      }
+      showNotification(`Added \\usepackage{${fix.package}} to ${target.name}`);
+    } catch (error) {
+      console.error("Error adding package:", error);
+      showNotification(`Failed to add ${fix.package}`, "error");
+    }
+  };
+
+  // "Fix with AI": let the model repair the open file's compile errors, recompiling each attempt,
+  // and offer the final change in the suggestion overlay
+  const handleFixWithAI = async () => {
+    if (repairStatus || !currentFileId || !currentFilePath) return;
+    const errors: CompileDiagnostic[] = compileDiagnostics.errors.length
+      ? compileDiagnostics.errors
+      : [{ severity: 'error', type: 'error', message: compilationError || 'Compilation failed', file: null, line: null }];
+    const originalContent = code;
+
+    setRepairStatus("Asking AI for a fix...");
+    try {
+      const result = await repairCompileErrors(originalContent, errors, {
+        projectId,
+        fileId: currentFileId,
+        filePath: currentFilePath,
+        engine: isLatexEngine(projectData?.engine) ? projectData.engine : undefined,
+        maxAttempts: projectData?.repairAttempts,
+        onAttempt: (attempt) => {
+          const outcome = attempt.failure || (attempt.compiled ? "compiles" : "still failing");
+          setRepairStatus(`Attempt ${attempt.attempt}: ${outcome}`);
+        }
+      });
+
+      if (result.diffHunks.length === 0) {
+        showNotification(result.error || "AI could not find a fix", "error");
+        return;
+      }
+
+      const summary = result.attempts
+        .map(attempt => `Attempt ${attempt.attempt}: ${attempt.errors.length} error(s) -> ${attempt.failure || (attempt.compiled ? "compiles" : "still failing")}`)
+        .join("\n");
+      const outcome = result.success
+        ? "The document compiles with this change."
+        : `This change does not fix every error yet (${result.error}). Remaining:\n${result.remainingErrors.map(error => `- ${error.message}${error.line ? ` (line ${error.line})` : ""}`).join("\n")}`;
+
+      setOriginalContentForOverlayDiff(result.originalContent);
+      setModalSuggestion({
+        mode: 'diff',
+        diffHunks: result.diffHunks,
+        explanation: `Fix with AI for ${currentFilePath}\n\n${outcome}\n\n${summary}`,
+        originalContent: result.originalContent
+      });
+      originalMessagesForFallback.current = [];
+    } catch (error) {
+      console.error("Error repairing compile errors:", error);
+      showNotification(`Fix with AI failed: ${error instanceof Error ? error.message : "Unknown error"}`, "error");
+    } finally {
+      setRepairStatus(null);
+    }
+  };
+
+  useEffect(() => {
+    verifyAbortRef.current?.abort();
+    verifyAbortRef.current = null;
+    setSuggestionVerification(null);
+    setIsVerifyingSuggestion(false);
+  }, [modalSuggestion]);
+
+  // Apply the overlay's suggestion to a copy of the file and compile it, so the user can see
+  // whether it builds before accepting it
+  const handleVerifySuggestion = async () => {
+    if (!modalSuggestion || isVerifyingSuggestion) return;
+    const controller = new AbortController();
+    verifyAbortRef.current = controller;
+    setIsVerifyingSuggestion(true);
+    try {
+      const verification = await verifySuggestion(
+        originalContentForOverlayDiff,
+        modalSuggestion.mode === 'diff'
+          ? { diffHunks: modalSuggestion.diffHunks }
+          : { searchReplaceBlocks: modalSuggestion.searchReplaceBlocks },
+        compileDiagnostics.errors,
+        {
+          projectId,
+          fileId: currentFileId,
+          engine: isLatexEngine(projectData?.engine) ? projectData.engine : undefined,
+          signal: controller.signal
+        }
+      );
+      if (!controller.signal.aborted) setSuggestionVerification(verification);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Error verifying suggestion:", error);
+      setSuggestionVerification({
+        status: 'fails',
+        summary: `Compile check failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        newErrors: []
+      });
+    } finally {
+      if (verifyAbortRef.current === controller) {
+        verifyAbortRef.current = null;
+        setIsVerifyingSuggestion(false);
+      }
+    }
+  };
+
+  // Render the compiled PDF's first page as a small PNG for the dashboard's project card
+  const updateProjectThumbnail = async (pdfData: string) => {
+    const storedAt = projectData?.thumbnailUpdatedAt?.seconds ? projectData.thumbnailUpdatedAt.seconds * 1000 : 0;
+    if (Date.now() - Math.max(thumbnailUpdatedAtRef.current, storedAt) < THUMBNAIL_REFRESH_INTERVAL) return;
+    thumbnailUpdatedAtRef.current = Date.now();
+
+    try {
+      const thumbnail = await renderPageImage(pdfData, 1, THUMBNAIL_WIDTH);
+
+      await updateDoc(doc(db, "projects", projectId), {
+        thumbnail,
+        thumbnailUpdatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error("Error updating project thumbnail:", error);
+    }
+  };
+
+  // Keep a successful compile's PDF with the snapshot of the sources it was built from
+  const storeCompileArtifact = async (result: CompileResult, compileOptions: CompileOptions) => {
+    if (!result.pdfData) return;
+    const projectPaths = buildProjectPaths(files);
+    const sources = files
+      .filter(file => file.type === 'file')
+      .map(file => ({
+        path: projectPaths.get(file.id) || file.name,
+        content: file.id === currentFileId ? code : file.content || ''
+      }));
+
+    try {
+      const artifact = await saveCompileArtifact(projectId, result.pdfData, {
+        sources,
+        engine: compileOptions.engine,
+        fileName: currentFilePath || currentFileName || null,
+        diagnostics: result.diagnostics
+      });
+      setLastCompileSourceHash(artifact.sourceHash);
+      setHistoryRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error("Error storing compile in history:", error);
+    }
+  };
+
+  // Show a stored compile in the preview; its SyncTeX data is not kept, so sync is off until the next compile
+  const handleOpenHistoryArtifact = (storedPdf: string, artifact: CompileArtifact) => {
+    setPdfData(storedPdf);
+    setHtmlPreview(null);
+    setSynctexData(null);
+    setSyncHighlight(null);
+    setCompilationError(null);
+    if (viewMode === "code") {
+      setViewMode("split");
+    }
+    showNotification(`Showing the compile from ${artifact.createdAt ? artifact.createdAt.toLocaleString() : 'history'}`);
+  };
+
+  // One stored compile is compared with the current output, two with each other
+  const handleCompareHistoryArtifacts = (compiles: { pdfData: string; artifact: CompileArtifact }[]) => {
+    const side = ({ pdfData: storedPdf, artifact }: { pdfData: string; artifact: CompileArtifact }): PdfVisualDiffSide => ({
+      pdfData: storedPdf,
+      label: artifact.createdAt ? artifact.createdAt.toLocaleString() : 'Stored compile'
+    });
+    if (compiles.length >= 2) {
+      setHistoryComparison({ before: side(compiles[0]), after: side(compiles[1]) });
       return;
     }
+    if (!pdfData) {
+      showNotification("Compile the project to compare with its current output", "error");
+      return;
+    }
+    setHistoryComparison({ before: side(compiles[0]), after: { pdfData, label: "Current output" } });
+  };
+
+  // Run the compile target's post-processing steps; the compiled PDF is kept when they fail
+  const postProcessCompiledPdf = async (compiledPdf: string): Promise<{ pdfData: string; prependedPages: number }> => {
+    const steps = postProcessingForTarget(projectData?.pdfPostProcessing, mainDocument?.id || currentFileId);
+    if (!steps) return { pdfData: compiledPdf, prependedPages: 0 };
+
+    try {
+      const latex = !mainDocument || mainDocument.id === currentFileId ? code : mainDocument.content || '';
+      const processed = await applyPdfPostProcessing(compiledPdf, steps, { latex, files });
+      if (processed.missingFiles.length > 0) {
+        showNotification(`Could not merge ${processed.missingFiles.join(', ')}`, "error");
+      }
+      return processed;
+    } catch (error) {
+      console.error("Error post-processing PDF:", error);
+      showNotification("PDF post-processing failed; showing the compiled PDF", "error");
+      return { pdfData: compiledPdf, prependedPages: 0 };
+    }
+  };
+
+  // Compile LaTeX
+  // Autocompile builds are previewed but kept out of the compile history
+  const runCompile = async ({ automatic = false }: { automatic?: boolean } = {}) => {
+    // With a configured main document any open file can trigger a build
+    if (!mainDocument) {
+      // If no file is selected, can't compile
+      if (!currentFileId) {
+        showNotification("Please select a file to compile", "error");
+        return;
+      }
+
+      // Check if the current file is a .tex file
+      if (!currentFileName.toLowerCase().endsWith('.tex')) {
+        showNotification("Only .tex files can be compiled", "error");
+        return;
+      }
+    }
+
+    // A newer compile (usually from autocompile) replaces the one still running
+    const previousCompile = activeCompileRef.current;
+    if (previousCompile) {
+      previousCompile.controller.abort();
+      cancelCompile(previousCompile.jobId);
+    }
+    const jobId = createCompileJobId();
+    const controller = new AbortController();
+    activeCompileRef.current = { jobId, controller };
+    const isCurrentCompile = () => activeCompileRef.current?.jobId === jobId;
 
     setIsCompiling(true);
     setCompilationError(null);
     setHtmlPreview(null);
+    setCompileStages([]);
+    setCompileLog("");
 
     try {
       // Save current changes first
@@ -2827,14 +3228,52 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
         await handleSave();
       }
 
-      // Compile the document - pass projectId for image handling
-      const result = await compileLatex(code, projectId);
+      // Compile the project's main document; the open file's buffer overrides its saved copy
+      const compileOptions: CompileOptions = {
+        fileId: currentFileId && !isImageFile(currentFileName) ? currentFileId : null,
+        engine: isLatexEngine(projectData?.engine) ? projectData.engine : undefined
+      };
+      const result = await compileLatex(code, projectId, {
+        ...compileOptions,
+        jobId,
+        signal: controller.signal
+      }, {
+        // Progress from a superseded compile must not mix into the new one's log
+        onStage: (stage) => {
+          if (isCurrentCompile()) setCompileStages(stages => [...stages, stage]);
+        },
+        onLog: (text) => {
+          if (isCurrentCompile()) setCompileLog(log => appendCompileLog(log, text));
+        }
+      });
+
+      // A superseded compile's result is stale
+      if (result.cancelled || !isCurrentCompile()) return;
+
+      setCompileDiagnostics(result.diagnostics || EMPTY_DIAGNOSTICS);
+      if (result.diagnostics?.errors.length) {
+        setIsProblemsOpen(true);
+      }
 
       if (result.success) {
         if (result.pdfData) {
-          setPdfData(result.pdfData);
+          const output = await postProcessCompiledPdf(result.pdfData);
+          if (!isCurrentCompile()) return;
+
+          setPdfData(output.pdfData);
+          setSyncHighlight(null);
+          // Pages merged in front shift every page SyncTeX knows about
+          if (output.prependedPages > 0) {
+            setSynctexData(null);
+          } else {
+            decodeSynctex(result.synctex).then(setSynctexData);
+          }
           setHtmlPreview(result.htmlPreview || null);
           setCompilationError(null);
+          updateProjectThumbnail(output.pdfData);
+          if (!automatic) {
+            storeCompileArtifact({ ...result, pdfData: output.pdfData }, compileOptions);
+          }
 
           // Switch to PDF view if we're currently in code-only view
           if (viewMode === "code") {
@@ -2859,6 +3298,7 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
         showNotification("Compilation failed", "error");
       }
     } catch (error) {
+      if (!isCurrentCompile()) return;
       console.error("Error compiling LaTeX:", error);
       setCompilationError(
         error instanceof Error ? error.message : "Unknown compilation error"
@@ -2867,10 +3307,16 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
       setHtmlPreview(null);
       showNotification("Compilation failed", "error");
     } finally {
-      setIsCompiling(false);
+      if (isCurrentCompile()) {
+        activeCompileRef.current = null;
+        setIsCompiling(false);
+      }
     }
   };
 
+  const handleCompile = () => runCompile();
+  autoCompileRef.current = () => runCompile({ automatic: true });
+
   // Download PDF
   const handleDownloadPdf = () => {
     if (!pdfData) {
@@ -2888,6 +3334,26 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
     triggerPdfDownload();
   };
 
+  // Download the project sources as a ZIP, with the latest stored compile if there is one
+  const handleDownloadProject = async () => {
+    if (!isSaved) {
+      await handleSave();
+    }
+    const link = document.createElement('a');
+    link.href = `/api/export/${projectId}?pdf=true`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Build an arXiv/journal bundle from the saved project
+  const handlePrepareSubmission = async () => {
+    if (!isSaved) {
+      await handleSave();
+    }
+    setIsSubmissionOpen(true);
+  };
+
   // Helper function to trigger the actual download
   const triggerPdfDownload = () => {
     if (typeof pdfData === 'string' && pdfData.startsWith('data:application/pdf')) {
@@ -3226,6 +3692,7 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
         </div>
         {/* Right Side: Actions, Chat Toggle, View Modes */}
         <div className="flex items-center space-x-2">
+          <WordCountButton statistics={wordCount} />
           {/* --- CHANGE: Refined View Mode Toggles --- */}
           <div className="hidden md:flex items-center border border-gray-200 rounded-lg overflow-hidden shadow-sm">
             <button
@@ -3279,16 +3746,29 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           <button
             ref={compileButtonRef}
             onClick={handleCompile}
-            disabled={isCompiling || !currentFileId || !currentFileName?.toLowerCase().endsWith('.tex')}
-            className={`cursor-pointer flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-150 shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-1 ${isCompiling || !currentFileId || !currentFileName?.toLowerCase().endsWith('.tex')
+            disabled={isCompiling || !canCompile}
+            className={`cursor-pointer flex items-center px-3 py-1.5 rounded-lg text-sm font-medium transition-all duration-150 shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-1 ${isCompiling || !canCompile
                 ? 'bg-gray-100 text-gray-400 cursor-not-allowed border border-gray-200' // Disabled state
                 // Updated Enabled State: Use a gray shade
                 : 'bg-gray-600 text-white hover:bg-gray-700 border border-gray-600 focus:ring-gray-500'
               }`}
-            title="Compile (Ctrl+Enter)"
+            title={mainDocument ? `Compile ${mainDocument.name} (Ctrl+Enter)` : "Compile (Ctrl+Enter)"}
           >
             {isCompiling ? <Loader className="h-4 w-4 mr-1.5 animate-spin" /> : <Play className="h-4 w-4 mr-1.5" />} Compile
           </button>
+          {/* Jump to PDF Button (SyncTeX forward search) */}
+          <button
+            ref={syncToPdfButtonRef}
+            onClick={handleSyncToPdf}
+            disabled={!pdfData || !synctexData || isImageView}
+            className={`cursor-pointer p-1.5 rounded-lg text-sm font-medium transition-all duration-150 shadow-sm border focus:outline-none focus:ring-2 focus:ring-offset-1 ${!pdfData || !synctexData || isImageView
+                ? 'bg-gray-100 text-gray-400 cursor-not-allowed border-gray-200'
+                : 'bg-white text-gray-600 hover:bg-gray-50 border-gray-300 hover:border-gray-400 focus:ring-indigo-500'
+              }`}
+            title="Jump to location in PDF (Ctrl+Alt+J)"
+          >
+            <LocateFixed className="h-5 w-5" />
+          </button>
           {/* Download Button (PDF) */}
           <button
             onClick={handleDownloadPdf}
@@ -3301,6 +3781,31 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           >
             <Download className="h-5 w-5" />
           </button>
+          {/* Download Button (project ZIP) */}
+          <button
+            onClick={handleDownloadProject}
+            className="cursor-pointer p-1.5 rounded-lg text-sm font-medium transition-all duration-150 shadow-sm border focus:outline-none focus:ring-2 focus:ring-offset-1 bg-white text-gray-600 hover:bg-gray-50 border-gray-300 hover:border-gray-400 focus:ring-indigo-500"
+            title="Download project as ZIP"
+          >
+            <FolderArchive className="h-5 w-5" />
+          </button>
+          {/* Submission bundle Button */}
+          <button
+            onClick={handlePrepareSubmission}
+            className="cursor-pointer p-1.5 rounded-lg text-sm font-medium transition-all duration-150 shadow-sm border focus:outline-none focus:ring-2 focus:ring-offset-1 bg-white text-gray-600 hover:bg-gray-50 border-gray-300 hover:border-gray-400 focus:ring-indigo-500"
+            title="Prepare submission (arXiv/journal)"
+          >
+            <PackageCheck className="h-5 w-5" />
+          </button>
+
+          {/* Project Settings Button */}
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="cursor-pointer p-1.5 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100"
+            title="Project Settings"
+          >
+            <Settings className="h-5 w-5" />
+          </button>
 
           {/* Chat Toggle Button */}
           <HeaderChatButton /> {/* Use the existing component */}
@@ -3430,6 +3935,14 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
                     <pre className="text-xs text-left text-red-600 bg-white p-3 rounded border border-red-100 max-h-60 overflow-auto w-full max-w-md font-mono">
                       {compilationError}
                     </pre>
+                    <button
+                      onClick={handleFixWithAI}
+                      disabled={!!repairStatus}
+                      className="mt-3 px-3 py-1.5 flex items-center bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:opacity-70"
+                    >
+                      {repairStatus ? <Loader className="h-4 w-4 mr-1.5 animate-spin" /> : <Wand2 className="h-4 w-4 mr-1.5" />}
+                      {repairStatus || "Fix with AI"}
+                    </button>
                   </div>
                 ) : !pdfData ? (
                   // No PDF Preview
@@ -3456,6 +3969,8 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
                       htmlPreview={htmlPreview || undefined}
                       documentTitle={currentFileName || projectData?.title || "document"}
                       onRecompileRequest={handleCompile}
+                      syncHighlight={syncHighlight}
+                      onSyncDoubleClick={synctexData ? handleSyncToSource : undefined}
                     />
                   </div>
                 )}
@@ -3481,6 +3996,14 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
                     <pre className="text-sm text-red-300 whitespace-pre-wrap font-mono bg-gray-900 p-4 rounded border border-red-900 max-h-80 overflow-auto">
                       {compilationError}
                     </pre>
+                    <button
+                      onClick={handleFixWithAI}
+                      disabled={!!repairStatus}
+                      className="mt-4 px-4 py-2 flex items-center bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-70"
+                    >
+                      {repairStatus ? <Loader className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+                      {repairStatus || "Fix with AI"}
+                    </button>
                   </div>
                 </div>
               ) : !pdfData ? (
@@ -3509,6 +4032,8 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
                     documentTitle={currentFileName || projectData?.title || "document"}
                     onRecompileRequest={handleCompile}
                     hideToolbar={false}
+                    syncHighlight={syncHighlight}
+                    onSyncDoubleClick={synctexData ? handleSyncToSource : undefined}
                   />
                 </div>
               )}
@@ -3555,6 +4080,38 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
         )}
       </div>
 
+      {/* Compile log panel */}
+      {isLogOpen && (
+        <CompileLogPanel
+          stages={compileStages}
+          log={compileLog}
+          isCompiling={isCompiling}
+          onClose={() => setIsLogOpen(false)}
+        />
+      )}
+
+      {/* Compile history panel */}
+      {isHistoryOpen && (
+        <CompileHistoryPanel
+          projectId={projectId}
+          refreshKey={historyRefreshKey}
+          currentSourceHash={lastCompileSourceHash}
+          onOpen={handleOpenHistoryArtifact}
+          onCompare={handleCompareHistoryArtifacts}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {/* Compile problems panel */}
+      {isProblemsOpen && (
+        <CompileProblemsPanel
+          diagnostics={compileDiagnostics}
+          onSelect={handleDiagnosticSelect}
+          onFix={handleDiagnosticFix}
+          onClose={() => setIsProblemsOpen(false)}
+        />
+      )}
+
       {/* Status bar - fixed height */}
       {/* Status Bar */}
       {/* --- CHANGE: Light Theme Status Bar --- */}
@@ -3564,6 +4121,39 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
           <span>Ln ?, Col ?</span>
           <span>{code.split('\n').length} Lines</span>
           <span>UTF-8</span>
+          {/* Compile problems toggle */}
+          <button
+            onClick={() => setIsProblemsOpen(!isProblemsOpen)}
+            className="flex items-center space-x-2 hover:text-gray-700 cursor-pointer"
+            title="Toggle Problems"
+          >
+            <span className={compileDiagnostics.errors.length ? 'text-red-600' : ''}>
+              {compileDiagnostics.errors.length} errors
+            </span>
+            <span className={compileDiagnostics.warnings.length ? 'text-amber-600' : ''}>
+              {compileDiagnostics.warnings.length} warnings
+            </span>
+          </button>
+          {/* Compile log toggle, showing the current stage while compiling */}
+          <button
+            onClick={() => setIsLogOpen(!isLogOpen)}
+            className="flex items-center hover:text-gray-700 cursor-pointer"
+            title="Toggle Compile Log"
+          >
+            <ScrollText className="h-3.5 w-3.5 mr-1" />
+            {isCompiling && compileStages.length > 0
+              ? describeCompileStage(compileStages[compileStages.length - 1])
+              : 'Log'}
+          </button>
+          {/* Compile history toggle */}
+          <button
+            onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+            className="flex items-center hover:text-gray-700 cursor-pointer"
+            title="Toggle Compile History"
+          >
+            <History className="h-3.5 w-3.5 mr-1" />
+            History
+          </button>
         </div>
         <div className="flex items-center space-x-3">
           {/* Saved status */}
@@ -3743,6 +4333,33 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
       )}
 
 
+      {/* Project Settings Modal */}
+      <ProjectSettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        project={projectData}
+        userId={userId}
+        files={files}
+        onProjectUpdated={(updates) => setProjectData({ ...projectData, ...updates })}
+      />
+
+      <SubmissionModal
+        isOpen={isSubmissionOpen}
+        onClose={() => setIsSubmissionOpen(false)}
+        projectId={projectId}
+        fileId={currentFileId && isTexFile(currentFileName) ? currentFileId : null}
+        latex={code}
+      />
+
+      {/* Visual diff of two compile outputs */}
+      {historyComparison && (
+        <PdfVisualDiff
+          before={historyComparison.before}
+          after={historyComparison.after}
+          onClose={() => setHistoryComparison(null)}
+        />
+      )}
+
       {/* Suggestion Overlay Modal */}
       {modalSuggestion && isEditorReady && editorViewRef.current && typeof document !== 'undefined' && (
         ReactDOM.createPortal(
@@ -3759,6 +4376,9 @@ const EnhancedLatexEditor: React.FC<EnhancedLatexEditorProps> = ({ projectId, us
             onReject={handleRejectAndClose}
             editorView={editorViewRef.current}
             fileName={currentFileName || 'current file'}
+            onVerify={handleVerifySuggestion}
+            isVerifying={isVerifyingSuggestion}
+            verification={suggestionVerification}
             // --- CHANGE: Apply light theme styles ---
             className="suggestion-overlay-light"
           />,
@@ -6,9 +6,10 @@ import React, { useEffect, useRef } from 'react';
 interface LatexRendererProps {
   content: string;
   className?: string;
+  prerendered?: boolean; // Math is already KaTeX HTML; only the stylesheet is needed
 }
 
-const LatexRenderer: React.FC<LatexRendererProps> = ({ content, className = '' }) => {
+const LatexRenderer: React.FC<LatexRendererProps> = ({ content, className = '', prerendered = false }) => {
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -23,6 +24,9 @@ const LatexRenderer: React.FC<LatexRendererProps> = ({ content, className = '' }
       document.head.appendChild(link);
     }
 
+    // Running auto-render again would treat literal dollar signs in the text as math
+    if (prerendered) return;
+
     // Load KaTeX script if not already loaded
     const loadKatex = async () => {
       if (typeof window.katex === 'undefined') {
@@ -82,7 +86,7 @@ const LatexRenderer: React.FC<LatexRendererProps> = ({ content, className = '' }
     return () => {
       // No cleanup needed for KaTeX
     };
-  }, [content]);
+  }, [content, prerendered]);
 
   return (
     <div 
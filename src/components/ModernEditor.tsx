@@ -6,8 +6,9 @@ import { authenticateWithFirebase } from '@/lib/firebase-auth';
 import { doc, getDoc, updateDoc, serverTimestamp, collection, getDocs, query, where, orderBy, addDoc, deleteDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import CodeMirror from '@uiw/react-codemirror';
-import { StreamLanguage } from '@codemirror/language';
-import { stex } from '@codemirror/legacy-modes/mode/stex';
+import { syntaxHighlighting } from '@codemirror/language';
+import { Text } from '@codemirror/state';
+import { documentOutline, latex, latexHighlightStyle, latexLanguage } from '@/utils/latexLanguage';
 import { compileLatex } from '@/services/latexService';
 import {
     Home, Menu, Save, Play, Download, Upload,
@@ -151,37 +152,19 @@ const ModernLatexEditor = () => {
         if (!code) return;
 
         const extractOutline = () => {
-            const lines = code.split('\n');
-            const outlineItems = [];
-
-            // Regular expressions for different sectional commands
-            const sectionRegex = /\\(chapter|section|subsection|subsubsection)\{([^}]+)\}/;
-
-            lines.forEach((line, index) => {
-                const match = line.match(sectionRegex);
-                if (match) {
-                    const type = match[1];
-                    const title = match[2];
-                    let level = 0;
-
-                    switch (type) {
-                        case 'chapter': level = 0; break;
-                        case 'section': level = 1; break;
-                        case 'subsection': level = 2; break;
-                        case 'subsubsection': level = 3; break;
-                    }
-
-                    outlineItems.push({
-                        id: `outline-${index}`,
-                        title,
-                        type,
-                        level,
-                        lineNumber: index + 1
-                    });
-                }
-            });
-
-            return outlineItems;
+            const tree = latexLanguage.parser.parse(code);
+
+            // Chapters down to subsubsections, from the syntax tree so commented-out
+            // and verbatim sections are left out
+            return documentOutline(tree, Text.of(code.split('\n')))
+                .filter(entry => entry.level >= 0 && entry.level <= 3)
+                .map(entry => ({
+                    id: `outline-${entry.line - 1}`,
+                    title: entry.title,
+                    type: entry.command,
+                    level: entry.level,
+                    lineNumber: entry.line
+                }));
         };
 
         setOutline(extractOutline());
@@ -654,8 +637,7 @@ const ModernLatexEditor = () => {
   
   /* LaTeX specific tokens - MAXIMUM visibility */
   span[class*="cm-tag"],
-  span[class*="cm-keyword"],
-  span[class*="cm-m-stex"] {
+  span[class*="cm-keyword"] {
     color: #0000CC !important;
     font-weight: 700 !important;
   }
@@ -927,7 +909,7 @@ const ModernLatexEditor = () => {
                                     value={code}
                                     height="100%"
                                     theme="light"
-                                    extensions={[StreamLanguage.define(stex)]}
+                                    extensions={[latex(), syntaxHighlighting(latexHighlightStyle)]}
                                     onChange={handleCodeChange}
                                     className="cm-editor-custom-theme" // Add custom class for styling
                                     basicSetup={{
@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader } from 'lucide-react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { SynctexLocation } from '@/utils/synctex';
+import { loadPdfjs, toPdfBytes } from '@/utils/pdfjs';
+
+interface PdfPagesViewProps {
+  pdfData: string | ArrayBuffer;
+  highlight?: SynctexLocation | null;
+  // Double click position in PDF points from the page's top left corner
+  onPageDoubleClick?: (page: number, x: number, y: number) => void;
+  onError?: (error: unknown) => void;
+}
+
+interface PageSize {
+  width: number;
+  height: number;
+}
+
+const PAGE_GAP = 16;
+const HIGHLIGHT_DURATION = 2500;
+
+const PdfPage: React.FC<{
+  pdfDocument: PDFDocumentProxy;
+  pageNumber: number;
+  size: PageSize;
+  scale: number;
+}> = ({ pdfDocument, pageNumber, size, scale }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    const renderPage = async () => {
+      const page = await pdfDocument.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const pixelRatio = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale });
+      canvas.width = Math.floor(viewport.width * pixelRatio);
+      canvas.height = Math.floor(viewport.height * pixelRatio);
+      const context = canvas.getContext('2d');
+      if (!context) return;
+
+      renderTask = page.render({
+        canvasContext: context,
+        viewport,
+        transform: pixelRatio !== 1 ? [pixelRatio, 0, 0, pixelRatio, 0, 0] : undefined
+      });
+      try {
+        await renderTask.promise;
+      } catch (error) {
+        // A newer render for this page replaced this one
+        if ((error as { name?: string })?.name !== 'RenderingCancelledException') {
+          console.error(`Error rendering PDF page ${pageNumber}:`, error);
+        }
+      }
+    };
+
+    renderPage();
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdfDocument, pageNumber, scale]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: size.width * scale, height: size.height * scale }}
+      className="block"
+    />
+  );
+};
+
+const PdfPagesView: React.FC<PdfPagesViewProps> = ({ pdfData, highlight = null, onPageDoubleClick, onError }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [pageSizes, setPageSizes] = useState<PageSize[]>([]);
+  const [containerWidth, setContainerWidth] = useState(0);
+  const [visibleHighlight, setVisibleHighlight] = useState<SynctexLocation | null>(null);
+  // Keep the latest error callback without reloading the document when it changes
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  // Load the document whenever new PDF data arrives
+  useEffect(() => {
+    let cancelled = false;
+    let loadedDocument: PDFDocumentProxy | null = null;
+
+    const loadDocument = async () => {
+      try {
+        const pdfjs = await loadPdfjs();
+        loadedDocument = await pdfjs.getDocument({ data: toPdfBytes(pdfData) }).promise;
+        if (cancelled) {
+          loadedDocument.destroy();
+          return;
+        }
+
+        const sizes: PageSize[] = [];
+        for (let pageNumber = 1; pageNumber <= loadedDocument.numPages; pageNumber++) {
+          const page = await loadedDocument.getPage(pageNumber);
+          const viewport = page.getViewport({ scale: 1 });
+          sizes.push({ width: viewport.width, height: viewport.height });
+        }
+        if (cancelled) return;
+
+        setPageSizes(sizes);
+        setPdfDocument(loadedDocument);
+      } catch (error) {
+        console.error('Error loading PDF with pdf.js:', error);
+        if (!cancelled) onErrorRef.current?.(error);
+      }
+    };
+
+    loadDocument();
+    return () => {
+      cancelled = true;
+      loadedDocument?.destroy();
+    };
+  }, [pdfData]);
+
+  // Fit pages to the container width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      const width = entries[0]?.contentRect.width || 0;
+      setContainerWidth(Math.floor(width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const widestPage = Math.max(...pageSizes.map(size => size.width), 1);
+  const scale = containerWidth > 0 ? Math.max((containerWidth - PAGE_GAP * 2) / widestPage, 0.25) : 1;
+
+  // Scroll the highlighted location into view (again if the pages are rescaled) and flash it briefly
+  useEffect(() => {
+    if (!highlight || !pdfDocument) return;
+    const pageElement = pageRefs.current[highlight.page - 1];
+    const container = containerRef.current;
+    if (!pageElement || !container) return;
+
+    container.scrollTo({
+      top: pageElement.offsetTop + highlight.y * scale - container.clientHeight / 3,
+      behavior: 'smooth'
+    });
+    setVisibleHighlight(highlight);
+    const timer = setTimeout(() => setVisibleHighlight(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timer);
+  }, [highlight, pdfDocument, scale]);
+
+  const handleDoubleClick = (pageNumber: number) => (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPageDoubleClick) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onPageDoubleClick(pageNumber, (event.clientX - rect.left) / scale, (event.clientY - rect.top) / scale);
+  };
+
+  return (
+    <div ref={containerRef} className="h-full w-full overflow-auto bg-gray-100 relative">
+      {!pdfDocument ? (
+        <div className="h-full flex items-center justify-center">
+          <Loader className="h-6 w-6 text-blue-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="flex flex-col items-center" style={{ padding: PAGE_GAP, gap: PAGE_GAP }}>
+          {pageSizes.map((size, index) => (
+            <div
+              key={index}
+              ref={element => { pageRefs.current[index] = element; }}
+              className="relative bg-white shadow-md"
+              onDoubleClick={handleDoubleClick(index + 1)}
+              title={onPageDoubleClick ? "Double-click to jump to the source" : undefined}
+            >
+              <PdfPage pdfDocument={pdfDocument} pageNumber={index + 1} size={size} scale={scale} />
+              {visibleHighlight && visibleHighlight.page === index + 1 && (
+                <div
+                  className="absolute pointer-events-none bg-yellow-300 bg-opacity-40 border border-yellow-500 rounded-sm transition-opacity"
+                  style={{
+                    left: visibleHighlight.x * scale,
+                    top: visibleHighlight.y * scale,
+                    width: visibleHighlight.width * scale,
+                    height: visibleHighlight.height * scale
+                  }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PdfPagesView;
@@ -9,13 +9,20 @@ import {
   FileText
 } from 'lucide-react';
 import dynamic from 'next/dynamic';
+import type { SynctexLocation } from '@/utils/synctex';
 
-// Import LatexRenderer dynamically (Keep if htmlPreview is used)
+// Import LatexRenderer dynamically for the HTML preview
 const LatexRenderer = dynamic(() => import('./LatexRenderer'), {
   ssr: false,
   loading: () => <div className="p-4 text-center text-gray-500">Loading preview renderer...</div> // Updated loading text
 });
 
+// pdf.js based page renderer, needed for SyncTeX highlights and double-click to source
+const PdfPagesView = dynamic(() => import('./PdfPagesView'), {
+  ssr: false,
+  loading: () => <div className="p-4 text-center text-gray-500">Loading PDF renderer...</div>
+});
+
 interface EnhancedPdfViewerProps {
   pdfData: string | ArrayBuffer | null;
   isLoading: boolean;
@@ -24,16 +31,20 @@ interface EnhancedPdfViewerProps {
   documentTitle?: string;
   onRecompileRequest?: () => void;
   hideToolbar?: boolean; // Prop to control toolbar visibility
+  syncHighlight?: SynctexLocation | null; // Forward search target to scroll to and flash
+  onSyncDoubleClick?: (page: number, x: number, y: number) => void; // Inverse search from a PDF position
 }
 
 const EnhancedPdfViewer: React.FC<EnhancedPdfViewerProps> = ({
   pdfData,
   isLoading,
   error,
-  htmlPreview, // Keep htmlPreview logic if needed
+  htmlPreview, // Offline HTML rendering shown when there is no PDF
   documentTitle = 'document',
   onRecompileRequest,
-  hideToolbar = false // Default to showing the toolbar
+  hideToolbar = false, // Default to showing the toolbar
+  syncHighlight = null,
+  onSyncDoubleClick
 }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -41,6 +52,8 @@ const EnhancedPdfViewer: React.FC<EnhancedPdfViewerProps> = ({
   const [iframeError, setIframeError] = useState(false);
   const [showDownloadPrompt, setShowDownloadPrompt] = useState(false);
   const [renderAttempts, setRenderAttempts] = useState(0);
+  // Fall back to the browser's own viewer if pdf.js cannot load the document
+  const [pdfjsFailed, setPdfjsFailed] = useState(false);
 
   // --- Toolbar State (Keep state even if toolbar is hidden, maybe needed internally?) ---
   // Or remove these if they are TRULY only for the visual toolbar
@@ -58,6 +71,7 @@ const EnhancedPdfViewer: React.FC<EnhancedPdfViewerProps> = ({
   useEffect(() => {
     setIframeError(false);
     setShowDownloadPrompt(false);
+    setPdfjsFailed(false);
     // Reset zoom/rotation only if toolbar is visible? Or always? Resetting always is safer.
     setZoom(100);
     setRotation(0);
@@ -162,7 +176,7 @@ const EnhancedPdfViewer: React.FC<EnhancedPdfViewerProps> = ({
       iframe.removeEventListener('load', handleIframeLoad);
       clearTimeout(timeout);
     };
-  }, [sanitizedPdfUrl]); // Rerun when URL changes
+  }, [sanitizedPdfUrl, pdfjsFailed]); // Rerun when URL changes or the iframe fallback appears
 
 
   // Fullscreen handling (Keep if needed, but relates to the toolbar)
@@ -206,8 +220,16 @@ const EnhancedPdfViewer: React.FC<EnhancedPdfViewerProps> = ({
      );
    }
 
-  // Render HTML Preview State (Keep if using)
-  if (htmlPreview) { /* ... keep existing html preview logic ... */ }
+  // Render HTML Preview State: the offline rendering when no PDF could be compiled
+  if (htmlPreview && !pdfData) {
+    return (
+      <div className="h-full overflow-auto bg-gray-100 p-6">
+        <div className="max-w-3xl mx-auto bg-white shadow rounded p-8">
+          <LatexRenderer content={htmlPreview} prerendered />
+        </div>
+      </div>
+    );
+  }
 
   // Render No PDF State
    if (!sanitizedPdfUrl && !isLoading && !error) { // Added !isLoading and !error checks
@@ -235,8 +257,18 @@ const EnhancedPdfViewer: React.FC<EnhancedPdfViewerProps> = ({
       {/* PDF Content Area - takes all available space */}
        {/* --- CHANGE: Ensure this div takes full height when toolbar is hidden --- */}
       <div className={`flex-1 overflow-auto relative ${hideToolbar ? 'h-full' : ''}`}>
-        {/* Iframe Rendering */}
-        {!iframeError && sanitizedPdfUrl && (
+        {/* pdf.js Rendering */}
+        {!pdfjsFailed && pdfData && (
+          <PdfPagesView
+            pdfData={pdfData}
+            highlight={syncHighlight}
+            onPageDoubleClick={onSyncDoubleClick}
+            onError={() => setPdfjsFailed(true)}
+          />
+        )}
+
+        {/* Iframe Rendering (fallback) */}
+        {pdfjsFailed && !iframeError && sanitizedPdfUrl && (
           <div className="h-full w-full">
             <iframe
               key={`pdf-iframe-${renderAttempts}`} // Re-render iframe on retry
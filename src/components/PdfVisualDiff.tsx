@@ -0,0 +1,274 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Columns, Layers, Loader, X } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { loadPdfjs, toPdfBytes } from '@/utils/pdfjs';
+import { DiffRegion, PagePixels, composeOverlay, findChangedRegions } from '@/utils/pdfVisualDiff';
+
+export interface PdfVisualDiffSide {
+  pdfData: string;
+  label: string;
+}
+
+interface PdfVisualDiffProps {
+  before: PdfVisualDiffSide;
+  after: PdfVisualDiffSide;
+  onClose: () => void;
+}
+
+// Pages are compared at this scale; higher catches smaller changes but costs memory
+const DIFF_SCALE = 1.5;
+
+interface PageComparison {
+  pageNumber: number;
+  // Rendered pages as image URLs; null when the page only exists in the other version
+  beforeImage: string | null;
+  afterImage: string | null;
+  overlayImage: string | null;
+  regions: DiffRegion[];
+  aspectRatio: number;
+}
+
+const pixelsToImage = (pixels: PagePixels): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  canvas.getContext('2d')!.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+const renderPagePixels = async (pdfDocument: PDFDocumentProxy, pageNumber: number): Promise<PagePixels> => {
+  const page = await pdfDocument.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: DIFF_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  return { width: imageData.width, height: imageData.height, data: imageData.data };
+};
+
+const blankPage = (like: PagePixels): PagePixels => ({
+  width: like.width,
+  height: like.height,
+  data: new Uint8ClampedArray(like.width * like.height * 4).fill(255)
+});
+
+const PageImage: React.FC<{
+  src: string | null;
+  regions: DiffRegion[];
+  aspectRatio: number;
+  highlightClassName: string;
+  missingLabel: string;
+}> = ({ src, regions, aspectRatio, highlightClassName, missingLabel }) => (
+  <div className="relative bg-white shadow-md w-full" style={{ aspectRatio }}>
+    {src ? (
+      <>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={src} alt="" className="block w-full h-full" />
+        {regions.map((region, index) => (
+          <div
+            key={index}
+            className={`absolute pointer-events-none border-2 rounded-sm ${highlightClassName}`}
+            style={{
+              left: `${region.x * 100}%`,
+              top: `${region.y * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`
+            }}
+          />
+        ))}
+      </>
+    ) : (
+      <div className="h-full flex items-center justify-center text-xs text-gray-400">{missingLabel}</div>
+    )}
+  </div>
+);
+
+const PdfVisualDiff: React.FC<PdfVisualDiffProps> = ({ before, after, onClose }) => {
+  const [mode, setMode] = useState<'side-by-side' | 'overlay'>('side-by-side');
+  const [changedOnly, setChangedOnly] = useState(false);
+  const [pages, setPages] = useState<PageComparison[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Render both documents page by page and compare each pair
+  useEffect(() => {
+    let cancelled = false;
+    const documents: PDFDocumentProxy[] = [];
+
+    const compare = async () => {
+      setPages([]);
+      setError(null);
+      try {
+        const pdfjs = await loadPdfjs();
+        const [beforeDocument, afterDocument] = await Promise.all([
+          pdfjs.getDocument({ data: toPdfBytes(before.pdfData) }).promise,
+          pdfjs.getDocument({ data: toPdfBytes(after.pdfData) }).promise
+        ]);
+        documents.push(beforeDocument, afterDocument);
+        const total = Math.max(beforeDocument.numPages, afterDocument.numPages);
+        setProgress({ done: 0, total });
+
+        for (let pageNumber = 1; pageNumber <= total; pageNumber++) {
+          if (cancelled) return;
+          const beforePixels = pageNumber <= beforeDocument.numPages ? await renderPagePixels(beforeDocument, pageNumber) : null;
+          const afterPixels = pageNumber <= afterDocument.numPages ? await renderPagePixels(afterDocument, pageNumber) : null;
+          const reference = (afterPixels || beforePixels)!;
+          const beforeSide = beforePixels || blankPage(reference);
+          const afterSide = afterPixels || blankPage(reference);
+
+          const comparison: PageComparison = {
+            pageNumber,
+            beforeImage: beforePixels ? pixelsToImage(beforePixels) : null,
+            afterImage: afterPixels ? pixelsToImage(afterPixels) : null,
+            overlayImage: pixelsToImage(composeOverlay(beforeSide, afterSide)),
+            // A page only one version has is all change
+            regions: beforePixels && afterPixels
+              ? findChangedRegions(beforePixels, afterPixels)
+              : [{ x: 0, y: 0, width: 1, height: 1 }],
+            aspectRatio: Math.max(beforeSide.width, afterSide.width) / Math.max(beforeSide.height, afterSide.height)
+          };
+          if (cancelled) return;
+          setPages(current => [...current, comparison]);
+          setProgress({ done: pageNumber, total });
+        }
+      } catch (err) {
+        console.error('Error comparing PDFs:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to compare the PDFs');
+      }
+    };
+
+    compare();
+    return () => {
+      cancelled = true;
+      documents.forEach(pdfDocument => pdfDocument.destroy());
+    };
+  }, [before.pdfData, after.pdfData]);
+
+  const isComparing = progress !== null && progress.done < progress.total && !error;
+  const changedPages = pages.filter(page => page.regions.length > 0);
+  const shownPages = changedOnly ? changedPages : pages;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="bg-white rounded-lg shadow-xl w-full h-full max-w-7xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+          <div className="flex items-center space-x-4 text-sm">
+            <span className="font-medium text-gray-800">Compare compile outputs</span>
+            <span className="text-xs text-gray-500">
+              {isComparing
+                ? `Comparing page ${progress!.done + 1} of ${progress!.total}...`
+                : progress
+                  ? `${changedPages.length} of ${progress.total} ${progress.total === 1 ? 'page' : 'pages'} changed`
+                  : ''}
+            </span>
+            {isComparing && <Loader className="h-4 w-4 text-blue-500 animate-spin" />}
+            {error && <span className="text-xs text-red-600">{error}</span>}
+          </div>
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center text-xs text-gray-600 cursor-pointer select-none mr-2">
+              <input
+                type="checkbox"
+                checked={changedOnly}
+                onChange={(e) => setChangedOnly(e.target.checked)}
+                className="mr-1 h-3 w-3"
+              />
+              Changed pages only
+            </label>
+            <div className="flex rounded border border-gray-200 overflow-hidden text-xs">
+              <button
+                onClick={() => setMode('side-by-side')}
+                className={`flex items-center px-2 py-1 ${mode === 'side-by-side' ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                title="Side by Side"
+              >
+                <Columns className="h-3.5 w-3.5 mr-1" />
+                Side by side
+              </button>
+              <button
+                onClick={() => setMode('overlay')}
+                className={`flex items-center px-2 py-1 border-l border-gray-200 ${mode === 'overlay' ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'}`}
+                title="Overlay: removed in red, added in green"
+              >
+                <Layers className="h-3.5 w-3.5 mr-1" />
+                Overlay
+              </button>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+              title="Close Comparison"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {mode === 'side-by-side' ? (
+          <div className="grid grid-cols-2 text-xs text-gray-500 bg-gray-50 border-b border-gray-200">
+            <div className="px-3 py-1">{before.label}</div>
+            <div className="px-3 py-1 border-l border-gray-200">{after.label}</div>
+          </div>
+        ) : (
+          <div className="px-3 py-1 text-xs text-gray-500 bg-gray-50 border-b border-gray-200">
+            <span className="text-red-600">Red: only in {before.label}</span>
+            {' · '}
+            <span className="text-green-600">Green: only in {after.label}</span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto bg-gray-100 p-4 space-y-6">
+          {shownPages.length === 0 && !isComparing && progress && (
+            <p className="text-sm text-center text-gray-500">The two outputs look the same.</p>
+          )}
+          {shownPages.map(page => (
+            <div key={page.pageNumber}>
+              <div className="mb-1 text-xs text-gray-500">
+                Page {page.pageNumber}
+                {page.regions.length > 0 && (
+                  <span className="ml-2 text-amber-600">
+                    {!page.beforeImage ? 'added' : !page.afterImage ? 'removed' : `${page.regions.length} changed ${page.regions.length === 1 ? 'region' : 'regions'}`}
+                  </span>
+                )}
+              </div>
+              {mode === 'side-by-side' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <PageImage
+                    src={page.beforeImage}
+                    regions={page.afterImage ? page.regions : []}
+                    aspectRatio={page.aspectRatio}
+                    highlightClassName="border-red-500 bg-red-400/10"
+                    missingLabel={`No page ${page.pageNumber}`}
+                  />
+                  <PageImage
+                    src={page.afterImage}
+                    regions={page.beforeImage ? page.regions : []}
+                    aspectRatio={page.aspectRatio}
+                    highlightClassName="border-green-500 bg-green-400/10"
+                    missingLabel={`No page ${page.pageNumber}`}
+                  />
+                </div>
+              ) : (
+                <div className="max-w-3xl mx-auto">
+                  <PageImage
+                    src={page.overlayImage}
+                    regions={page.beforeImage && page.afterImage ? page.regions : []}
+                    aspectRatio={page.aspectRatio}
+                    highlightClassName="border-amber-500"
+                    missingLabel=""
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfVisualDiff;
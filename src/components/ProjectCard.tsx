@@ -1,6 +1,7 @@
 "use client";
 
 import Link from "next/link";
+import Image from "next/image";
 import { File, MoreHorizontal, Download, Share2, Copy } from "lucide-react";
 
 export default function ProjectCard({ project, onSelect, isSelected }) {
@@ -34,6 +35,20 @@ export default function ProjectCard({ project, onSelect, isSelected }) {
       overflow-hidden flex flex-col
       ${isSelected ? 'ring-2 ring-teal-500 border-teal-500' : 'border-gray-200'}
     `}>
+      {/* First page of the last compile, refreshed by the editor */}
+      {project.thumbnail && (
+        <Link href={`/editor/${project.id}`} className="block h-40 bg-gray-100 border-b border-gray-200 overflow-hidden">
+          {/* Data URL thumbnails are already small, so skip the image optimizer */}
+          <Image
+            src={project.thumbnail}
+            alt={`First page of ${project.title}`}
+            width={340}
+            height={440}
+            unoptimized
+            className="w-full h-auto object-cover object-top"
+          />
+        </Link>
+      )}
       <div className="p-4 flex-grow flex flex-col">
         <div className="flex items-start justify-between">
           <div className="flex items-center">
@@ -1,17 +1,64 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { X, Plus, Tag, User, Globe, Lock, Trash2 } from "lucide-react";
+import { X, Plus, Tag, User, Globe, Lock, Trash2, FileText } from "lucide-react";
 import { doc, updateDoc, deleteDoc, serverTimestamp } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useRouter } from "next/navigation";
+import { ProjectFileRecord, buildProjectPaths, getFileName, isTexFile } from "@/utils/projectFileUtils";
+import {
+  DEFAULT_LATEX_ENGINE,
+  LATEX_ENGINES,
+  LatexEngine,
+  SHELL_ESCAPE_COMMANDS,
+  normalizeShellEscapeCommands
+} from "@/services/latexService";
+import { MAX_REPAIR_ATTEMPTS, normalizeRepairAttempts } from "@/services/compileRepairService";
+import {
+  DEFAULT_PDF_POST_PROCESSING,
+  PdfPostProcessing,
+  WATERMARK_PRESETS,
+  normalizePdfPostProcessing
+} from "@/utils/pdfPostProcessing";
 
-export default function ProjectSettingsModal({ isOpen, onClose, project, userId }) {
+interface ProjectSettings {
+  id: string;
+  title?: string;
+  tags?: string[];
+  isPublic?: boolean;
+  mainFileId?: string | null;
+  engine?: LatexEngine;
+  shellEscapeCommands?: string[];
+  repairAttempts?: number;
+  // Post-compile steps per compile target, keyed by the compiled file's id
+  pdfPostProcessing?: Record<string, unknown>;
+}
+
+const normalizePostProcessingMap = (value: unknown): Record<string, PdfPostProcessing> =>
+  Object.fromEntries(
+    Object.entries(value && typeof value === "object" ? value : {}).map(([fileId, steps]) => [fileId, normalizePdfPostProcessing(steps)])
+  );
+
+export default function ProjectSettingsModal({ isOpen, onClose, project, userId, files = [], onProjectUpdated = null }: {
+  isOpen: boolean;
+  onClose: () => void;
+  project: ProjectSettings | null;
+  userId: string;
+  files?: ProjectFileRecord[];
+  onProjectUpdated?: ((updates: Record<string, unknown>) => void) | null;
+}) {
   const router = useRouter();
   const [title, setTitle] = useState(project?.title || "");
   const [newTag, setNewTag] = useState("");
   const [tags, setTags] = useState(project?.tags || []);
   const [isPublic, setIsPublic] = useState(project?.isPublic || false);
+  const [mainFileId, setMainFileId] = useState(project?.mainFileId || "");
+  const [engine, setEngine] = useState<LatexEngine>(project?.engine || DEFAULT_LATEX_ENGINE);
+  const [shellEscapeCommands, setShellEscapeCommands] = useState<string[]>(normalizeShellEscapeCommands(project?.shellEscapeCommands));
+  const [repairAttempts, setRepairAttempts] = useState(normalizeRepairAttempts(project?.repairAttempts));
+  const [pdfPostProcessing, setPdfPostProcessing] = useState(normalizePostProcessingMap(project?.pdfPostProcessing));
+  // Compile target whose post-processing is being edited
+  const [postProcessingTarget, setPostProcessingTarget] = useState(project?.mainFileId || "");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [activeTab, setActiveTab] = useState("general");
@@ -22,9 +69,44 @@ export default function ProjectSettingsModal({ isOpen, onClose, project, userId
       setTitle(project.title || "");
       setTags(project.tags || []);
       setIsPublic(project.isPublic || false);
+      setMainFileId(project.mainFileId || "");
+      setEngine(project.engine || DEFAULT_LATEX_ENGINE);
+      setShellEscapeCommands(normalizeShellEscapeCommands(project.shellEscapeCommands));
+      setRepairAttempts(normalizeRepairAttempts(project.repairAttempts));
+      setPdfPostProcessing(normalizePostProcessingMap(project.pdfPostProcessing));
+      setPostProcessingTarget(project.mainFileId || "");
     }
   }, [project]);
 
+  // Candidate main documents, shown with their folder path
+  const filePaths = buildProjectPaths(files);
+  const texFiles = files
+    .filter(file => file.type !== "folder" && !file.deleted && isTexFile(getFileName(file)))
+    .map(file => ({ id: file.id, path: filePaths.get(file.id) || getFileName(file) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  // PDFs that can be merged into the output
+  const pdfFiles = files
+    .filter(file => file.type !== "folder" && !file.deleted && getFileName(file).toLowerCase().endsWith(".pdf"))
+    .map(file => ({ id: file.id, path: filePaths.get(file.id) || getFileName(file) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const targetId = postProcessingTarget || mainFileId || texFiles[0]?.id || "";
+  const targetSteps = pdfPostProcessing[targetId] || DEFAULT_PDF_POST_PROCESSING;
+  const updateTargetSteps = (changes: Partial<PdfPostProcessing>) => {
+    if (!targetId) return;
+    setPdfPostProcessing(current => ({
+      ...current,
+      [targetId]: { ...(current[targetId] || DEFAULT_PDF_POST_PROCESSING), ...changes }
+    }));
+  };
+  const mergePosition = (fileId: string) => targetSteps.merge.find(step => step.fileId === fileId)?.position || "";
+  const setMergePosition = (fileId: string, position: string) => {
+    const others = targetSteps.merge.filter(step => step.fileId !== fileId);
+    updateTargetSteps({
+      merge: position === "before" || position === "after" ? [...others, { fileId, position }] : others
+    });
+  };
+
   const handleSave = async () => {
     if (!project?.id || !userId) return;
     if (!title.trim()) {
@@ -37,13 +119,22 @@ export default function ProjectSettingsModal({ isOpen, onClose, project, userId
 
     try {
       const projectRef = doc(db, "projects", project.id);
-      await updateDoc(projectRef, {
+      const updates = {
         title,
         tags,
         isPublic,
+        mainFileId: mainFileId || null,
+        engine,
+        shellEscapeCommands,
+        repairAttempts,
+        pdfPostProcessing,
+      };
+      await updateDoc(projectRef, {
+        ...updates,
         lastModified: serverTimestamp(),
       });
-      
+
+      onProjectUpdated?.(updates);
       onClose();
     } catch (error) {
       console.error("Error updating project:", error);
@@ -53,6 +144,12 @@ export default function ProjectSettingsModal({ isOpen, onClose, project, userId
     }
   };
 
+  const toggleShellEscapeCommand = (command: string) => {
+    setShellEscapeCommands(current =>
+      current.includes(command) ? current.filter(value => value !== command) : [...current, command]
+    );
+  };
+
   const handleAddTag = () => {
     if (newTag.trim() !== "" && !tags.includes(newTag.trim())) {
       setTags([...tags, newTag.trim()]);
@@ -117,6 +214,16 @@ export default function ProjectSettingsModal({ isOpen, onClose, project, userId
           >
             General
           </button>
+          <button
+            className={`px-4 py-2 text-sm font-medium ${
+              activeTab === "compiler" 
+                ? "text-teal-600 border-b-2 border-teal-600" 
+                : "text-gray-500 hover:text-gray-700"
+            }`}
+            onClick={() => setActiveTab("compiler")}
+          >
+            Compiler
+          </button>
           <button
             className={`px-4 py-2 text-sm font-medium ${
               activeTab === "sharing" 
@@ -197,6 +304,184 @@ export default function ProjectSettingsModal({ isOpen, onClose, project, userId
             </>
           )}
 
+          {activeTab === "compiler" && (
+            <div className="mb-4">
+              <label htmlFor="mainFile" className="block text-sm font-medium text-gray-700 mb-1">
+                Main document
+              </label>
+              <div className="flex items-center">
+                <FileText className="h-4 w-4 mr-2 text-gray-500" />
+                <select
+                  id="mainFile"
+                  value={mainFileId}
+                  onChange={(e) => setMainFileId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                >
+                  <option value="">Automatic (main.tex or the open document)</option>
+                  {texFiles.map(file => (
+                    <option key={file.id} value={file.id}>{file.path}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                This file is compiled no matter which file is open in the editor.
+              </p>
+
+              <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Compiler
+              </label>
+              <div className="space-y-2">
+                {LATEX_ENGINES.map(option => (
+                  <div
+                    key={option.value}
+                    className={`border rounded-md p-3 cursor-pointer transition-colors ${
+                      engine === option.value ? 'border-teal-500 bg-teal-50' : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                    onClick={() => setEngine(option.value)}
+                  >
+                    <div className="font-medium text-sm">{option.label}</div>
+                    <p className="text-xs text-gray-500 mt-1">{option.description}</p>
+                  </div>
+                ))}
+              </div>
+
+              <label className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Shell escape
+              </label>
+              <p className="text-xs text-gray-500 mb-2">
+                Documents cannot run programs unless you allow them here. Only enable what your packages need.
+              </p>
+              <div className="space-y-1">
+                {SHELL_ESCAPE_COMMANDS.map(option => (
+                  <label key={option.value} className="flex items-start cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={shellEscapeCommands.includes(option.value)}
+                      onChange={() => toggleShellEscapeCommand(option.value)}
+                      className="mt-0.5 mr-2 h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                    />
+                    <span className="text-sm">
+                      <span className="font-mono">{option.label}</span>
+                      <span className="block text-xs text-gray-500">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <label htmlFor="repairAttempts" className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                Fix with AI attempts
+              </label>
+              <select
+                id="repairAttempts"
+                value={repairAttempts}
+                onChange={(e) => setRepairAttempts(normalizeRepairAttempts(Number(e.target.value)))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                {Array.from({ length: MAX_REPAIR_ATTEMPTS }, (_, index) => index + 1).map(count => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                How many patch-and-recompile rounds the AI gets before it shows its best change.
+              </p>
+
+              <label htmlFor="postProcessingTarget" className="block text-sm font-medium text-gray-700 mt-4 mb-1">
+                PDF post-processing
+              </label>
+              <p className="text-xs text-gray-500 mb-2">
+                Applied to the compiled PDF of the selected document, in the preview and in downloads.
+              </p>
+              <select
+                id="postProcessingTarget"
+                value={targetId}
+                onChange={(e) => setPostProcessingTarget(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                {texFiles.map(file => (
+                  <option key={file.id} value={file.id}>{file.path}</option>
+                ))}
+              </select>
+              {targetId && (
+                <div className="mt-2 space-y-2 text-sm">
+                  <label className="flex items-center cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={targetSteps.metadata}
+                      onChange={(e) => updateTargetSteps({ metadata: e.target.checked })}
+                      className="mr-2 h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                    />
+                    Set PDF title and author from \title and \author
+                  </label>
+                  <label className="flex items-center cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={targetSteps.lineNumbers}
+                      onChange={(e) => updateTargetSteps({ lineNumbers: e.target.checked })}
+                      className="mr-2 h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+                    />
+                    Number lines in the margin (review copy)
+                  </label>
+                  <div className="flex items-center">
+                    <span className="w-24 flex-shrink-0 text-gray-700">Watermark</span>
+                    <select
+                      value={WATERMARK_PRESETS.includes(targetSteps.watermark) || !targetSteps.watermark ? targetSteps.watermark : "custom"}
+                      onChange={(e) => updateTargetSteps({ watermark: e.target.value === "custom" ? "REVIEW COPY" : e.target.value })}
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    >
+                      <option value="">None</option>
+                      {WATERMARK_PRESETS.map(preset => (
+                        <option key={preset} value={preset}>{preset}</option>
+                      ))}
+                      <option value="custom">Custom...</option>
+                    </select>
+                    {targetSteps.watermark && !WATERMARK_PRESETS.includes(targetSteps.watermark) && (
+                      <input
+                        type="text"
+                        value={targetSteps.watermark}
+                        onChange={(e) => updateTargetSteps({ watermark: e.target.value })}
+                        maxLength={40}
+                        className="flex-1 ml-2 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                      />
+                    )}
+                  </div>
+                  <div className="flex items-center">
+                    <span className="w-24 flex-shrink-0 text-gray-700">Page header</span>
+                    <input
+                      type="text"
+                      value={targetSteps.pageHeader}
+                      onChange={(e) => updateTargetSteps({ pageHeader: e.target.value })}
+                      placeholder="{title} - draft of {date} - page {page} of {pages}"
+                      className="flex-1 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    />
+                  </div>
+                  <div>
+                    <span className="block text-gray-700 mb-1">Merge PDFs</span>
+                    {pdfFiles.length === 0 ? (
+                      <p className="text-xs text-gray-500">Upload a PDF, such as a cover letter, to merge it into the output.</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {pdfFiles.map(file => (
+                          <div key={file.id} className="flex items-center">
+                            <span className="flex-1 font-mono text-xs truncate">{file.path}</span>
+                            <select
+                              value={mergePosition(file.id)}
+                              onChange={(e) => setMergePosition(file.id, e.target.value)}
+                              className="ml-2 px-2 py-0.5 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+                            >
+                              <option value="">Not merged</option>
+                              <option value="before">Before the document</option>
+                              <option value="after">After the document</option>
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {activeTab === "sharing" && (
             <>
               <div className="mb-4">
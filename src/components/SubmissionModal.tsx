@@ -0,0 +1,208 @@
+// components/SubmissionModal.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Loader, CheckCircle, AlertCircle, AlertTriangle, Download, RefreshCw } from "lucide-react";
+import type { SubmissionReport } from "@/utils/submissionBundle";
+
+interface SubmissionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  // The open file's buffer, which may be ahead of Firestore
+  fileId: string | null;
+  latex: string;
+}
+
+interface SubmissionResponse {
+  success: boolean;
+  error?: string;
+  errors?: string[];
+  fileName?: string;
+  zipData?: string;
+  files?: string[];
+  report?: SubmissionReport;
+  check?: { success: boolean; errors: string[] };
+}
+
+export default function SubmissionModal({ isOpen, onClose, projectId, fileId, latex }: SubmissionModalProps) {
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [result, setResult] = useState<SubmissionResponse | null>(null);
+  // Journals that take a single file want the bibliography inside the .tex
+  const [inlineBbl, setInlineBbl] = useState(false);
+
+  const prepareSubmission = async (inline = inlineBbl) => {
+    setIsPreparing(true);
+    setResult(null);
+    try {
+      const response = await fetch("/api/submission", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ projectId, fileId, latex, inlineBbl: inline })
+      });
+      setResult(await response.json());
+    } catch (error) {
+      console.error("Error preparing submission:", error);
+      setResult({ success: false, error: error instanceof Error ? error.message : "Failed to prepare the submission" });
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  // Prepare a fresh bundle every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      prepareSubmission();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleDownload = () => {
+    if (!result?.zipData) return;
+    const link = document.createElement("a");
+    link.href = `data:application/zip;base64,${result.zipData}`;
+    link.download = result.fileName || "submission.zip";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const report = result?.report;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg w-full max-w-2xl p-0 shadow-xl flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-800">Prepare Submission</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto text-sm text-gray-700 space-y-4">
+          {isPreparing && (
+            <div className="flex items-center text-gray-600">
+              <Loader className="h-4 w-4 mr-2 animate-spin" />
+              Flattening the project, compiling it and checking that the bundle builds on its own...
+            </div>
+          )}
+
+          {result && !result.success && (
+            <div className="bg-red-50 border border-red-200 rounded p-3">
+              <div className="flex items-center text-red-700 font-medium">
+                <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                {result.error || "Failed to prepare the submission"}
+              </div>
+              {result.errors && result.errors.length > 0 && (
+                <ul className="mt-2 ml-6 list-disc text-xs text-red-700 font-mono space-y-0.5">
+                  {result.errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {result?.success && report && (
+            <>
+              {result.check?.success ? (
+                <div className="flex items-center bg-green-50 border border-green-200 rounded p-3 text-green-700">
+                  <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                  The bundle compiles on its own.
+                </div>
+              ) : (
+                <div className="bg-red-50 border border-red-200 rounded p-3">
+                  <div className="flex items-center text-red-700 font-medium">
+                    <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                    The bundle does not compile on its own
+                  </div>
+                  <ul className="mt-2 ml-6 list-disc text-xs text-red-700 font-mono space-y-0.5">
+                    {(result.check?.errors || []).map((error, index) => <li key={index}>{error}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              {report.warnings.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded p-3">
+                  {report.warnings.map((warning, index) => (
+                    <div key={index} className="flex items-start text-amber-800 text-xs">
+                      <AlertTriangle className="h-3.5 w-3.5 mr-2 mt-0.5 flex-shrink-0" />
+                      {warning}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+                  Bundle ({result.files?.length || 0} files)
+                </h3>
+                <p className="text-xs text-gray-600">
+                  {report.mainFile} with comments removed
+                  {report.inlined.length > 0 && `, ${report.inlined.length} file${report.inlined.length === 1 ? '' : 's'} inlined`}
+                  {report.bblIncluded ? (report.bblInlined ? ', bibliography inlined' : ', bibliography as a .bbl') : ''}
+                </p>
+                <ul className="mt-1 text-xs font-mono text-gray-700 space-y-0.5">
+                  {(result.files || []).map(path => <li key={path}>{path}</li>)}
+                </ul>
+              </div>
+
+              {report.removed.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+                    Removed ({report.removed.length})
+                  </h3>
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {report.removed.map(({ path, reason }) => (
+                        <tr key={path} className="border-b border-gray-100">
+                          <td className="py-0.5 pr-3 font-mono text-gray-700">{path}</td>
+                          <td className="py-0.5 text-gray-500">{reason}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end items-center space-x-3 p-4 border-t border-gray-200">
+          <label className="mr-auto flex items-center text-sm text-gray-700 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={inlineBbl}
+              disabled={isPreparing}
+              onChange={(e) => {
+                setInlineBbl(e.target.checked);
+                prepareSubmission(e.target.checked);
+              }}
+              className="mr-2 h-4 w-4 rounded border-gray-300 text-teal-600 focus:ring-teal-500"
+            />
+            Bibliography inside the .tex
+          </label>
+          <button
+            onClick={() => prepareSubmission()}
+            disabled={isPreparing}
+            className="flex items-center px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 disabled:opacity-50"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Prepare again
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={isPreparing || !result?.zipData}
+            className="flex items-center px-4 py-2 text-sm bg-teal-600 text-white rounded-md hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download ZIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 // components/SuggestionOverlay.tsx
 import React, { useState, useEffect, useMemo } from 'react';
-import { Check, X, ChevronUp, ChevronDown, Edit, AlertTriangle, Copy, Loader } from 'lucide-react';
+import { Check, X, ChevronUp, ChevronDown, Edit, AlertTriangle, Copy, Loader, Hammer, CheckCircle2, XCircle } from 'lucide-react';
 import ReactDiffViewer, { DiffMethod } from 'react-diff-viewer-continued';
 import { applyPatch, parsePatch } from 'diff';
 import { EditorView } from '@codemirror/view';
+import PdfViewer from './PdfViewer';
+import type { SuggestionVerification } from '@/services/suggestionVerificationService';
 
 interface SearchReplaceBlock {
   search: string;
@@ -24,6 +26,10 @@ interface SuggestionOverlayProps {
   onReject: () => void;
   editorView?: EditorView | null;
   fileName?: string;
+  // Optional compile check of the suggested version
+  onVerify?: () => void;
+  isVerifying?: boolean;
+  verification?: SuggestionVerification | null;
 }
 
 
@@ -121,9 +127,12 @@ const SuggestionOverlay: React.FC<SuggestionOverlayProps> = ({
   onReject,
   editorView,
   fileName,
+  onVerify,
+  isVerifying = false,
+  verification = null,
 }) => {
-  // Local state for view toggle: explanation vs. changes (diff or search/replace)
-  const [viewMode, setViewMode] = useState<'explanation' | 'changes'>('changes'); // Default to changes view
+  // Local state for view toggle: explanation vs. changes (diff or search/replace), or the checked PDF
+  const [viewMode, setViewMode] = useState<'explanation' | 'changes' | 'preview'>('changes'); // Default to changes view
   const [isExpanded, setIsExpanded] = useState(true);
   const [simulatedContent, setSimulatedContent] = useState<string | null>(null);
   const [simulationError, setSimulationError] = useState<string | null>(null);
@@ -369,6 +378,15 @@ const SuggestionOverlay: React.FC<SuggestionOverlayProps> = ({
             </span>
           </div>
           <div className="flex items-center space-x-2">
+            {verification?.pdfData && (
+              <button
+                onClick={() => setViewMode(viewMode === 'preview' ? 'changes' : 'preview')}
+                className="p-1.5 text-gray-400 hover:text-gray-200 rounded text-xs px-2 bg-gray-700 hover:bg-gray-600"
+                title={viewMode === 'preview' ? 'Show changes' : 'Show the PDF of the suggested version'}
+              >
+                {viewMode === 'preview' ? 'Changes' : 'PDF'}
+              </button>
+            )}
             <button
               onClick={() =>
                 setViewMode(viewMode === 'explanation' ? 'changes' : 'explanation')
@@ -419,8 +437,30 @@ const SuggestionOverlay: React.FC<SuggestionOverlayProps> = ({
                )}
               {explanation}
             </div>
+          ) : viewMode === 'preview' && verification?.pdfData ? (
+            <div className="h-[60vh] bg-gray-100 rounded overflow-hidden">
+              <PdfViewer
+                pdfData={verification.pdfData}
+                isLoading={false}
+                error={null}
+                documentTitle={fileName ? `${fileName} (suggested)` : 'suggested'}
+                hideToolbar
+              />
+            </div>
           ) : (
-            <div>{changesView}</div>
+            <div>
+              {verification && verification.newErrors.length > 0 && (
+                <div className="mb-3 p-3 text-amber-200 bg-amber-900/20 border border-amber-700/50 rounded text-xs">
+                  <strong className="block mb-1">New compile errors in the suggested version:</strong>
+                  <ul className="list-disc pl-4 space-y-0.5 font-mono">
+                    {verification.newErrors.map((error, index) => (
+                      <li key={index}>{error.message}{error.line ? ` (${error.file || fileName || 'line'}:${error.line})` : ''}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {changesView}
+            </div>
           )}
         </div>
 
@@ -430,6 +470,35 @@ const SuggestionOverlay: React.FC<SuggestionOverlayProps> = ({
             isExpanded ? '' : 'hidden'
           }`}
         >
+          {/* Compile check: result badge, or the button that runs it */}
+          {onVerify && (
+            <div className="mr-auto flex items-center space-x-3">
+              <button
+                onClick={onVerify}
+                disabled={isVerifying || isLoadingFallback || !!validationError || (mode === 'diff' && simulationError !== null)}
+                className="px-3 py-2 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 text-sm flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Compile the project with this suggestion applied"
+              >
+                {isVerifying ? <Loader className="h-4 w-4 mr-1.5 animate-spin" /> : <Hammer className="h-4 w-4 mr-1.5" />}
+                {isVerifying ? 'Compiling...' : verification ? 'Check again' : 'Check compile'}
+              </button>
+              {verification && !isVerifying && (
+                <span
+                  className={`flex items-center text-sm ${
+                    verification.status === 'compiles' ? 'text-green-400' :
+                    verification.status === 'fails' ? 'text-gray-400' : 'text-amber-400'
+                  }`}
+                >
+                  {verification.status === 'compiles'
+                    ? <CheckCircle2 className="h-4 w-4 mr-1" />
+                    : verification.status === 'fails'
+                      ? <XCircle className="h-4 w-4 mr-1" />
+                      : <AlertTriangle className="h-4 w-4 mr-1" />}
+                  {verification.summary}
+                </span>
+              )}
+            </div>
+          )}
           <button
             onClick={onReject}
             className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-500 text-sm flex items-center"
@@ -0,0 +1,100 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { DocumentWordCount, WordCountTotals, totalWords } from '@/utils/wordCount';
+
+interface WordCountButtonProps {
+  statistics: DocumentWordCount | null;
+}
+
+const formatNumber = (value: number): string => value.toLocaleString();
+
+const HEADER_LEVELS = ['part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+
+const BREAKDOWN: { key: keyof WordCountTotals; label: string }[] = [
+  { key: 'textWords', label: 'Words in text' },
+  { key: 'headerWords', label: 'Words in headers' },
+  { key: 'captionWords', label: 'Words in captions' },
+  { key: 'footnoteWords', label: 'Words in footnotes' },
+  { key: 'headers', label: 'Headers' },
+  { key: 'floats', label: 'Figures and tables' },
+  { key: 'inlineMath', label: 'Inline math' },
+  { key: 'displayMath', label: 'Displayed math' }
+];
+
+const WordCountButton: React.FC<WordCountButtonProps> = ({ statistics }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  if (!statistics) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center px-2 py-1 text-xs text-gray-600 rounded-md hover:bg-gray-100"
+        title="Word Count"
+      >
+        {formatNumber(statistics.words)} words
+        <ChevronDown className="h-3 w-3 ml-1" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-96 max-h-[70vh] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-30 text-xs">
+          <table className="w-full">
+            <tbody>
+              {BREAKDOWN.map(({ key, label }) => (
+                <tr key={key} className="border-b border-gray-100">
+                  <td className="px-3 py-1 text-gray-600">{label}</td>
+                  <td className="px-3 py-1 text-right text-gray-800 tabular-nums">{formatNumber(statistics.counts[key])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {statistics.files.map(file => {
+            // Indent headings below the file's top level
+            const topLevel = Math.min(...file.sections.filter(section => section.level).map(section => HEADER_LEVELS.indexOf(section.level)));
+            return (
+              <div key={file.path} className="border-t border-gray-200">
+                <div className="flex justify-between px-3 py-1.5 bg-gray-50 font-medium text-gray-700">
+                  <span className="font-mono truncate">{file.path}</span>
+                  <span className="tabular-nums">{formatNumber(totalWords(file.counts))}</span>
+                </div>
+                {file.sections.map((section, index) => (
+                  <div
+                    key={index}
+                    className="flex justify-between px-3 py-0.5 text-gray-600"
+                    title={`Line ${section.line}: ${section.counts.textWords} text, ${section.counts.headerWords} header, ${section.counts.captionWords} caption, ${section.counts.footnoteWords} footnote words`}
+                  >
+                    <span
+                      className="truncate"
+                      style={{ paddingLeft: section.level ? (HEADER_LEVELS.indexOf(section.level) - topLevel) * 8 : 0 }}
+                    >
+                      {section.level ? section.title || `(untitled ${section.level})` : '(before the first heading)'}
+                    </span>
+                    <span className="tabular-nums ml-2">{formatNumber(totalWords(section.counts))}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WordCountButton;
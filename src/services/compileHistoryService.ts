@@ -0,0 +1,259 @@
+// services/compileHistoryService.ts
+// Keeps the PDF of every successful compile with its metadata, so earlier outputs can be reopened,
+// downloaded and compared after a reload
+
+import { PDFDocument } from 'pdf-lib';
+import {
+  collection,
+  addDoc,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp
+} from 'firebase/firestore';
+import { ref, uploadString, getDownloadURL, deleteObject } from 'firebase/storage';
+import { db, storage } from '@/lib/firebase';
+import type { CompileDiagnostics, LatexEngine } from './latexService';
+
+// Older entries are deleted when a compile is stored beyond this many
+export const MAX_COMPILE_HISTORY = 20;
+
+// Stand-in for Firebase Storage when the bucket is not configured or rejects the upload
+const LOCAL_DB_NAME = 'compile-history';
+const LOCAL_STORE_NAME = 'pdfs';
+
+export interface CompileLogSummary {
+  errors: number;
+  warnings: number;
+  badBoxes: number;
+  // First warning, for the history list
+  firstWarning?: string;
+}
+
+export interface CompileArtifact {
+  id: string;
+  projectId: string;
+  createdAt: Date | null;
+  // SHA-256 of the project sources the PDF was built from
+  sourceHash: string;
+  engine: LatexEngine | null;
+  pageCount: number;
+  size: number;
+  // File the compile was started from
+  fileName: string | null;
+  logSummary: CompileLogSummary;
+  // 'storage' artifacts live in Firebase Storage, 'local' ones in this browser's IndexedDB
+  location: 'storage' | 'local';
+  storagePath: string | null;
+  downloadURL: string | null;
+}
+
+export interface CompileArtifactMetadata {
+  sources: { path: string; content: string }[];
+  engine?: LatexEngine;
+  fileName?: string | null;
+  diagnostics?: CompileDiagnostics;
+}
+
+const historyCollection = (projectId: string) => collection(db, 'projects', projectId, 'compiles');
+
+const base64FromDataUrl = (pdfData: string): string =>
+  pdfData.startsWith('data:') ? pdfData.slice(pdfData.indexOf(',') + 1) : pdfData;
+
+const bytesFromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const base64FromBytes = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Hash of the sources a compile used, independent of file order. Equal hashes mean the
+ * same input, so a history entry can tell whether the sources changed since.
+ */
+export async function hashProjectSources(sources: { path: string; content: string }[]): Promise<string> {
+  const snapshot = [...sources]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(source => `${source.path}\u0000${source.content}`)
+    .join('\u0000\u0000');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(snapshot));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Page objects are often inside compressed object streams, so the PDF is parsed rather than scanned
+async function countPages(bytes: Uint8Array): Promise<number> {
+  try {
+    const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+    return pdf.getPageCount();
+  } catch (error) {
+    console.warn('Could not count PDF pages:', error);
+    return 0;
+  }
+}
+
+export const summarizeCompileLog = (diagnostics?: CompileDiagnostics): CompileLogSummary => {
+  const warnings = diagnostics?.warnings || [];
+  const badBoxes = warnings.filter(warning => warning.type === 'bad-box').length;
+  const firstWarning = warnings.find(warning => warning.type !== 'bad-box')?.message;
+  return {
+    errors: diagnostics?.errors.length || 0,
+    warnings: warnings.length - badBoxes,
+    badBoxes,
+    ...(firstWarning ? { firstWarning } : {})
+  };
+};
+
+// --- IndexedDB stand-in ---
+
+const openLocalStore = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(LOCAL_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(LOCAL_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function withLocalStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const database = await openLocalStore();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(database.transaction(LOCAL_STORE_NAME, mode).objectStore(LOCAL_STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+// --- History ---
+
+/**
+ * Store a successful compile's PDF and metadata. The PDF goes to Firebase Storage under
+ * projects/{projectId}/compiles/, or to IndexedDB when the upload fails. When the latest entry
+ * was built from the same sources with the same engine, that entry is returned and nothing is stored.
+ */
+export async function saveCompileArtifact(
+  projectId: string,
+  pdfData: string,
+  metadata: CompileArtifactMetadata
+): Promise<CompileArtifact> {
+  const sourceHash = await hashProjectSources(metadata.sources);
+  // Rebuilding unchanged sources (a render cache hit, say) would only push older entries out
+  const [latest] = await listCompileArtifacts(projectId, 1).catch(error => {
+    console.warn('Could not read the latest compile:', error);
+    return [];
+  });
+  if (latest && latest.sourceHash === sourceHash && latest.engine === (metadata.engine || null)) {
+    return latest;
+  }
+
+  const base64 = base64FromDataUrl(pdfData);
+  const bytes = bytesFromBase64(base64);
+  const pageCount = await countPages(bytes);
+
+  const storagePath = `projects/${projectId}/compiles/${Date.now()}-${sourceHash.slice(0, 12)}.pdf`;
+  let location: CompileArtifact['location'] = 'storage';
+  let downloadURL: string | null = null;
+  try {
+    const storageRef = ref(storage, storagePath);
+    await uploadString(storageRef, base64, 'base64', { contentType: 'application/pdf' });
+    downloadURL = await getDownloadURL(storageRef);
+  } catch (error) {
+    console.warn('Storing compiled PDF in this browser, Firebase Storage upload failed:', error);
+    location = 'local';
+    await withLocalStore('readwrite', store => store.put(base64, storagePath));
+  }
+
+  const entry = {
+    projectId,
+    createdAt: serverTimestamp(),
+    sourceHash,
+    engine: metadata.engine || null,
+    pageCount,
+    size: bytes.length,
+    fileName: metadata.fileName || null,
+    logSummary: summarizeCompileLog(metadata.diagnostics),
+    location,
+    storagePath,
+    downloadURL
+  };
+  const docRef = await addDoc(historyCollection(projectId), entry);
+  console.log(`Stored compile ${docRef.id} (${pageCount} pages, ${location})`);
+
+  pruneCompileHistory(projectId).catch(error => console.error('Error pruning compile history:', error));
+  return { ...entry, id: docRef.id, createdAt: new Date() };
+}
+
+// Newest first
+export async function listCompileArtifacts(projectId: string, max = MAX_COMPILE_HISTORY): Promise<CompileArtifact[]> {
+  const snapshot = await getDocs(query(historyCollection(projectId), orderBy('createdAt', 'desc'), limit(max)));
+  return snapshot.docs.map(entry => {
+    const data = entry.data();
+    return {
+      id: entry.id,
+      projectId,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : null,
+      sourceHash: data.sourceHash || '',
+      engine: data.engine || null,
+      pageCount: data.pageCount || 0,
+      size: data.size || 0,
+      fileName: data.fileName || null,
+      logSummary: data.logSummary || { errors: 0, warnings: 0, badBoxes: 0 },
+      location: data.location === 'local' ? 'local' : 'storage',
+      storagePath: data.storagePath || null,
+      downloadURL: data.downloadURL || null
+    };
+  });
+}
+
+/**
+ * The stored PDF as a data URL, the form PdfViewer takes.
+ */
+export async function loadCompileArtifactPdf(artifact: CompileArtifact): Promise<string> {
+  if (artifact.location === 'local') {
+    const base64 = artifact.storagePath
+      ? await withLocalStore<string | undefined>('readonly', store => store.get(artifact.storagePath!))
+      : undefined;
+    if (!base64) throw new Error('This PDF was stored in another browser');
+    return `data:application/pdf;base64,${base64}`;
+  }
+
+  if (!artifact.downloadURL) throw new Error('The stored PDF has no download URL');
+  const response = await fetch(artifact.downloadURL);
+  if (!response.ok) throw new Error(`Failed to download the stored PDF: ${response.status} ${response.statusText}`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  return `data:application/pdf;base64,${base64FromBytes(bytes)}`;
+}
+
+export async function deleteCompileArtifact(artifact: CompileArtifact): Promise<void> {
+  if (artifact.storagePath) {
+    try {
+      if (artifact.location === 'local') {
+        await withLocalStore('readwrite', store => store.delete(artifact.storagePath!));
+      } else {
+        await deleteObject(ref(storage, artifact.storagePath));
+      }
+    } catch (error) {
+      // The entry goes either way; an orphaned file is harmless
+      console.warn(`Could not delete stored PDF ${artifact.storagePath}:`, error);
+    }
+  }
+  await deleteDoc(doc(db, 'projects', artifact.projectId, 'compiles', artifact.id));
+}
+
+async function pruneCompileHistory(projectId: string): Promise<void> {
+  const artifacts = await listCompileArtifacts(projectId, MAX_COMPILE_HISTORY + 10);
+  await Promise.all(artifacts.slice(MAX_COMPILE_HISTORY).map(deleteCompileArtifact));
+}
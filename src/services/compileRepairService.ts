@@ -0,0 +1,200 @@
+// services/compileRepairService.ts
+// "Fix with AI": feeds compile errors and the source around them to the edit model, applies the
+// returned patch to a copy of the file, recompiles, and repeats until the document builds
+
+import OpenAIService from './openai';
+import { CompileDiagnostic, CompileResult, LatexEngine, compileLatex } from './latexService';
+import { diagnosticMatchesFile } from '@/utils/compileDiagnostics';
+import { applyUnifiedDiffPatchesToText, createUnifiedDiffHunks } from '@/utils/editorUtils';
+
+export const DEFAULT_REPAIR_ATTEMPTS = 3;
+export const MAX_REPAIR_ATTEMPTS = 6;
+
+// Lines of source shown on each side of an error
+const CONTEXT_LINES = 5;
+// Errors after the first few are usually consequences of them
+const MAX_ERRORS_PER_ATTEMPT = 8;
+
+export const normalizeRepairAttempts = (value: unknown): number =>
+  typeof value === 'number' && Number.isInteger(value)
+    ? Math.min(Math.max(value, 1), MAX_REPAIR_ATTEMPTS)
+    : DEFAULT_REPAIR_ATTEMPTS;
+
+export interface CompileRepairAttempt {
+  attempt: number;
+  errors: CompileDiagnostic[];
+  // Set when the model's patch could not be produced or applied
+  failure?: string;
+  compiled?: boolean;
+}
+
+export interface CompileRepairOptions {
+  projectId: string;
+  fileId: string | null;
+  // Project-relative path of the file being repaired, matched against diagnostic paths
+  filePath: string;
+  engine?: LatexEngine;
+  model?: string;
+  maxAttempts?: number;
+  onAttempt?: (attempt: CompileRepairAttempt) => void;
+  signal?: AbortSignal;
+}
+
+export interface CompileRepairResult {
+  // Whether the proposed content compiles
+  success: boolean;
+  originalContent: string;
+  proposedContent: string;
+  // Unified diff from the original to the proposed content, ready for SuggestionOverlay
+  diffHunks: string[];
+  attempts: CompileRepairAttempt[];
+  // Errors the last compile still reported
+  remainingErrors: CompileDiagnostic[];
+  error?: string;
+}
+
+// Errors the model can act on: the ones in this file, plus those TeX could not place
+export const repairableErrors = (errors: CompileDiagnostic[], filePath: string): CompileDiagnostic[] =>
+  errors.filter(error => !error.file || diagnosticMatchesFile(error, filePath));
+
+const numberedRegion = (lines: string[], center: number): string => {
+  const start = Math.max(1, center - CONTEXT_LINES);
+  const end = Math.min(lines.length, center + CONTEXT_LINES);
+  const width = String(end).length;
+  return lines
+    .slice(start - 1, end)
+    .map((text, index) => `${String(start + index).padStart(width)}${start + index === center ? '>' : ' '} ${text}`)
+    .join('\n');
+};
+
+/**
+ * The instruction sent to /api/openai-edit for one repair attempt: the errors with the numbered
+ * source around each one, then the whole file so the diff context lines can match exactly.
+ */
+export const buildCompileRepairPrompt = (
+  content: string,
+  filePath: string,
+  errors: CompileDiagnostic[],
+  previousFailure?: string
+): string => {
+  const lines = content.split('\n');
+  const errorSections = errors.slice(0, MAX_ERRORS_PER_ATTEMPT).map((error, index) => {
+    const location = error.line ? `line ${error.line}` : 'unknown line';
+    const details = [error.message, error.context ? `TeX stopped at: ${error.context}` : '']
+      .filter(Boolean)
+      .join('\n');
+    const region = error.line && error.line <= lines.length ? `\n${numberedRegion(lines, error.line)}` : '';
+    return `${index + 1}. ${error.file || filePath}, ${location}\n${details}${region}`;
+  });
+
+  return [
+    `The LaTeX file ${filePath} fails to compile. Fix the compilation errors below with the smallest change that makes the document build.`,
+    'Do not rewrite content that is unrelated to the errors. If a command or environment comes from a package that is not loaded, load it in the preamble.',
+    previousFailure ? `Your previous fix did not work: ${previousFailure}` : '',
+    `Compilation errors:\n\n${errorSections.join('\n\n')}`,
+    `Full content of ${filePath}:\n\`\`\`latex\n${content}\n\`\`\``
+  ].filter(Boolean).join('\n\n');
+};
+
+const errorsFromResult = (result: CompileResult): CompileDiagnostic[] => {
+  if (result.diagnostics?.errors.length) return result.diagnostics.errors;
+  return [{ severity: 'error', type: 'error', message: result.error || 'Compilation failed', file: null, line: null }];
+};
+
+/**
+ * Ask the model for patches until the file compiles or the attempts run out. Nothing is written to
+ * the project: each candidate is compiled as the open file's unsaved buffer, and the result is a
+ * diff from the original for the user to approve.
+ */
+export async function repairCompileErrors(
+  content: string,
+  errors: CompileDiagnostic[],
+  options: CompileRepairOptions
+): Promise<CompileRepairResult> {
+  const maxAttempts = normalizeRepairAttempts(options.maxAttempts);
+  const openai = OpenAIService.getInstance();
+  const attempts: CompileRepairAttempt[] = [];
+  let currentContent = content;
+  let currentErrors = repairableErrors(errors, options.filePath);
+  let previousFailure: string | undefined;
+  let success = false;
+
+  const finish = (error?: string): CompileRepairResult => ({
+    success,
+    originalContent: content,
+    proposedContent: currentContent,
+    diffHunks: createUnifiedDiffHunks(options.filePath, content, currentContent),
+    attempts,
+    remainingErrors: success ? [] : currentErrors,
+    error
+  });
+
+  if (currentErrors.length === 0) {
+    return finish(`None of the errors are in ${options.filePath}`);
+  }
+
+  for (let attemptNumber = 1; attemptNumber <= maxAttempts; attemptNumber++) {
+    if (options.signal?.aborted) return finish('Cancelled');
+    const attempt: CompileRepairAttempt = { attempt: attemptNumber, errors: currentErrors };
+    attempts.push(attempt);
+
+    try {
+      const response = await openai.callBackendApi('/api/openai-edit', {
+        model: options.model || 'gpt-4o',
+        messages: [{ role: 'user', content: buildCompileRepairPrompt(currentContent, options.filePath, currentErrors, previousFailure) }]
+      });
+      const hunks = response.edits || [];
+      if (hunks.length === 0) {
+        attempt.failure = 'The model proposed no changes';
+        options.onAttempt?.(attempt);
+        break;
+      }
+
+      // Dry run: the patch goes onto a copy, never into the editor
+      const patched = applyUnifiedDiffPatchesToText(currentContent, hunks);
+      if (!patched.success || patched.finalContent === undefined) {
+        attempt.failure = patched.error || 'The patch did not apply';
+        previousFailure = `the diff did not apply to the file (${attempt.failure}). Copy context lines exactly.`;
+        options.onAttempt?.(attempt);
+        continue;
+      }
+      currentContent = patched.finalContent;
+    } catch (error) {
+      attempt.failure = error instanceof Error ? error.message : 'The model request failed';
+      options.onAttempt?.(attempt);
+      break;
+    }
+
+    const result = await compileLatex(currentContent, options.projectId, {
+      fileId: options.fileId,
+      engine: options.engine,
+      signal: options.signal
+    });
+    if (result.cancelled) return finish('Cancelled');
+
+    // The browser preview fallback means the render server built nothing, so the fix is unchecked
+    if (result.success && (!result.pdfData || result.browserFallback)) {
+      attempt.failure = result.message || 'The render server did not build a PDF';
+      options.onAttempt?.(attempt);
+      return finish(`Could not check the fix: ${attempt.failure}`);
+    }
+
+    attempt.compiled = result.success;
+    options.onAttempt?.(attempt);
+    if (result.success) {
+      success = true;
+      break;
+    }
+
+    const nextErrors = repairableErrors(errorsFromResult(result), options.filePath);
+    previousFailure = 'the document still fails to compile with the errors listed.';
+    if (nextErrors.length === 0) {
+      // What is left is in other files; this file's part is done
+      currentErrors = errorsFromResult(result);
+      return finish('The remaining errors are in other files');
+    }
+    currentErrors = nextErrors;
+  }
+
+  return finish(success ? undefined : `Still failing after ${attempts.length} ${attempts.length === 1 ? 'attempt' : 'attempts'}`);
+}
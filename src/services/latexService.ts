@@ -1,6 +1,8 @@
 // services/latexService.ts
 // Enhanced LaTeX service with server-side rendering
 
+import { readServerSentEvents } from '@/utils/serverSentEvents';
+
 // Define the API URL for the LaTeX rendering server
 const LATEX_SERVER_URL = process.env.LATEX_SERVER_URL || 'http://localhost:3001';
 const API_KEY = process.env.LATEX_API_KEY || 'ewZolV1dblxUYDjTrLXyqFkipvSNRM0vKP1H03gjM3JUIKhGuxb6x26CqaOHAjyGbtL95LM9gQPJ4TSa1LI4RlkgMATbXAj0fOTmgdFupwHULRJhTNHzQcCyw6engs4e';
@@ -23,55 +25,202 @@ interface CompilationResult {
 // services/latexService.ts
 // Updated to better handle PDF data
 
-export async function compileLatex(code: string, projectId: string): Promise<{
+// TeX engines the render server can compile with
+export type LatexEngine = 'pdflatex' | 'xelatex' | 'lualatex';
+
+export const DEFAULT_LATEX_ENGINE: LatexEngine = 'pdflatex';
+
+export const LATEX_ENGINES: { value: LatexEngine; label: string; description: string }[] = [
+  { value: 'pdflatex', label: 'pdfLaTeX', description: 'Fastest, best for classic documents and most templates' },
+  { value: 'xelatex', label: 'XeLaTeX', description: 'Unicode input and system fonts via fontspec' },
+  { value: 'lualatex', label: 'LuaLaTeX', description: 'Unicode, fontspec and Lua scripting' }
+];
+
+export const isLatexEngine = (value: unknown): value is LatexEngine =>
+  LATEX_ENGINES.some(engine => engine.value === value);
+
+// Programs a project can let \write18 run. Shell escape is off unless some are enabled,
+// and the render server only honours the ones it allows itself
+export const SHELL_ESCAPE_COMMANDS: { value: string; label: string; description: string }[] = [
+  { value: 'makeindex', label: 'makeindex', description: 'Indexes built from inside the document (imakeidx)' },
+  { value: 'epstopdf', label: 'epstopdf', description: 'Convert EPS figures on the fly' },
+  { value: 'repstopdf', label: 'repstopdf', description: 'Restricted EPS conversion used by graphicx' },
+  { value: 'extractbb', label: 'extractbb', description: 'Bounding boxes for images' },
+  { value: 'kpsewhich', label: 'kpsewhich', description: 'Look up TeX files from packages' },
+  { value: 'pygmentize', label: 'pygmentize', description: 'Syntax highlighting with minted (must be enabled on the server)' },
+  { value: 'gnuplot', label: 'gnuplot', description: 'Plots with gnuplottex or pgfplots (must be enabled on the server)' }
+];
+
+export const normalizeShellEscapeCommands = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((command): command is string => typeof command === 'string' && /^[A-Za-z0-9_.-]+$/.test(command))))
+    : [];
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// What the editor can do about a missing package: load it, or upload the style file
+export type CompileFix =
+  | { action: 'add-package'; package: string }
+  | { action: 'upload-file'; fileName: string };
+
+// A single log entry from the render server, mapped to a project-relative file and line
+export interface CompileDiagnostic {
+  severity: DiagnosticSeverity;
+  type: string;
+  message: string;
+  file: string | null;
+  line: number | null;
+  context?: string;
+  package?: string;
+  // The undefined command, without its backslash
+  command?: string;
+  fix?: CompileFix;
+}
+
+export interface CompileDiagnostics {
+  errors: CompileDiagnostic[];
+  warnings: CompileDiagnostic[];
+  info: CompileDiagnostic[];
+}
+
+// Output the render server can produce; PNG and SVG are one image per page
+export type CompileFormat = 'pdf' | 'png' | 'svg' | 'html';
+
+export const COMPILE_FORMATS: CompileFormat[] = ['pdf', 'png', 'svg', 'html'];
+
+export const isCompileFormat = (value: unknown): value is CompileFormat =>
+  COMPILE_FORMATS.includes(value as CompileFormat);
+
+// Which pages to render for PNG and SVG output, and the PNG resolution
+export interface PageImageOptions {
+  dpi?: number;
+  firstPage?: number;
+  lastPage?: number;
+}
+
+// One rendered page as a data URL
+export interface CompiledPage {
+  page: number;
+  data: string;
+}
+
+export interface CompileOptions {
+  // File currently open in the editor; its unsaved buffer replaces the stored copy
+  fileId?: string | null;
+  // Overrides the project's configured engine for this compile
+  engine?: LatexEngine;
+  // Render server job id, so the compile can be cancelled while it runs
+  jobId?: string;
+  // Aborts the request when a newer compile supersedes this one
+  signal?: AbortSignal;
+  // Defaults to 'pdf'
+  format?: CompileFormat;
+  imageOptions?: PageImageOptions;
+}
+
+// Progress reported while a streamed compile runs
+export type CompileStage =
+  | { stage: 'queued'; queuePosition: number }
+  | { stage: 'engine'; pass: number; engine: LatexEngine }
+  | { stage: 'bibliography'; backend: 'bibtex' | 'biber' }
+  | { stage: 'images'; count: number }
+  | { stage: 'converting'; format: CompileFormat }
+  | { stage: 'done' };
+
+export interface CompileResult {
   success: boolean;
+  format?: CompileFormat;
   pdfData?: string;
+  // Requested pages for PNG and SVG output, and how many pages the document has
+  pages?: CompiledPage[];
+  pageCount?: number;
+  // Self-contained HTML for HTML output
+  html?: string;
   htmlPreview?: string;
   error?: string;
-}> {
-  try {
-    console.log(`Compiling LaTeX with projectId: ${projectId}`);
-    
-    // First, let's modify the LaTeX code to properly handle images
-    let processedCode = code;
-    
-    // Ensure graphicx package is included if the document uses images
-    if (!processedCode.includes('\\usepackage{graphicx}') && 
-        !processedCode.includes('\\usepackage[pdftex]{graphicx}')) {
-      // If documentclass exists, add graphicx package after it
-      if (processedCode.includes('\\documentclass')) {
-        processedCode = processedCode.replace(
-          /(\\documentclass.*?\})/,
-          '$1\n\\usepackage[pdftex]{graphicx}'
-        );
-        console.log("Added graphicx package to LaTeX content");
-      }
+  diagnostics?: CompileDiagnostics;
+  // Gzipped, base64 encoded SyncTeX data with project-relative input paths
+  synctex?: string | null;
+  jobId?: string;
+  // Set when the compile was cancelled before it finished
+  cancelled?: boolean;
+  // Set when the render server built nothing and only the browser's HTML preview came back;
+  // `message` then says why
+  browserFallback?: boolean;
+  message?: string;
+}
+
+// Job ids the render server accepts: 8-64 letters, digits, dashes or underscores
+export const createCompileJobId = (): string =>
+  `compile-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Turn the API route's status and JSON body into a compile result
+function toCompileResult(status: number, statusText: string, result: CompileResult | null): CompileResult {
+  if (status < 200 || status >= 300) {
+    // LaTeX errors come back as JSON with diagnostics
+    if (result?.cancelled) {
+      return {
+        success: false,
+        cancelled: true,
+        jobId: result.jobId,
+        error: result.error || 'Compilation cancelled',
+      };
     }
-    
-    // Add graphicspath to help LaTeX find images in different folders
-    if (!processedCode.includes('\\graphicspath')) {
-      // Create a graphicspath command that includes multiple possible locations
-      const graphicsPathCmd = '\\graphicspath{{./}{./images/}{.}}\n';
-      
-      // Add after documentclass and packages but before begin document
-      if (processedCode.includes('\\begin{document}')) {
-        processedCode = processedCode.replace(
-          /(\\begin\{document\})/,
-          `${graphicsPathCmd}$1`
-        );
-      } else {
-        // If no begin document, add at the beginning
-        processedCode = graphicsPathCmd + processedCode;
-      }
-      
-      console.log("Added graphicspath command to LaTeX content");
+    if (result?.diagnostics) {
+      return {
+        success: false,
+        error: result.error || 'LaTeX compilation failed',
+        diagnostics: result.diagnostics,
+        jobId: result.jobId,
+      };
     }
+
+    return {
+      success: false,
+      error: `Compilation failed: ${status} ${statusText}`,
+    };
+  }
+
+  if (!result?.success) {
+    return {
+      success: false,
+      error: result?.error || 'Unknown error during compilation',
+      diagnostics: result?.diagnostics,
+    };
+  }
+
+  return {
+    success: true,
+    format: result.format,
+    pdfData: result.pdfData,
+    pages: result.pages,
+    pageCount: result.pageCount,
+    html: result.html,
+    htmlPreview: result.htmlPreview,
+    diagnostics: result.diagnostics,
+    synctex: result.synctex,
+    jobId: result.jobId,
+    browserFallback: result.browserFallback,
+    message: result.message,
+  };
+}
+
+/**
+ * Compile the project. Passing `onStage` or `onLog` streams progress from the render server
+ * while the build runs; the result is the same either way.
+ */
+export async function compileLatex(
+  code: string,
+  projectId: string,
+  options: CompileOptions = {},
+  progress: { onStage?: (stage: CompileStage) => void; onLog?: (text: string) => void } = {}
+): Promise<CompileResult> {
+  const stream = Boolean(progress.onStage || progress.onLog);
+  try {
+    console.log(`Compiling LaTeX with projectId: ${projectId}`);
     
-    // Extract image references from LaTeX to prepare them for server-side rendering
-    const imageReferences = extractImageReferences(processedCode);
-    console.log("Image references found in LaTeX:", imageReferences);
-    
-    // Send modified code to LaTeX compilation endpoint
+    // The API route assembles the project tree and prepares the main document's preamble,
+    // so the open file is sent as-is
     console.log('Sending request to LaTeX API...');
     const response = await fetch('/api/compile-latex', {
       method: 'POST',
@@ -80,37 +229,54 @@ export async function compileLatex(code: string, projectId: string): Promise<{
         'x-api-key': API_KEY || 'ewZolV1dblxUYDjTrLXyqFkipvSNRM0vKP1H03gjM3JUIKhGuxb6x26CqaOHAjyGbtL95LM9gQPJ4TSa1LI4RlkgMATbXAj0fOTmgdFupwHULRJhTNHzQcCyw6engs4e' // ← Add this
       },
       body: JSON.stringify({
-        latex: processedCode,
+        latex: code,
         projectId: projectId,
+        fileId: options.fileId || null,
+        engine: options.engine,
+        jobId: options.jobId,
+        format: options.format,
+        imageOptions: options.imageOptions,
+        stream,
       }),
+      signal: options.signal,
     });
-    
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Error response from LaTeX API:', errorText);
-      return {
-        success: false,
-        error: `Compilation failed: ${response.status} ${response.statusText}`,
-      };
+    const contentType = response.headers.get('content-type') || '';
+    if (stream && response.ok && response.body && contentType.includes('text/event-stream')) {
+      let streamed: CompileResult | null = null;
+      await readServerSentEvents(response.body, ({ event, data }) => {
+        if (event === 'stage') {
+          progress.onStage?.(data as CompileStage);
+        } else if (event === 'log') {
+          progress.onLog?.((data as { text: string }).text);
+        } else if (event === 'result') {
+          const { status, body } = data as { status: number; body: CompileResult };
+          streamed = toCompileResult(status, '', body);
+        }
+      });
+      console.log('Received streamed response from LaTeX API');
+      return streamed || { success: false, error: 'Compilation stream ended without a result' };
     }
 
-    const result = await response.json();
-    console.log('Received response from LaTeX API');
-
-    if (!result.success) {
-      return {
-        success: false,
-        error: result.error || 'Unknown error during compilation',
-      };
+    const responseText = await response.text();
+    if (!response.ok) {
+      console.error('Error response from LaTeX API:', responseText);
+    } else {
+      console.log('Received response from LaTeX API');
     }
 
-    return {
-      success: true,
-      pdfData: result.pdfData,
-      htmlPreview: result.htmlPreview,
-    };
+    let result: CompileResult | null = null;
+    try {
+      result = JSON.parse(responseText);
+    } catch {
+      // Not JSON, fall through to the generic message
+    }
+    return toCompileResult(response.status, response.statusText, result);
   } catch (error) {
+    // The request was aborted because a newer compile replaced it
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return { success: false, cancelled: true, jobId: options.jobId, error: 'Compilation cancelled' };
+    }
     console.error('Error in LaTeX compilation service:', error);
     return {
       success: false,
@@ -119,94 +285,25 @@ export async function compileLatex(code: string, projectId: string): Promise<{
   }
 }
 
-
-function extractImageReferences(latex: string): string[] {
-  // Regular expression to match \includegraphics commands
-  const regex = /\\includegraphics(?:\[.*?\])?\{([^{}]+)\}/g;
-  const matches = [...latex.matchAll(regex)];
-  
-  // Extract the file paths and return unique values
-  return [...new Set(matches.map(match => match[1]))];
-}
-
-
-// Create KaTeX-compatible HTML preview for client-side rendering
-function createKatexHtmlPreview(latex: string): string {
-  // Extract metadata
-  const titleMatch = latex.match(/\\title\{([^}]+)\}/);
-  const authorMatch = latex.match(/\\author\{([^}]+)\}/);
-  const dateMatch = latex.match(/\\date\{([^}]+)\}/);
-  
-  const title = titleMatch ? titleMatch[1] : 'Untitled Document';
-  const author = authorMatch ? authorMatch[1] : '';
-  const date = dateMatch ? dateMatch[1] : (latex.includes('\\today') ? new Date().toLocaleDateString() : '');
-  
-  // Extract content between \begin{document} and \end{document}
-  const documentMatch = latex.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
-  const documentContent = documentMatch ? documentMatch[1] : latex;
-  
-  // Process document content with KaTeX-compatible rules
-  let processedContent = documentContent
-    // Remove \maketitle if present - we'll render our own title
-    .replace(/\\maketitle/g, '')
-    
-    // Process sections and subsections
-    .replace(/\\section\{([^}]+)\}/g, '<h2 class="text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-300 text-black">$1</h2>')
-    .replace(/\\subsection\{([^}]+)\}/g, '<h3 class="text-xl font-semibold mt-5 mb-2 text-black">$1</h3>')
-    .replace(/\\subsubsection\{([^}]+)\}/g, '<h4 class="text-lg font-semibold mt-4 mb-2 text-black">$1</h4>')
-    
-    // Keep equation and math environments intact for KaTeX to process
-    // Just clean up a bit for better KaTeX compatibility
-    .replace(/\\begin\{equation\}/g, '$$')
-    .replace(/\\end\{equation\}/g, '$$')
-    .replace(/\\begin\{align\}([\s\S]*?)\\end\{align\}/g, '$$\\begin{aligned}$1\\end{aligned}$$')
-    .replace(/\\begin\{array\}([\s\S]*?)\\end\{array\}/g, '$$\\begin{array}$1\\end{array}$$')
-    
-    // Lists
-    .replace(/\\begin\{itemize\}([\s\S]*?)\\end\{itemize\}/g, '<ul class="list-disc pl-8 my-4 text-black">$1</ul>')
-    .replace(/\\begin\{enumerate\}([\s\S]*?)\\end\{enumerate\}/g, '<ol class="list-decimal pl-8 my-4 text-black">$1</ol>')
-    .replace(/\\item\s+/g, '<li class="mb-2">')
-    .replace(/(?<=<li class="mb-2">[^\n]+)\n/g, '</li>\n')
-    .replace(/(?<=<li class="mb-2">[^\n]+)(?=<li)/g, '</li>')
-    .replace(/(?<=<li class="mb-2">[^\n]+)(?=<\/[ou]l>)/g, '</li>')
-    
-    // Text formatting - leave some for KaTeX to handle, process others directly
-    .replace(/\\textbf\{([^}]+)\}/g, '<strong>$1</strong>')
-    .replace(/\\textit\{([^}]+)\}/g, '<em>$1</em>')
-    .replace(/\\emph\{([^}]+)\}/g, '<em>$1</em>')
-    .replace(/\\underline\{([^}]+)\}/g, '<u>$1</u>')
-    
-    // Simple paragraph handling
-    .replace(/\n\n/g, '</p><p class="my-3 text-black">');
-  
-  // Wrap in paragraphs if not already
-  if (!processedContent.startsWith('<')) {
-    processedContent = '<p class="my-3 text-black">' + processedContent;
-  }
-  if (!processedContent.endsWith('>')) {
-    processedContent += '</p>';
-  }
-  
-  // Create title block if we found title information
-  let titleBlock = '';
-  if (title) {
-    titleBlock = `
-      <div class="mb-6 text-center">
-        <h1 class="text-3xl font-bold mb-2 text-black">${title}</h1>
-        ${author ? `<p class="text-xl mb-1 text-gray-700">${author}</p>` : ''}
-        ${date ? `<p class="text-gray-500">${date}</p>` : ''}
-      </div>
-    `;
+/**
+ * Ask the render server to stop a running or queued compile job.
+ */
+export async function cancelCompile(jobId: string): Promise<boolean> {
+  try {
+    const response = await fetch('/api/compile-latex/cancel', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': API_KEY
+      },
+      body: JSON.stringify({ jobId }),
+    });
+    const result = await response.json();
+    return result.success === true;
+  } catch (error) {
+    console.error('Error cancelling LaTeX compilation:', error);
+    return false;
   }
-  
-  return `
-    <div class="latex-preview font-serif">
-      ${titleBlock}
-      <div class="latex-content prose prose-lg max-w-none text-black">
-        ${processedContent}
-      </div>
-    </div>
-  `;
 }
 
 /**
@@ -284,272 +381,3 @@ export async function renderMathFormula(latexCode: string, displayMode = false):
     };
   }
 }
-
-/**
- * Generate HTML preview with KaTeX for mathematical expressions
- */
-async function generateKatexPreview(latexCode: string): Promise<string> {
-  // Extract metadata
-  const titleMatch = latexCode.match(/\\title\{([^}]+)\}/);
-  const authorMatch = latexCode.match(/\\author\{([^}]+)\}/);
-  const dateMatch = latexCode.match(/\\date\{([^}]+)\}/);
-  
-  const title = titleMatch ? titleMatch[1] : 'Untitled Document';
-  const author = authorMatch ? authorMatch[1] : '';
-  const date = dateMatch ? dateMatch[1] : (latexCode.includes('\\today') ? new Date().toLocaleDateString() : '');
-  
-  // Extract content between \begin{document} and \end{document}
-  const documentMatch = latexCode.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
-  const documentContent = documentMatch ? documentMatch[1] : latexCode;
-  
-  // Process document content for KaTeX
-  let processedContent = documentContent
-    // Remove \maketitle if present
-    .replace(/\\maketitle/g, '')
-    
-    // Process sections, subsections, etc.
-    .replace(/\\section\{([^}]+)\}/g, '<h2 class="text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-300 text-black">$1</h2>')
-    .replace(/\\subsection\{([^}]+)\}/g, '<h3 class="text-xl font-semibold mt-5 mb-2 text-black">$1</h3>')
-    .replace(/\\subsubsection\{([^}]+)\}/g, '<h4 class="text-lg font-semibold mt-4 mb-2 text-black">$1</h4>')
-    
-    // Process math environments
-    .replace(/\\begin\{equation\}([\s\S]*?)\\end\{equation\}/g, '$$1$')
-    .replace(/\\begin\{align\}([\s\S]*?)\\end\{align\}/g, '$$\\begin{aligned}$1\\end{aligned}$$')
-    .replace(/\\begin\{align\*\}([\s\S]*?)\\end\{align\*\}/g, '$$\\begin{aligned}$1\\end{aligned}$$')
-    
-    // Lists
-    .replace(/\\begin\{itemize\}([\s\S]*?)\\end\{itemize\}/g, '<ul class="list-disc pl-8 my-4 text-black">$1</ul>')
-    .replace(/\\begin\{enumerate\}([\s\S]*?)\\end\{enumerate\}/g, '<ol class="list-decimal pl-8 my-4 text-black">$1</ol>')
-    .replace(/\\item\s+/g, '<li class="mb-2">')
-    .replace(/(?<=<li class="mb-2">[^\n]+)\n/g, '</li>\n')
-    .replace(/(?<=<li class="mb-2">[^\n]+)(?=<li)/g, '</li>')
-    .replace(/(?<=<li class="mb-2">[^\n]+)(?=<\/[ou]l>)/g, '</li>')
-    
-    // Text formatting
-    .replace(/\\textbf\{([^}]+)\}/g, '<strong>$1</strong>')
-    .replace(/\\textit\{([^}]+)\}/g, '<em>$1</em>')
-    .replace(/\\emph\{([^}]+)\}/g, '<em>$1</em>')
-    .replace(/\\underline\{([^}]+)\}/g, '<u>$1</u>')
-    
-    // Tables (basic support)
-    .replace(/\\begin\{table\}([\s\S]*?)\\end\{table\}/g, '<div class="table-container my-4">$1</div>')
-    .replace(/\\begin\{tabular\}\{([^}]+)\}([\s\S]*?)\\end\{tabular\}/g, 
-      '<table class="border-collapse border border-gray-300 mx-auto"><tbody>$2</tbody></table>')
-    .replace(/([^\\])\\\\/g, '$1</tr><tr>')
-    .replace(/&/g, '</td><td class="border border-gray-300 px-3 py-2">')
-    
-    // Line breaks
-    .replace(/\\\\(?!\])/g, '<br>')
-    
-    // Paragraphs
-    .replace(/\n\n(?!\$)/g, '</p><p class="my-3 text-black">');
-  
-  // Wrap in paragraphs
-  if (!processedContent.startsWith('<')) {
-    processedContent = '<p class="my-3 text-black">' + processedContent;
-  }
-  if (!processedContent.endsWith('>')) {
-    processedContent += '</p>';
-  }
-  
-  // Create title block
-  let titleBlock = '';
-  if (title) {
-    titleBlock = `
-      <div class="mb-6 text-center">
-        <h1 class="text-3xl font-bold mb-2 text-black">${title}</h1>
-        ${author ? `<p class="text-xl mb-1 text-gray-700">${author}</p>` : ''}
-        ${date ? `<p class="text-gray-500">${date}</p>` : ''}
-      </div>
-    `;
-  }
-  
-  const renderingType = document.location?.hostname === "localhost" || document.location?.hostname === "127.0.0.1" 
-    ? "Server + Browser" 
-    : "Browser";
-  
-  return `
-    <div class="latex-preview font-serif">
-      <div class="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-        <p class="text-blue-700">
-          <strong>${renderingType} Rendering:</strong> This document preview uses KaTeX for equations.
-        </p>
-      </div>
-      
-      <div class="max-w-4xl mx-auto bg-white shadow-lg rounded-lg overflow-hidden p-8">
-        ${titleBlock}
-        <div class="latex-content prose prose-lg max-w-none text-black">
-          ${processedContent}
-        </div>
-      </div>
-    </div>
-  `;
-}
-
-/**
- * Generate a simplified PDF from LaTeX content
- */
-async function generatePdf(latexCode: string): Promise<string> {
-  try {
-    // Dynamically import pdf-lib
-    const { PDFDocument, rgb, StandardFonts } = await import('pdf-lib');
-    
-    // Extract document structure
-    const titleMatch = latexCode.match(/\\title\{([^}]*)\}/);
-    const authorMatch = latexCode.match(/\\author\{([^}]*)\}/);
-    const documentMatch = latexCode.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
-    
-    const title = titleMatch ? titleMatch[1] : 'LaTeX Document';
-    const author = authorMatch ? authorMatch[1] : '';
-    const content = documentMatch ? documentMatch[1] : latexCode;
-    
-    // Process content to extract text (simplified)
-    const textContent = content
-      .replace(/\\section\{([^}]+)\}/g, '\n\n$1\n\n')
-      .replace(/\\subsection\{([^}]+)\}/g, '\n$1\n')
-      .replace(/\\textbf\{([^}]+)\}/g, '$1')
-      .replace(/\\textit\{([^}]+)\}/g, '$1')
-      .replace(/\\emph\{([^}]+)\}/g, '$1')
-      .replace(/\$[^$]+\$/g, '[Math Expression]')
-      .replace(/\\\\/g, '\n')
-      .replace(/\\maketitle/g, '')
-      .replace(/\\begin\{.*?\}.*?\\end\{.*?\}/gs, '[Environment]')
-      .replace(/\\item/g, '• ')
-      .replace(/\\[a-zA-Z]+(\{.*?\})?/g, '');
-    
-    // Create PDF document
-    const pdfDoc = await PDFDocument.create();
-    
-    // Add a page
-    const page = pdfDoc.addPage([612, 792]); // US Letter
-    
-    // Embed fonts
-    const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
-    const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
-    const helveticaOblique = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
-    
-    // Draw title
-    page.drawText(title, {
-      x: 72,
-      y: 720,
-      size: 24,
-      font: helveticaBold,
-      color: rgb(0, 0, 0)
-    });
-    
-    // Draw author
-    if (author) {
-      page.drawText(author, {
-        x: 72,
-        y: 690,
-        size: 16,
-        font: helveticaFont,
-        color: rgb(0, 0, 0)
-      });
-    }
-    
-    // Draw content (basic implementation)
-    const lines = textContent.split('\n');
-    let y = 650;
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (trimmedLine) {
-        // Skip to next page if needed
-        if (y < 72) {
-          const newPage = pdfDoc.addPage([612, 792]);
-          y = 720;
-          page = newPage;
-        }
-        
-        // Determine if this might be a heading
-        const isHeading = trimmedLine.length < 50 && !trimmedLine.includes(' ') && 
-          lines.indexOf(line) > 0 && lines[lines.indexOf(line) - 1].trim() === '';
-        
-        page.drawText(trimmedLine, {
-          x: 72,
-          y,
-          size: isHeading ? 16 : 12,
-          font: isHeading ? helveticaBold : helveticaFont,
-          color: rgb(0, 0, 0)
-        });
-        
-        y -= isHeading ? 24 : 16;
-      } else {
-        // Empty line
-        y -= 12;
-      }
-    }
-    
-    // Draw footer with browser rendering notice
-    page.drawText('PDF generated by browser-based LaTeX compiler', {
-      x: 72,
-      y: 30,
-      size: 10,
-      font: helveticaOblique,
-      color: rgb(0.5, 0.5, 0.5)
-    });
-    
-    // Save PDF
-    const pdfBytes = await pdfDoc.save();
-    
-    // Convert to data URL
-    const base64 = arrayBufferToBase64(pdfBytes);
-    return `data:application/pdf;base64,${base64}`;
-  } catch (error) {
-    console.error('Error generating PDF:', error);
-    throw error;
-  }
-}
-
-/**
- * Generate basic HTML preview (fallback option)
- */
-function generateBasicPreview(latexCode: string): string {
-  // Extract metadata
-  const titleMatch = latexCode.match(/\\title\{([^}]+)\}/);
-  const authorMatch = latexCode.match(/\\author\{([^}]+)\}/);
-  
-  const title = titleMatch ? titleMatch[1] : 'Untitled Document';
-  const author = authorMatch ? authorMatch[1] : '';
-  
-  // Extract content
-  const documentMatch = latexCode.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
-  const content = documentMatch ? documentMatch[1] : latexCode;
-  
-  // Very basic processing
-  const processedContent = content
-    .replace(/\\section\{([^}]+)\}/g, '<h2>$1</h2>')
-    .replace(/\\subsection\{([^}]+)\}/g, '<h3>$1</h3>')
-    .replace(/\\maketitle/g, '')
-    .replace(/\$([^$]+)\$/g, '<em>$1</em>')
-    .replace(/\\textbf\{([^}]+)\}/g, '<strong>$1</strong>')
-    .replace(/\\textit\{([^}]+)\}/g, '<em>$1</em>')
-    .replace(/\n\n/g, '<br><br>');
-  
-  return `
-    <div style="font-family: serif; padding: 20px;">
-      <div style="background-color: #fff3cd; border: 1px solid #ffeeba; padding: 15px; margin-bottom: 20px;">
-        <p style="color: #856404;"><strong>Basic Preview:</strong> Enhanced LaTeX rendering is not available.</p>
-      </div>
-      <h1 style="text-align: center;">${title}</h1>
-      <p style="text-align: center;">${author}</p>
-      <div>${processedContent}</div>
-    </div>
-  `;
-}
-
-/**
- * Convert ArrayBuffer to Base64 string
- */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  
-  return window.btoa(binary);
-}
\ No newline at end of file
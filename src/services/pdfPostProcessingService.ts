@@ -0,0 +1,82 @@
+// services/pdfPostProcessingService.ts
+// Runs a compile target's post-processing steps on the compiled PDF in the browser
+
+import {
+  PdfPostProcessing,
+  extractDocumentMetadata,
+  normalizePdfPostProcessing,
+  postProcessPdf
+} from '@/utils/pdfPostProcessing';
+import { findTextLines, toPdfBytes } from '@/utils/pdfjs';
+import { ProjectFileRecord, getFileName, getRemoteFileUrl, parseBase64Data } from '@/utils/projectFileUtils';
+
+export interface PdfPostProcessingResult {
+  pdfData: string;
+  // Pages merged in front of the document; SyncTeX page numbers are off by this many
+  prependedPages: number;
+  // Merge steps whose PDF could not be loaded
+  missingFiles: string[];
+}
+
+/**
+ * Steps for the file being compiled, from the project's `pdfPostProcessing` map.
+ * Returns null when the target has none.
+ */
+export const postProcessingForTarget = (
+  settings: unknown,
+  targetFileId: string | null | undefined
+): PdfPostProcessing | null => {
+  if (!targetFileId || !settings || typeof settings !== 'object') return null;
+  const steps = (settings as Record<string, unknown>)[targetFileId];
+  return steps ? normalizePdfPostProcessing(steps) : null;
+};
+
+const toDataUrl = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:application/pdf;base64,${btoa(binary)}`;
+};
+
+async function loadProjectPdf(file: ProjectFileRecord): Promise<Uint8Array> {
+  for (const value of [file.content, file.dataUrl]) {
+    const parsed = typeof value === 'string' ? parseBase64Data(value) : null;
+    if (parsed) return toPdfBytes(parsed.data);
+  }
+  const url = getRemoteFileUrl(file);
+  if (!url) throw new Error(`${getFileName(file)} has no PDF data`);
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to download ${getFileName(file)}: ${response.status} ${response.statusText}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Apply `steps` to a compiled PDF. `latex` is the main document's source, for the title and
+ * author; `files` are the project files the merge steps refer to.
+ */
+export async function applyPdfPostProcessing(
+  pdfData: string,
+  steps: PdfPostProcessing,
+  { latex, files }: { latex: string; files: ProjectFileRecord[] }
+): Promise<PdfPostProcessingResult> {
+  const mergeFiles: Record<string, Uint8Array> = {};
+  const missingFiles: string[] = [];
+  await Promise.all(steps.merge.map(async step => {
+    const file = files.find(candidate => candidate.id === step.fileId);
+    try {
+      if (!file) throw new Error('The file no longer exists');
+      mergeFiles[step.fileId] = await loadProjectPdf(file);
+    } catch (error) {
+      console.error(`Could not load PDF to merge (${step.fileId}):`, error);
+      missingFiles.push(file ? getFileName(file) : step.fileId);
+    }
+  }));
+
+  const { title, author } = extractDocumentMetadata(latex);
+  const textLines = steps.lineNumbers ? await findTextLines(pdfData) : undefined;
+  const result = await postProcessPdf(toPdfBytes(pdfData), steps, { title, author, textLines, mergeFiles });
+  console.log(`Post-processed PDF: ${result.bytes.length} bytes, ${result.prependedPages} pages merged in front`);
+
+  return { pdfData: toDataUrl(result.bytes), prependedPages: result.prependedPages, missingFiles };
+}
@@ -0,0 +1,153 @@
+// services/projectArchiveService.ts
+// Server-side: project files as a directory tree, and that tree packed into a ZIP archive
+
+import JSZip from 'jszip';
+import {
+  ProjectFileRecord,
+  ProjectTreeEntry,
+  buildProjectPaths,
+  getRemoteFileUrl,
+  isBinaryProjectFile,
+  parseBase64Data
+} from '@/utils/projectFileUtils';
+
+/**
+ * Turn project file documents into path/content entries, decoding binaries stored inline
+ * and downloading the ones behind a URL. Files with no usable data are left out.
+ */
+export async function collectProjectTree(
+  projectFiles: ProjectFileRecord[],
+  projectPaths: Map<string, string>
+): Promise<ProjectTreeEntry[]> {
+  const entries: ProjectTreeEntry[] = [];
+
+  for (const file of projectFiles) {
+    if (file.type === 'folder') continue;
+
+    const filePath = projectPaths.get(file.id);
+    if (!filePath) continue;
+
+    if (!isBinaryProjectFile(file)) {
+      entries.push({ id: file.id, path: filePath, content: file.content || '' });
+      continue;
+    }
+
+    // Binary data can be stored inline or behind a download URL
+    const inline = parseBase64Data(file.dataUrl || '') || parseBase64Data(file.content || '');
+    if (inline) {
+      entries.push({ id: file.id, path: filePath, data: inline.data, mimeType: inline.mimeType });
+      continue;
+    }
+
+    const remoteUrl = getRemoteFileUrl(file);
+    if (remoteUrl) {
+      try {
+        const response = await fetch(remoteUrl);
+        if (response.ok) {
+          const arrayBuffer = await response.arrayBuffer();
+          entries.push({
+            id: file.id,
+            path: filePath,
+            data: Buffer.from(arrayBuffer).toString('base64'),
+            mimeType: response.headers.get('content-type') || undefined
+          });
+          continue;
+        }
+      } catch (fetchError) {
+        console.error(`Error fetching ${filePath} from URL:`, fetchError);
+      }
+    }
+
+    console.log(`No usable data found for binary file ${filePath}`);
+  }
+
+  return entries;
+}
+
+// A ZIP of path/content entries; folders appear as the paths need them
+export const createTreeArchive = (entries: ProjectTreeEntry[]): JSZip => {
+  const zip = new JSZip();
+  entries.forEach(entry => {
+    if (entry.data !== undefined) {
+      zip.file(entry.path, entry.data, { base64: true });
+    } else {
+      zip.file(entry.path, entry.content || '');
+    }
+  });
+  return zip;
+};
+
+export interface ProjectArchiveOptions {
+  // Extra files written next to the project's own, e.g. the compiled PDF
+  extraFiles?: { path: string; data: Uint8Array }[];
+}
+
+/**
+ * Pack a project into a ZIP with its folder layout, empty folders included.
+ */
+export async function createProjectArchive(
+  projectFiles: ProjectFileRecord[],
+  { extraFiles = [] }: ProjectArchiveOptions = {}
+): Promise<{ zip: JSZip; fileCount: number; skipped: string[] }> {
+  const activeFiles = projectFiles.filter(file => file.deleted !== true);
+  const projectPaths = buildProjectPaths(activeFiles);
+  const entries = await collectProjectTree(activeFiles, projectPaths);
+  const zip = createTreeArchive(entries);
+
+  activeFiles
+    .filter(file => file.type === 'folder')
+    .forEach(folder => {
+      const folderPath = projectPaths.get(folder.id);
+      if (folderPath) zip.folder(folderPath);
+    });
+
+  const packed = new Set(entries.map(entry => entry.id));
+  const skipped = activeFiles
+    .filter(file => file.type !== 'folder' && !packed.has(file.id))
+    .map(file => projectPaths.get(file.id) || file.id);
+
+  extraFiles.forEach(file => {
+    // Never overwrite a project file of the same name
+    let filePath = file.path;
+    for (let copy = 2; zip.file(filePath); copy++) {
+      filePath = file.path.replace(/(\.[^./]+)?$/, `-${copy}$1`);
+    }
+    zip.file(filePath, file.data);
+  });
+
+  return { zip, fileCount: entries.length + extraFiles.length, skipped };
+}
+
+/**
+ * Stream the archive as it is compressed, for a Response body.
+ */
+export const streamArchive = (zip: JSZip): ReadableStream<Uint8Array> => {
+  const helper = zip.generateInternalStream({
+    type: 'uint8array',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+    streamFiles: true
+  });
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      helper
+        .on('data', chunk => controller.enqueue(chunk))
+        .on('error', error => controller.error(error))
+        .on('end', () => controller.close())
+        .resume();
+    },
+    cancel() {
+      helper.pause();
+    }
+  });
+};
+
+// File name for a download, from the project title
+export const archiveFileName = (title: string | undefined, extension = '.zip'): string => {
+  const base = (title || 'project')
+    .replace(/[^A-Za-z0-9._ -]+/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .slice(0, 80);
+  return `${base || 'project'}${extension}`;
+};
@@ -0,0 +1,125 @@
+// services/projectImportService.ts
+// Creating a project from an uploaded archive: folders, text files in Firestore, binaries in Storage
+
+import { addDoc, collection, doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { db, storage } from '@/lib/firebase';
+import { getFileExtension } from '@/utils/projectFileUtils';
+import { findMainTexFile, readProjectArchive } from '@/utils/projectImport';
+
+export interface ProjectImportProgress {
+  done: number;
+  total: number;
+  path: string;
+}
+
+export interface ProjectImportResult {
+  projectId: string;
+  mainFileId: string | null;
+  fileCount: number;
+  // Paths that could not be stored
+  failed: string[];
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  eps: 'application/postscript'
+};
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp', 'bmp'];
+
+const baseName = (path: string): string => path.substring(path.lastIndexOf('/') + 1);
+const parentPath = (path: string): string => path.substring(0, Math.max(path.lastIndexOf('/'), 0));
+
+/**
+ * Create a project owned by `userId` from a ZIP, recreating its folders, and make the
+ * detected main document its compile target.
+ */
+export async function importProjectArchive(
+  archive: Blob,
+  { title, userId, onProgress }: { title: string; userId: string; onProgress?: (progress: ProjectImportProgress) => void }
+): Promise<ProjectImportResult> {
+  const { files, folders } = await readProjectArchive(archive);
+  if (files.length === 0) {
+    throw new Error('The archive contains no project files');
+  }
+  const mainPath = findMainTexFile(files);
+  console.log(`Importing ${files.length} files in ${folders.length} folders, main document: ${mainPath || 'none'}`);
+
+  const projectRef = await addDoc(collection(db, "projects"), {
+    title,
+    owner: userId,
+    template: 'import',
+    createdAt: serverTimestamp(),
+    lastModified: serverTimestamp(),
+    archived: false,
+    trashed: false
+  });
+  const projectId = projectRef.id;
+  const filesCollection = collection(db, "projectFiles");
+
+  const fileDoc = (path: string, parentIds: Map<string, string>) => ({
+    _name_: baseName(path),
+    name: baseName(path),
+    projectId,
+    parentId: parentIds.get(parentPath(path)) || null,
+    ownerId: userId,
+    createdAt: serverTimestamp(),
+    lastModified: serverTimestamp()
+  });
+
+  // Folders come parents first, so every parent id is known when its children are added
+  const folderIds = new Map<string, string>();
+  for (const folder of folders) {
+    const folderRef = await addDoc(filesCollection, { ...fileDoc(folder, folderIds), type: 'folder' });
+    folderIds.set(folder, folderRef.id);
+  }
+
+  let mainFileId: string | null = null;
+  const failed: string[] = [];
+  let done = 0;
+  for (const file of files) {
+    onProgress?.({ done, total: files.length, path: file.path });
+    try {
+      let fileRef;
+      if (file.data) {
+        const extension = getFileExtension(file.path);
+        const storageRef = ref(storage, `projects/${projectId}/files/${Date.now()}_${baseName(file.path).replace(/[^a-zA-Z0-9.-]/g, '_')}`);
+        const snapshot = await uploadBytes(storageRef, file.data, { contentType: CONTENT_TYPES[extension] || 'application/octet-stream' });
+        fileRef = await addDoc(filesCollection, {
+          ...fileDoc(file.path, folderIds),
+          type: 'file',
+          fileType: IMAGE_EXTENSIONS.includes(extension) ? 'image' : 'binary',
+          size: file.data.length,
+          downloadURL: await getDownloadURL(snapshot.ref)
+        });
+      } else {
+        fileRef = await addDoc(filesCollection, {
+          ...fileDoc(file.path, folderIds),
+          type: 'file',
+          fileType: 'text',
+          size: file.content?.length || 0,
+          content: file.content || ''
+        });
+      }
+      if (file.path === mainPath) mainFileId = fileRef.id;
+    } catch (error) {
+      console.error(`Error importing ${file.path}:`, error);
+      failed.push(file.path);
+    }
+    done++;
+  }
+  onProgress?.({ done, total: files.length, path: '' });
+
+  if (mainFileId) {
+    await updateDoc(doc(db, "projects", projectId), { mainFileId });
+  }
+
+  return { projectId, mainFileId, fileCount: files.length - failed.length, failed };
+}
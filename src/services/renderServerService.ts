@@ -0,0 +1,48 @@
+// services/renderServerService.ts
+// Server-side: where the LaTeX render server lives and a plain /render request to it
+
+// Get the LaTeX server URL from environment variables with fallback
+export const LATEX_SERVER_URL = process.env.LATEX_SERVER_URL || 'https://latex-server-236736164668.us-central1.run.app/';
+export const LATEX_API_KEY = process.env.LATEX_API_KEY || 'ewZolV1dblxUYDjTrLXyqFkipvSNRM0vKP1H03gjM3JUIKhGuxb6x26CqaOHAjyGbtL95LM9gQPJ4TSa1LI4RlkgMATbXAj0fOTmgdFupwHULRJhTNHzQcCyw6engs4e';
+
+// What the render server sends back for /render, successful or not
+export interface RenderServerResponse {
+  format?: string;
+  data?: string;
+  pages?: { page: number; data: string }[];
+  pageCount?: number;
+  html?: string;
+  error?: string;
+  diagnostics?: unknown;
+  synctex?: string | null;
+  // The bibliography the build generated, when BibTeX or Biber ran
+  bbl?: string | null;
+  jobId?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Send a build to the render server and wait for the whole result.
+ * `body` is null when the server answered with something other than JSON.
+ */
+export async function renderOnServer(
+  requestData: Record<string, unknown>
+): Promise<{ ok: boolean; status: number; body: RenderServerResponse | null }> {
+  const response = await fetch(`${LATEX_SERVER_URL}/render`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': LATEX_API_KEY
+    },
+    body: JSON.stringify(requestData),
+    cache: 'no-store'
+  });
+
+  const responseText = await response.text();
+  try {
+    return { ok: response.ok, status: response.status, body: JSON.parse(responseText) };
+  } catch {
+    console.error('Render server sent a non-JSON response:', responseText.slice(0, 200));
+    return { ok: response.ok, status: response.status, body: null };
+  }
+}
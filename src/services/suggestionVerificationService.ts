@@ -0,0 +1,86 @@
+// services/suggestionVerificationService.ts
+// Compiles an AI suggestion on the render server before the user accepts it
+
+import { CompileDiagnostic, LatexEngine, compileLatex } from './latexService';
+import { applySuggestionToVirtualCopy } from '@/utils/editorUtils';
+
+export type SuggestionVerificationStatus = 'compiles' | 'new-errors' | 'fails' | 'not-applicable' | 'unverified';
+
+export interface SuggestionVerification {
+  status: SuggestionVerificationStatus;
+  // Short annotation for the suggestion, e.g. "Compiles" or "Introduces 2 new errors"
+  summary: string;
+  // Errors the suggested version has that the current version does not
+  newErrors: CompileDiagnostic[];
+  pdfData?: string;
+}
+
+export interface SuggestionToVerify {
+  diffHunks?: string[];
+  searchReplaceBlocks?: { search: string; replace: string; explanation?: string }[];
+}
+
+// Line numbers move when a patch adds or removes lines, so errors are compared without them
+const errorKey = (error: CompileDiagnostic): string =>
+  [error.file || '', error.message, error.context || ''].join('\u0000');
+
+/**
+ * Errors in `errors` beyond those already in `baseline`, counting repeats.
+ */
+export const findNewErrors = (baseline: CompileDiagnostic[], errors: CompileDiagnostic[]): CompileDiagnostic[] => {
+  const remaining = new Map<string, number>();
+  baseline.forEach(error => remaining.set(errorKey(error), (remaining.get(errorKey(error)) || 0) + 1));
+  return errors.filter(error => {
+    const count = remaining.get(errorKey(error)) || 0;
+    if (count === 0) return true;
+    remaining.set(errorKey(error), count - 1);
+    return false;
+  });
+};
+
+/**
+ * Apply a suggestion to a copy of the open file and compile the project with it.
+ * `baselineErrors` are the errors of the last compile of the current version.
+ */
+export async function verifySuggestion(
+  content: string,
+  suggestion: SuggestionToVerify,
+  baselineErrors: CompileDiagnostic[],
+  options: { projectId: string; fileId: string | null; engine?: LatexEngine; signal?: AbortSignal }
+): Promise<SuggestionVerification> {
+  const applied = applySuggestionToVirtualCopy(content, suggestion);
+  if (!applied.success || applied.finalContent === undefined) {
+    return {
+      status: 'not-applicable',
+      summary: applied.error || 'The suggestion does not apply to the current file',
+      newErrors: []
+    };
+  }
+
+  const result = await compileLatex(applied.finalContent, options.projectId, {
+    fileId: options.fileId,
+    engine: options.engine,
+    signal: options.signal
+  });
+
+  if (result.success && result.pdfData && !result.browserFallback) {
+    return { status: 'compiles', summary: 'Compiles', newErrors: [], pdfData: result.pdfData };
+  }
+  // The browser preview fallback means the render server never built the suggestion
+  if (result.success) {
+    return { status: 'unverified', summary: 'Could not verify: the render server did not build a PDF', newErrors: [] };
+  }
+
+  const errors = result.diagnostics?.errors.length
+    ? result.diagnostics.errors
+    : [{ severity: 'error' as const, type: 'error', message: result.error || 'Compilation failed', file: null, line: null }];
+  const newErrors = findNewErrors(baselineErrors, errors);
+  if (newErrors.length > 0) {
+    return {
+      status: 'new-errors',
+      summary: `Introduces ${newErrors.length} new ${newErrors.length === 1 ? 'error' : 'errors'}`,
+      newErrors
+    };
+  }
+  return { status: 'fails', summary: 'Still fails with the existing errors', newErrors: [] };
+}
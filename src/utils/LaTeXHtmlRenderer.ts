@@ -0,0 +1,1553 @@
+// utils/LaTeXHtmlRenderer.ts
+// Offline HTML preview of a LaTeX document, used when no PDF could be compiled.
+// The document is parsed into commands, groups, environments and math instead of being rewritten with regexes.
+import katex from 'katex';
+import { LaTeXTreeProcessor } from './LaTeXTreeProcessor';
+import { parseGraphicsPaths, resolveGraphicsPath } from './graphicsPaths';
+
+export interface LaTeXHtmlRenderOptions {
+  // URL (usually a data URL) for a project path such as "images/plot.png", or null if there is no such file
+  resolveImage?: (path: string) => string | null;
+  // Source of a project file pulled in with \input, \include or \subfile
+  resolveInput?: (path: string) => string | null;
+  // Contents of the project's .bib files, for \cite and the reference list
+  bibliography?: string;
+  // Shown above the document, e.g. why this is a preview and not the PDF
+  notice?: string;
+}
+
+type AstNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'group'; children: AstNode[] }
+  | { kind: 'command'; name: string; starred: boolean; args: (string | null)[] }
+  | { kind: 'environment'; name: string; args: (string | null)[]; children: AstNode[] }
+  | { kind: 'math'; display: boolean; environment: string | null; args: (string | null)[]; tex: string }
+  | { kind: 'verbatim'; display: boolean; text: string }
+  | { kind: 'parbreak' }
+  | { kind: 'newline' }
+  | { kind: 'tab' };
+
+interface Rendered {
+  html: string;
+  block: boolean;
+}
+
+interface MacroDefinition {
+  params: number;
+  defaultArg: string | null;
+  body: string;
+}
+
+interface EnvironmentDefinition extends MacroDefinition {
+  end: string;
+}
+
+interface TheoremDefinition {
+  title: string;
+  counter: string | null;
+}
+
+interface Heading {
+  level: number;
+  number: string;
+  title: string;
+  id: string;
+}
+
+// Argument signatures in xparse notation: s = star, o = optional [..], m = mandatory {..}
+const COMMAND_SPECS: Record<string, string> = {
+  part: 'som', chapter: 'som', section: 'som', subsection: 'som', subsubsection: 'som',
+  paragraph: 'som', subparagraph: 'som',
+  title: 'om', author: 'om', date: 'm', thanks: 'm',
+  textbf: 'm', textit: 'm', emph: 'm', textsl: 'm', underline: 'm', uline: 'm', sout: 'm',
+  texttt: 'm', textsf: 'm', textrm: 'm', textup: 'm', textmd: 'm', textnormal: 'm', textsc: 'm',
+  textsuperscript: 'm', textsubscript: 'm', mbox: 'm', hbox: 'm', text: 'm', makebox: 'oom', fbox: 'm',
+  textcolor: 'omm', colorbox: 'omm', color: 'om', definecolor: 'mmm',
+  url: 'm', href: 'mm', footnote: 'om', footnotemark: 'o', footnotetext: 'om',
+  label: 'm', ref: 'sm', eqref: 'm', autoref: 'sm', cref: 'sm', Cref: 'sm', pageref: 'sm', nameref: 'sm',
+  cite: 'soom', citep: 'soom', citet: 'soom', parencite: 'soom', textcite: 'soom', autocite: 'soom',
+  citeauthor: 'som', citeyear: 'som', nocite: 'm',
+  caption: 'om', includegraphics: 'som', graphicspath: 'm',
+  item: 'o', bibitem: 'om', multicolumn: 'mmm', multirow: 'omm', cline: 'm', cmidrule: 'om',
+  bibliography: 'm', bibliographystyle: 'm', printbibliography: 'o', addbibresource: 'om',
+  documentclass: 'om', usepackage: 'om', RequirePackage: 'om', geometry: 'm', hypersetup: 'm',
+  pagestyle: 'm', thispagestyle: 'm', pagenumbering: 'm', setlength: 'mm', addtolength: 'mm',
+  setcounter: 'mm', addtocounter: 'mm', vspace: 'sm', hspace: 'sm', captionsetup: 'om', lstset: 'm',
+  index: 'm', glossary: 'm', pagebreak: 'o', linebreak: 'o', newline: '', tabularnewline: '',
+  input: 'm', include: 'm', subfile: 'm', import: 'mm', includeonly: 'm',
+  rule: 'omm', raisebox: 'mm', scalebox: 'mm', resizebox: 'smm', rotatebox: 'om', hyperref: 'om',
+  hyperlink: 'mm', hypertarget: 'mm', phantom: 'm', hphantom: 'm', vphantom: 'm'
+};
+
+const ENVIRONMENT_SPECS: Record<string, string> = {
+  figure: 'o', 'figure*': 'o', table: 'o', 'table*': 'o', wrapfigure: 'omom', subfigure: 'om',
+  tabular: 'om', 'tabular*': 'mom', tabularx: 'mm', tabulary: 'mm', longtable: 'om',
+  minipage: 'ooom', multicols: 'mo', 'multicols*': 'mo', thebibliography: 'm',
+  itemize: 'o', enumerate: 'o', description: 'o', proof: 'o',
+  lstlisting: 'o', minted: 'om', Verbatim: 'o', alignat: 'm', 'alignat*': 'm'
+};
+
+// Display environments KaTeX renders once numbering has been turned into explicit \tag{}s
+const MATH_ENVIRONMENTS = new Set([
+  'equation', 'equation*', 'displaymath', 'math', 'align', 'align*', 'flalign', 'flalign*',
+  'alignat', 'alignat*', 'gather', 'gather*', 'multline', 'multline*', 'eqnarray', 'eqnarray*'
+]);
+const VERBATIM_ENVIRONMENTS = new Set(['verbatim', 'verbatim*', 'Verbatim', 'lstlisting', 'minted', 'comment']);
+const TABULAR_ENVIRONMENTS = new Set(['tabular', 'tabular*', 'tabularx', 'tabulary', 'longtable']);
+const SECTION_LEVELS: Record<string, number> = {
+  part: -1, chapter: 0, section: 1, subsection: 2, subsubsection: 3, paragraph: 4, subparagraph: 5
+};
+const CHAPTER_CLASSES = ['report', 'book', 'memoir', 'scrreprt', 'scrbook'];
+const TABLE_RULES = new Set(['hline', 'toprule', 'midrule', 'bottomrule', 'cline', 'cmidrule']);
+
+// Switches like \bfseries apply to the rest of the enclosing group
+const DECLARATIONS: Record<string, string> = {
+  bfseries: 'font-bold', bf: 'font-bold', mdseries: 'font-normal', itshape: 'italic', it: 'italic',
+  em: 'italic', slshape: 'italic', sl: 'italic', upshape: 'not-italic', ttfamily: 'font-mono', tt: 'font-mono',
+  sffamily: 'font-sans', sf: 'font-sans', rmfamily: 'font-serif', rm: 'font-serif', normalfont: 'font-normal not-italic',
+  tiny: 'text-xs', scriptsize: 'text-xs', footnotesize: 'text-sm', small: 'text-sm', normalsize: 'text-base',
+  large: 'text-lg', Large: 'text-xl', LARGE: 'text-2xl', huge: 'text-3xl', Huge: 'text-4xl',
+  centering: 'text-center', raggedright: 'text-left', raggedleft: 'text-right'
+};
+
+const SYMBOLS: Record<string, string> = {
+  LaTeX: 'LaTeX', LaTeXe: 'LaTeX2ε', TeX: 'TeX', BibTeX: 'BibTeX', ldots: '…', dots: '…', textellipsis: '…',
+  textbackslash: '\\', textasciitilde: '~', textasciicircum: '^', textbar: '|', textless: '<', textgreater: '>',
+  textendash: '–', textemdash: '—', textquoteleft: '‘', textquoteright: '’', textquotedblleft: '“',
+  textquotedblright: '”', textbullet: '•', textperiodcentered: '·', textdegree: '°', S: '§', P: '¶',
+  copyright: '©', textcopyright: '©', textregistered: '®', texttrademark: '™', dag: '†', ddag: '‡',
+  pounds: '£', euro: '€', textunderscore: '_', i: 'ı', j: 'ȷ', ss: 'ß', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ',
+  o: 'ø', O: 'Ø', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', quad: ' ', qquad: '  ', enspace: ' ',
+  thinspace: ' ', space: ' ', hfill: ' ', hfil: ' ', dotfill: ' ', textvisiblespace: '␣', slash: '/'
+};
+
+// Combining marks for accent commands such as \"o and \c{c}
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301', '`': '\u0300', '^': '\u0302', '"': '\u0308', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328', r: '\u030A', d: '\u0323', b: '\u0331'
+};
+
+const MAX_EXPANSION_DEPTH = 50;
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The preview is injected as HTML, so links from a shared document must not run script
+const LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+const isSafeLink = (url: string): boolean => {
+  if (url.startsWith('#')) return true;
+  try {
+    return LINK_PROTOCOLS.has(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const toAnchorId = (prefix: string, key: string): string =>
+  `${prefix}-${key.replace(/[^A-Za-z0-9_-]/g, '-')}`;
+
+const toRoman = (value: number): string => {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+  ];
+  let remaining = value;
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  }
+  return result;
+};
+
+const toAlpha = (value: number): string => String.fromCharCode(96 + ((value - 1) % 26) + 1);
+
+// Index of the "}" closing the group opened at `openIndex`, skipping escapes and comments
+const findGroupEnd = (source: string, openIndex: number, open = '{', close = '}'): number => {
+  let depth = 0;
+  for (let index = openIndex; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '%') {
+      const lineEnd = source.indexOf('\n', index);
+      if (lineEnd === -1) return -1;
+      index = lineEnd;
+    } else if (char === open) {
+      depth++;
+    } else if (char === close) {
+      depth--;
+      if (depth === 0) return index;
+    } else if (open !== '{' && char === '{') {
+      const groupEnd = findGroupEnd(source, index);
+      if (groupEnd === -1) return -1;
+      index = groupEnd;
+    }
+  }
+  return -1;
+};
+
+// Split math at top-level \\ (outside braces and nested environments)
+const splitMathRows = (tex: string): string[] => {
+  const rows: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < tex.length; index++) {
+    const char = tex[index];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if (char === '\\') {
+      if (tex.startsWith('\\begin', index)) depth++;
+      else if (tex.startsWith('\\end', index)) depth--;
+      else if (tex[index + 1] === '\\' && depth === 0) {
+        rows.push(tex.slice(start, index));
+        index++;
+        // Optional spacing such as \\[2pt]
+        const spacing = tex.slice(index + 1).match(/^\s*\[[^\]]*\]/);
+        if (spacing) index += spacing[0].length;
+        start = index + 1;
+        continue;
+      }
+      index++;
+    }
+  }
+  rows.push(tex.slice(start));
+  return rows;
+};
+
+/**
+ * Parse .bib source into entries keyed by citation key, with lower-cased field names.
+ */
+const parseBibEntries = (source: string): Map<string, Record<string, string>> => {
+  const entries = new Map<string, Record<string, string>>();
+  const entryRegex = /@(\w+)\s*\{\s*([^,\s]+)\s*,/g;
+  let match;
+  while ((match = entryRegex.exec(source)) !== null) {
+    const type = match[1].toLowerCase();
+    if (type === 'comment' || type === 'string' || type === 'preamble') continue;
+    const fields: Record<string, string> = { entrytype: type };
+    let index = entryRegex.lastIndex;
+    for (;;) {
+      const fieldMatch = source.slice(index).match(/^\s*,?\s*([A-Za-z][\w-]*)\s*=\s*/);
+      if (!fieldMatch) break;
+      index += fieldMatch[0].length;
+      const name = fieldMatch[1].toLowerCase();
+      let value = '';
+      if (source[index] === '{') {
+        const end = findGroupEnd(source, index);
+        if (end === -1) break;
+        value = source.slice(index + 1, end);
+        index = end + 1;
+      } else if (source[index] === '"') {
+        const end = source.indexOf('"', index + 1);
+        if (end === -1) break;
+        value = source.slice(index + 1, end);
+        index = end + 1;
+      } else {
+        const bare = source.slice(index).match(/^[^,}\s]+/);
+        value = bare ? bare[0] : '';
+        index += value.length;
+      }
+      fields[name] = value.replace(/\s+/g, ' ').trim();
+    }
+    entries.set(match[2], fields);
+    entryRegex.lastIndex = index;
+  }
+  return entries;
+};
+
+// "Knuth, Donald E." and "Donald E. Knuth" both become "Donald E. Knuth"
+const formatBibNames = (names: string): string[] =>
+  names.split(/\s+and\s+/).map(name => {
+    const [last, first] = name.split(/\s*,\s*/);
+    return first ? `${first} ${last}` : name;
+  });
+
+const lastName = (name: string): string => {
+  const parts = name.replace(/[{}]/g, '').trim().split(/\s+/);
+  return parts[parts.length - 1] || name;
+};
+
+/**
+ * LaTeX-to-HTML renderer built on a real parse of the document. The preamble and body ranges
+ * come from LaTeXTreeProcessor; the body is parsed into a tree of commands, groups,
+ * environments and math, then rendered twice so that \ref and \cite can point forward.
+ */
+export class LaTeXHtmlRenderer extends LaTeXTreeProcessor {
+  private options: LaTeXHtmlRenderOptions = {};
+  private macros = new Map<string, MacroDefinition>();
+  private environments = new Map<string, EnvironmentDefinition>();
+  private theorems = new Map<string, TheoremDefinition>();
+  private mathMacros: Record<string, string> = {};
+  private expansionDepth = 0;
+  private hasChapters = false;
+  private graphicsPaths: string[] = [];
+  private bibEntries = new Map<string, Record<string, string>>();
+
+  // Front matter, set wherever \title, \author and \date appear
+  private title: string | null = null;
+  private author: string | null = null;
+  private date: string | null = null;
+
+  // Collected by the first rendering pass and read by the second
+  private collecting = false;
+  private labels = new Map<string, string>();
+  private knownLabels = new Map<string, string>();
+  private headings: Heading[] = [];
+  private knownHeadings: Heading[] = [];
+  private bibitemLabels = new Map<string, string>();
+  private citationOrder: string[] = [];
+  private citeAll = false;
+
+  // Per-pass state
+  private counters: Record<string, number> = {};
+  private currentLabel = '';
+  private floatStack: string[] = [];
+  private listDepth = 0;
+  private enumerateDepth = 0;
+  private inAppendix = false;
+  private footnotes: string[] = [];
+
+  public renderDocument(latex: string, options: LaTeXHtmlRenderOptions = {}): string {
+    this.options = options;
+    this.bibEntries = parseBibEntries(options.bibliography || '');
+
+    const root = this.parseDocument(latex);
+    const preamble = root.children.find(child => child.type === 'preamble');
+    const body = root.children.find(child => child.type === 'body');
+    const documentClass = preamble ? this.findNodesByType(preamble, 'documentclass')[0] : undefined;
+    this.hasChapters = CHAPTER_CLASSES.includes(documentClass?.name || '');
+
+    // Without \begin{document} the whole source is treated as body text
+    const preambleNodes = preamble
+      ? this.parse(preamble.content.slice(0, preamble.content.lastIndexOf('\\begin{document}')))
+      : [];
+    const bodyNodes = body ? this.parse(body.content) : preamble ? [] : this.parse(latex);
+
+    this.collecting = true;
+    this.resetPass();
+    this.renderFlow(preambleNodes);
+    this.renderFlow(bodyNodes);
+    this.knownLabels = this.labels;
+    this.knownHeadings = this.headings;
+
+    this.collecting = false;
+    this.resetPass();
+    this.renderFlow(preambleNodes);
+    const content = this.renderFlow(bodyNodes);
+
+    const footnotes = this.footnotes.length > 0
+      ? `<ol class="mt-8 pt-3 border-t border-gray-300 text-sm space-y-1 pl-6" style="list-style-type: decimal">${
+        this.footnotes.map((footnote, index) => `<li id="footnote-${index + 1}">${footnote}</li>`).join('')
+      }</ol>`
+      : '';
+    const notice = options.notice
+      ? `<div class="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6"><p class="text-blue-700">${escapeHtml(options.notice)}</p></div>`
+      : '';
+
+    return `<div class="latex-preview font-serif text-black">${notice}<div class="latex-content max-w-none leading-relaxed">${content}${footnotes}</div></div>`;
+  }
+
+  private resetPass(): void {
+    this.labels = new Map();
+    this.headings = [];
+    this.counters = {};
+    this.currentLabel = '';
+    this.floatStack = [];
+    this.listDepth = 0;
+    this.enumerateDepth = 0;
+    this.inAppendix = false;
+    this.footnotes = [];
+  }
+
+  // --- Parsing ---
+
+  private parse(source: string): AstNode[] {
+    const nodes: AstNode[] = [];
+    let text = '';
+    let index = 0;
+
+    const flushText = () => {
+      if (text) nodes.push({ kind: 'text', value: text });
+      text = '';
+    };
+    const push = (...added: AstNode[]) => {
+      flushText();
+      nodes.push(...added);
+    };
+
+    while (index < source.length) {
+      const char = source[index];
+
+      if (char === '%') {
+        // A comment also swallows the line break and the next line's indentation
+        const lineEnd = source.indexOf('\n', index);
+        index = lineEnd === -1 ? source.length : lineEnd + 1;
+        while (source[index] === ' ' || source[index] === '\t') index++;
+      } else if (char === '\\') {
+        const nameMatch = source.slice(index + 1).match(/^[A-Za-z@]+/);
+        if (nameMatch) {
+          index += 1 + nameMatch[0].length;
+          // Spaces after a control word are not part of the text
+          while (source[index] === ' ' || source[index] === '\t') index++;
+          if (source[index] === '\n' && !/^\n[ \t]*\n/.test(source.slice(index))) {
+            index++;
+            while (source[index] === ' ' || source[index] === '\t') index++;
+          }
+          const result = this.parseCommand(nameMatch[0], source, index);
+          push(...result.nodes);
+          index = result.end;
+        } else {
+          const result = this.parseControlSymbol(source, index);
+          if (result.text !== undefined) {
+            text += result.text;
+          } else {
+            push(...result.nodes);
+          }
+          index = result.end;
+        }
+      } else if (char === '{') {
+        const end = findGroupEnd(source, index);
+        const inner = source.slice(index + 1, end === -1 ? source.length : end);
+        push({ kind: 'group', children: this.parse(inner) });
+        index = end === -1 ? source.length : end + 1;
+      } else if (char === '}') {
+        index++;
+      } else if (char === '$') {
+        const display = source[index + 1] === '$';
+        const delimiter = display ? '$$' : '$';
+        const end = this.findMathEnd(source, index + delimiter.length, delimiter);
+        push({
+          kind: 'math',
+          display,
+          environment: null,
+          args: [],
+          tex: source.slice(index + delimiter.length, end === -1 ? source.length : end)
+        });
+        index = end === -1 ? source.length : end + delimiter.length;
+      } else if (char === '&') {
+        push({ kind: 'tab' });
+        index++;
+      } else if (char === '~') {
+        text += ' ';
+        index++;
+      } else if (/\s/.test(char)) {
+        const whitespace = source.slice(index).match(/^\s+/)![0];
+        if ((whitespace.match(/\n/g) || []).length >= 2) {
+          push({ kind: 'parbreak' });
+        } else if (!text.endsWith(' ')) {
+          text += ' ';
+        }
+        index += whitespace.length;
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    flushText();
+    return nodes;
+  }
+
+  private findMathEnd(source: string, from: number, delimiter: string): number {
+    for (let index = from; index < source.length; index++) {
+      if (source[index] === '\\') {
+        index++;
+      } else if (source.startsWith(delimiter, index)) {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  // Read the arguments of a command or environment described by an xparse-style spec
+  private readArguments(source: string, from: number, spec: string): { args: (string | null)[]; starred: boolean; end: number } {
+    const args: (string | null)[] = [];
+    let starred = false;
+    let index = from;
+
+    for (const kind of spec) {
+      if (kind === 's') {
+        if (source[index] === '*') {
+          starred = true;
+          index++;
+        }
+        continue;
+      }
+
+      let lookahead = index;
+      while (lookahead < source.length && /\s/.test(source[lookahead]) && !/^\n[ \t]*\n/.test(source.slice(lookahead))) {
+        lookahead++;
+      }
+
+      if (kind === 'o') {
+        if (source[lookahead] !== '[') {
+          args.push(null);
+          continue;
+        }
+        const end = findGroupEnd(source, lookahead, '[', ']');
+        args.push(source.slice(lookahead + 1, end === -1 ? source.length : end));
+        index = end === -1 ? source.length : end + 1;
+        continue;
+      }
+
+      index = lookahead;
+      if (source[index] === '{') {
+        const end = findGroupEnd(source, index);
+        args.push(source.slice(index + 1, end === -1 ? source.length : end));
+        index = end === -1 ? source.length : end + 1;
+      } else if (source[index] === '\\') {
+        const token = source.slice(index).match(/^\\([A-Za-z@]+|.)/);
+        args.push(token ? token[0] : '\\');
+        index += token ? token[0].length : 1;
+      } else if (index < source.length) {
+        args.push(source[index]);
+        index++;
+      } else {
+        args.push('');
+      }
+    }
+
+    return { args, starred, end: index };
+  }
+
+  private parseControlSymbol(source: string, index: number): { nodes: AstNode[]; text?: string; end: number } {
+    const symbol = source[index + 1];
+    if (symbol === undefined) return { nodes: [], end: index + 1 };
+
+    if (symbol === '\\') {
+      // \\, \\* and \\[2pt] all break the line
+      const { end } = this.readArguments(source, index + 2, 'so');
+      return { nodes: [{ kind: 'newline' }], end };
+    }
+    if (symbol === '[' || symbol === '(') {
+      const closing = symbol === '[' ? '\\]' : '\\)';
+      const end = source.indexOf(closing, index + 2);
+      const tex = source.slice(index + 2, end === -1 ? source.length : end);
+      return {
+        nodes: [{ kind: 'math', display: symbol === '[', environment: null, args: [], tex }],
+        end: end === -1 ? source.length : end + 2
+      };
+    }
+    if (ACCENTS[symbol]) {
+      const { args, end } = this.readArguments(source, index + 2, 'm');
+      return { nodes: [], text: this.applyAccent(symbol, args[0] || ''), end };
+    }
+    if ('%&$#_{}'.includes(symbol)) return { nodes: [], text: symbol, end: index + 2 };
+    if (symbol === ' ' || symbol === '\n') return { nodes: [], text: ' ', end: index + 2 };
+    if (symbol === ',') return { nodes: [], text: ' ', end: index + 2 };
+    if (symbol === ';' || symbol === ':') return { nodes: [], text: ' ', end: index + 2 };
+    return { nodes: [], text: '', end: index + 2 };
+  }
+
+  private applyAccent(accent: string, base: string): string {
+    const letter = base.replace(/\\i\b/, 'ı').replace(/\\j\b/, 'ȷ').replace(/[{}\s]/g, '');
+    return letter ? `${letter[0]}${ACCENTS[accent]}${letter.slice(1)}`.normalize('NFC') : '';
+  }
+
+  private parseCommand(name: string, source: string, index: number): { nodes: AstNode[]; end: number } {
+    const macro = this.macros.get(name);
+    if (macro) return this.expandMacro(name, macro, source, index);
+
+    switch (name) {
+      case 'newcommand':
+      case 'renewcommand':
+      case 'providecommand': {
+        const { args, end } = this.readArguments(source, index, 'smoom');
+        const macroName = (args[0] || '').trim().replace(/^\\/, '');
+        if (macroName && !(name === 'providecommand' && this.macros.has(macroName))) {
+          this.defineMacro(macroName, parseInt(args[1] || '0', 10) || 0, args[2], args[3] || '');
+        }
+        return { nodes: [], end };
+      }
+      case 'def':
+      case 'gdef':
+      case 'edef':
+      case 'xdef': {
+        const nameMatch = source.slice(index).match(/^\\([A-Za-z@]+|.)/);
+        if (!nameMatch) return { nodes: [], end: index };
+        const bodyStart = source.indexOf('{', index + nameMatch[0].length);
+        if (bodyStart === -1) return { nodes: [], end: source.length };
+        const parameters = source.slice(index + nameMatch[0].length, bodyStart);
+        const bodyEnd = findGroupEnd(source, bodyStart);
+        const body = source.slice(bodyStart + 1, bodyEnd === -1 ? source.length : bodyEnd);
+        this.defineMacro(nameMatch[1], (parameters.match(/#\d/g) || []).length, null, body);
+        return { nodes: [], end: bodyEnd === -1 ? source.length : bodyEnd + 1 };
+      }
+      case 'let': {
+        const { end } = this.readArguments(source, index, 'mm');
+        return { nodes: [], end };
+      }
+      case 'DeclareMathOperator': {
+        const { args, starred, end } = this.readArguments(source, index, 'smm');
+        const operator = (args[0] || '').trim();
+        if (operator.startsWith('\\')) {
+          this.mathMacros[operator] = `\\operatorname${starred ? '*' : ''}{${args[1] || ''}}`;
+        }
+        return { nodes: [], end };
+      }
+      case 'newenvironment':
+      case 'renewenvironment': {
+        const { args, end } = this.readArguments(source, index, 'smoomm');
+        const environmentName = (args[0] || '').trim();
+        if (environmentName) {
+          this.environments.set(environmentName, {
+            params: parseInt(args[1] || '0', 10) || 0,
+            defaultArg: args[2],
+            body: args[3] || '',
+            end: args[4] || ''
+          });
+        }
+        return { nodes: [], end };
+      }
+      case 'newtheorem': {
+        const { args, starred, end } = this.readArguments(source, index, 'smomo');
+        const theoremName = (args[0] || '').trim();
+        if (theoremName) {
+          this.theorems.set(theoremName, {
+            title: args[2] || theoremName,
+            counter: starred ? null : (args[1] || '').trim() || theoremName
+          });
+        }
+        return { nodes: [], end };
+      }
+      case 'verb': {
+        const starred = source[index] === '*';
+        const delimiterIndex = starred ? index + 1 : index;
+        const delimiter = source[delimiterIndex];
+        if (!delimiter) return { nodes: [], end: source.length };
+        const end = source.indexOf(delimiter, delimiterIndex + 1);
+        const text = source.slice(delimiterIndex + 1, end === -1 ? source.length : end);
+        return { nodes: [{ kind: 'verbatim', display: false, text }], end: end === -1 ? source.length : end + 1 };
+      }
+      case 'lstinline':
+      case 'mintinline': {
+        let start = this.readArguments(source, index, name === 'mintinline' ? 'om' : 'o').end;
+        const delimiter = source[start];
+        if (delimiter === '{') {
+          const end = findGroupEnd(source, start);
+          const text = source.slice(start + 1, end === -1 ? source.length : end);
+          return { nodes: [{ kind: 'verbatim', display: false, text }], end: end === -1 ? source.length : end + 1 };
+        }
+        start++;
+        const end = source.indexOf(delimiter, start);
+        const text = source.slice(start, end === -1 ? source.length : end);
+        return { nodes: [{ kind: 'verbatim', display: false, text }], end: end === -1 ? source.length : end + 1 };
+      }
+      case 'begin':
+        return this.parseEnvironment(source, index);
+      case 'end': {
+        const { end } = this.readArguments(source, index, 'm');
+        return { nodes: [], end };
+      }
+      case 'input':
+      case 'include':
+      case 'subfile':
+      case 'import': {
+        const { args, end } = this.readArguments(source, index, COMMAND_SPECS[name]);
+        const path = name === 'import' ? `${args[0] || ''}${args[1] || ''}` : args[0] || '';
+        return { nodes: this.parseInput(path.trim()), end };
+      }
+      case 'par':
+        return { nodes: [{ kind: 'parbreak' }], end: index };
+      case 'newline':
+      case 'tabularnewline':
+        return { nodes: [{ kind: 'newline' }], end: index };
+    }
+
+    // Letter accents such as \c{c} and \v{s}
+    if (ACCENTS[name]) {
+      const { args, end } = this.readArguments(source, index, 'm');
+      return { nodes: [{ kind: 'text', value: this.applyAccent(name, args[0] || '') }], end };
+    }
+
+    const spec = COMMAND_SPECS[name];
+    if (spec === undefined || spec === '') {
+      return { nodes: [{ kind: 'command', name, starred: false, args: [] }], end: index };
+    }
+    const { args, starred, end } = this.readArguments(source, index, spec);
+    return { nodes: [{ kind: 'command', name, starred, args }], end };
+  }
+
+  private defineMacro(name: string, params: number, defaultArg: string | null, body: string): void {
+    this.macros.set(name, { params, defaultArg, body });
+    // KaTeX expands the same definition inside math; it has no optional arguments
+    this.mathMacros[`\\${name}`] = body;
+  }
+
+  private substituteParameters(body: string, args: (string | null)[]): string {
+    return body.replace(/##|#(\d)/g, (match, digit) => digit ? args[Number(digit) - 1] ?? '' : '#');
+  }
+
+  private withExpansion(parseExpanded: () => AstNode[]): AstNode[] {
+    if (this.expansionDepth >= MAX_EXPANSION_DEPTH) return [];
+    this.expansionDepth++;
+    try {
+      return parseExpanded();
+    } finally {
+      this.expansionDepth--;
+    }
+  }
+
+  private expandMacro(name: string, macro: MacroDefinition, source: string, index: number): { nodes: AstNode[]; end: number } {
+    let spec = 'm'.repeat(macro.params);
+    if (macro.defaultArg !== null && macro.params > 0) spec = `o${spec.slice(1)}`;
+    const { args, end } = this.readArguments(source, index, spec);
+    if (macro.defaultArg !== null && macro.params > 0 && args[0] === null) args[0] = macro.defaultArg;
+    const nodes = this.withExpansion(() => this.parse(this.substituteParameters(macro.body, args)));
+    return { nodes, end };
+  }
+
+  private parseInput(path: string): AstNode[] {
+    if (!path || !this.options.resolveInput) return [];
+    const normalized = path.replace(/^\.\//, '');
+    const candidates = /\.[A-Za-z]+$/.test(normalized) ? [normalized] : [`${normalized}.tex`, normalized];
+    for (const candidate of candidates) {
+      const content = this.options.resolveInput(candidate);
+      if (content !== null) {
+        // A \subfile is a complete document; only its body belongs here
+        const bodyMatch = content.match(/\\begin\{document\}([\s\S]*?)(\\end\{document\}|$)/);
+        return this.withExpansion(() => this.parse(bodyMatch ? bodyMatch[1] : content));
+      }
+    }
+    return [];
+  }
+
+  private parseEnvironment(source: string, index: number): { nodes: AstNode[]; end: number } {
+    const nameArgument = this.readArguments(source, index, 'm');
+    const name = (nameArgument.args[0] || '').trim();
+    const bodyStart = nameArgument.end;
+
+    // Find the matching \end{name}, allowing the same environment to nest
+    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const boundaryRegex = new RegExp(`\\\\(begin|end)\\s*\\{${escapedName}\\}`, 'g');
+    boundaryRegex.lastIndex = bodyStart;
+    let depth = 1;
+    let bodyEnd = source.length;
+    let end = source.length;
+    let match;
+    while ((match = boundaryRegex.exec(source)) !== null) {
+      depth += match[1] === 'begin' ? 1 : -1;
+      if (depth === 0) {
+        bodyEnd = match.index;
+        end = match.index + match[0].length;
+        break;
+      }
+    }
+
+    const userEnvironment = this.environments.get(name);
+    if (userEnvironment) {
+      let spec = 'm'.repeat(userEnvironment.params);
+      if (userEnvironment.defaultArg !== null && userEnvironment.params > 0) spec = `o${spec.slice(1)}`;
+      const { args, end: argsEnd } = this.readArguments(source, bodyStart, spec);
+      if (userEnvironment.defaultArg !== null && userEnvironment.params > 0 && args[0] === null) {
+        args[0] = userEnvironment.defaultArg;
+      }
+      const expanded = `${this.substituteParameters(userEnvironment.body, args)}${source.slice(argsEnd, bodyEnd)}${userEnvironment.end}`;
+      return { nodes: this.withExpansion(() => this.parse(expanded)), end };
+    }
+
+    // Theorem-like environments take an optional note: \begin{theorem}[Fermat]
+    const spec = ENVIRONMENT_SPECS[name] ?? (this.theorems.has(name) ? 'o' : '');
+    const { args, end: argsEnd } = this.readArguments(source, bodyStart, spec);
+    const body = source.slice(argsEnd, bodyEnd);
+
+    if (MATH_ENVIRONMENTS.has(name)) {
+      return { nodes: [{ kind: 'math', display: name !== 'math', environment: name, args, tex: body }], end };
+    }
+    if (VERBATIM_ENVIRONMENTS.has(name)) {
+      return {
+        nodes: name === 'comment' ? [] : [{ kind: 'verbatim', display: true, text: body.replace(/^[ \t]*\n/, '') }],
+        end
+      };
+    }
+    return { nodes: [{ kind: 'environment', name, args, children: this.parse(body) }], end };
+  }
+
+  // --- Rendering ---
+
+  private renderFlow(nodes: AstNode[], paragraphClass = 'my-3'): string {
+    let html = '';
+    let paragraph = '';
+    const flush = () => {
+      if (paragraph.trim()) html += `<p class="${paragraphClass}">${paragraph.trim()}</p>`;
+      paragraph = '';
+    };
+
+    for (let index = 0; index < nodes.length; index++) {
+      const node = nodes[index];
+      if (node.kind === 'parbreak') {
+        flush();
+        continue;
+      }
+      if (node.kind === 'command' && DECLARATIONS[node.name] !== undefined) {
+        flush();
+        const rest = this.renderFlow(nodes.slice(index + 1), paragraphClass);
+        html += DECLARATIONS[node.name] ? `<div class="${DECLARATIONS[node.name]}">${rest}</div>` : rest;
+        return html;
+      }
+      const rendered = this.renderNode(node);
+      if (rendered.block) {
+        flush();
+        html += rendered.html;
+      } else {
+        paragraph += rendered.html;
+      }
+    }
+
+    flush();
+    return html;
+  }
+
+  private renderInline(nodes: AstNode[]): string {
+    let html = '';
+    for (let index = 0; index < nodes.length; index++) {
+      const node = nodes[index];
+      if (node.kind === 'parbreak') {
+        html += ' ';
+        continue;
+      }
+      if (node.kind === 'command' && DECLARATIONS[node.name] !== undefined) {
+        const rest = this.renderInline(nodes.slice(index + 1));
+        return html + (DECLARATIONS[node.name] ? `<span class="${DECLARATIONS[node.name]}">${rest}</span>` : rest);
+      }
+      html += this.renderNode(node).html;
+    }
+    return html;
+  }
+
+  // Render a raw argument as inline HTML
+  private renderArgument(raw: string | null): string {
+    return raw === null ? '' : this.renderInline(this.parse(raw)).trim();
+  }
+
+  private renderNode(node: AstNode): Rendered {
+    switch (node.kind) {
+      case 'text':
+        return { html: this.formatText(node.value), block: false };
+      case 'group':
+        return { html: this.renderInline(node.children), block: false };
+      case 'parbreak':
+        return { html: '', block: true };
+      case 'newline':
+        return { html: '<br>', block: false };
+      case 'tab':
+        return { html: ' ', block: false };
+      case 'math':
+        return this.renderMath(node);
+      case 'verbatim':
+        return node.display
+          ? { html: `<pre class="my-4 p-3 bg-gray-50 border border-gray-200 rounded text-sm font-mono overflow-x-auto">${escapeHtml(node.text)}</pre>`, block: true }
+          : { html: `<code class="font-mono text-sm">${escapeHtml(node.text)}</code>`, block: false };
+      case 'command':
+        return this.renderCommand(node);
+      case 'environment':
+        return this.renderEnvironment(node);
+    }
+  }
+
+  private formatText(value: string): string {
+    return escapeHtml(value)
+      .replace(/---/g, '—')
+      .replace(/--/g, '–')
+      .replace(/``/g, '“')
+      .replace(/''/g, '”')
+      .replace(/`/g, '‘')
+      .replace(/'/g, '’');
+  }
+
+  private step(counter: string): number {
+    this.counters[counter] = (this.counters[counter] || 0) + 1;
+    return this.counters[counter];
+  }
+
+  // Equations, figures and tables are numbered within chapters in report and book classes
+  private numberWithinChapter(counter: string): string {
+    const value = this.step(counter);
+    return this.hasChapters && this.counters.chapter ? `${this.chapterNumber()}.${value}` : String(value);
+  }
+
+  private chapterNumber(): string {
+    const chapter = this.counters.chapter || 0;
+    return this.inAppendix ? String.fromCharCode(64 + chapter) : String(chapter);
+  }
+
+  private setLabel(key: string): string {
+    if (this.collecting) this.labels.set(key, this.currentLabel);
+    return `<span id="${toAnchorId('ref', key)}"></span>`;
+  }
+
+  private renderReference(key: string, wrap: (number: string) => string = number => number): string {
+    const number = this.knownLabels.get(key);
+    if (number === undefined) return '<strong>??</strong>';
+    return `<a href="#${toAnchorId('ref', key)}" class="text-blue-600">${escapeHtml(wrap(number))}</a>`;
+  }
+
+  private renderCommand(node: Extract<AstNode, { kind: 'command' }>): Rendered {
+    const { name, args, starred } = node;
+    const inline = (html: string): Rendered => ({ html, block: false });
+    const block = (html: string): Rendered => ({ html, block: true });
+
+    if (SECTION_LEVELS[name] !== undefined) return block(this.renderHeading(name, starred, args[1]));
+    if (SYMBOLS[name] !== undefined) return inline(escapeHtml(SYMBOLS[name]));
+
+    switch (name) {
+      case 'title':
+        this.title = args[1];
+        return inline('');
+      case 'author':
+        this.author = args[1];
+        return inline('');
+      case 'date':
+        this.date = args[0];
+        return inline('');
+      case 'maketitle':
+        return block(this.renderTitle());
+      case 'today':
+        return inline(escapeHtml(new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })));
+      case 'textbf':
+        return inline(`<strong>${this.renderArgument(args[0])}</strong>`);
+      case 'textit':
+      case 'emph':
+      case 'textsl':
+        return inline(`<em>${this.renderArgument(args[0])}</em>`);
+      case 'underline':
+      case 'uline':
+        return inline(`<u>${this.renderArgument(args[0])}</u>`);
+      case 'sout':
+        return inline(`<s>${this.renderArgument(args[0])}</s>`);
+      case 'texttt':
+        return inline(`<code class="font-mono">${this.renderArgument(args[0])}</code>`);
+      case 'textsf':
+        return inline(`<span class="font-sans">${this.renderArgument(args[0])}</span>`);
+      case 'textsc':
+        return inline(`<span style="font-variant: small-caps">${this.renderArgument(args[0])}</span>`);
+      case 'textsuperscript':
+        return inline(`<sup>${this.renderArgument(args[0])}</sup>`);
+      case 'textsubscript':
+        return inline(`<sub>${this.renderArgument(args[0])}</sub>`);
+      case 'textrm':
+      case 'textup':
+      case 'textmd':
+      case 'textnormal':
+      case 'mbox':
+      case 'hbox':
+      case 'text':
+      case 'phantom':
+        return inline(name === 'phantom' ? '' : this.renderArgument(args[0]));
+      case 'makebox':
+        return inline(this.renderArgument(args[2]));
+      case 'fbox':
+        return inline(`<span class="border border-black px-1">${this.renderArgument(args[0])}</span>`);
+      case 'textcolor':
+      case 'colorbox': {
+        const color = /^[A-Za-z]+$/.test(args[1] || '') ? args[1] : null;
+        const property = name === 'textcolor' ? 'color' : 'background-color';
+        const style = color && args[0] === null ? ` style="${property}: ${color}"` : '';
+        return inline(`<span${style}>${this.renderArgument(args[2])}</span>`);
+      }
+      case 'raisebox':
+      case 'scalebox':
+      case 'rotatebox':
+      case 'hyperlink':
+      case 'hypertarget':
+        return inline(this.renderArgument(args[1]));
+      case 'resizebox':
+        return inline(this.renderArgument(args[2]));
+      case 'hyperref':
+        return inline(this.renderArgument(args[1]));
+      case 'url': {
+        const url = (args[0] || '').trim();
+        if (!isSafeLink(url)) return inline(`<span class="break-all">${escapeHtml(url)}</span>`);
+        return inline(`<a href="${escapeHtml(url)}" class="text-blue-600 break-all" target="_blank" rel="noopener noreferrer">${escapeHtml(url)}</a>`);
+      }
+      case 'href': {
+        const url = (args[0] || '').trim();
+        if (!isSafeLink(url)) return inline(this.renderArgument(args[1]));
+        return inline(`<a href="${escapeHtml(url)}" class="text-blue-600" target="_blank" rel="noopener noreferrer">${this.renderArgument(args[1])}</a>`);
+      }
+      case 'footnote':
+      case 'thanks':
+        return inline(this.renderFootnote(name === 'thanks' ? args[0] : args[1]));
+      case 'label':
+        return inline(this.setLabel((args[0] || '').trim()));
+      case 'ref':
+      case 'autoref':
+      case 'cref':
+      case 'Cref':
+      case 'pageref':
+      case 'nameref':
+        return inline((args[0] || '').split(',').map(key => this.renderReference(key.trim())).join(', '));
+      case 'eqref':
+        return inline(this.renderReference((args[0] || '').trim(), number => `(${number})`));
+      case 'cite':
+      case 'citep':
+      case 'citet':
+      case 'parencite':
+      case 'textcite':
+      case 'autocite':
+        return inline(this.renderCitation(name, args[0], args[1], args[2] || ''));
+      case 'citeauthor':
+      case 'citeyear':
+        return inline(this.renderCitationField(name, args[1] || ''));
+      case 'nocite':
+        this.registerCitations(args[0] || '');
+        return inline('');
+      case 'bibliography':
+      case 'printbibliography':
+        return block(this.renderBibliography());
+      case 'graphicspath':
+        this.graphicsPaths = parseGraphicsPaths(`\\graphicspath{${args[0] || ''}}`);
+        return inline('');
+      case 'includegraphics':
+        return inline(this.renderImage(args[0], args[1] || ''));
+      case 'caption':
+        return block(this.renderCaption(args[1]));
+      case 'tableofcontents':
+        return block(this.renderTableOfContents());
+      case 'appendix':
+        this.inAppendix = true;
+        this.counters[this.hasChapters ? 'chapter' : 'section'] = 0;
+        return inline('');
+      case 'newpage':
+      case 'clearpage':
+      case 'cleardoublepage':
+        return block('');
+      case 'multicolumn':
+        return inline(this.renderArgument(args[2]));
+      case 'multirow':
+        return inline(this.renderArgument(args[2]));
+    }
+
+    // Layout, setup and unknown commands render nothing; their braces (if any) follow as groups
+    return inline('');
+  }
+
+  private renderHeading(name: string, starred: boolean, rawTitle: string | null): string {
+    const level = SECTION_LEVELS[name];
+    let number = '';
+
+    if (!starred && level <= 3) {
+      if (name === 'part') {
+        number = toRoman(this.step('part')).toUpperCase();
+      } else if (name === 'chapter') {
+        this.step('chapter');
+        for (const counter of ['section', 'subsection', 'subsubsection', 'equation', 'figure', 'table']) {
+          this.counters[counter] = 0;
+        }
+        number = this.chapterNumber();
+      } else {
+        const order = ['section', 'subsection', 'subsubsection'];
+        const position = order.indexOf(name);
+        this.step(name);
+        for (const counter of order.slice(position + 1)) this.counters[counter] = 0;
+        const parts = order.slice(0, position + 1).map(counter => String(this.counters[counter] || 0));
+        if (!this.hasChapters && this.inAppendix) parts[0] = String.fromCharCode(64 + (this.counters.section || 0));
+        number = (this.hasChapters ? [this.chapterNumber(), ...parts] : parts).join('.');
+      }
+      this.currentLabel = number;
+    }
+
+    const title = this.renderArgument(rawTitle);
+    const id = `section-${this.headings.length + 1}`;
+    this.headings.push({ level, number, title, id });
+    const prefix = number ? `<span class="mr-3">${escapeHtml(number)}</span>` : '';
+
+    switch (level) {
+      case -1:
+      case 0:
+        return `<h2 id="${id}" class="text-3xl font-bold mt-8 mb-4">${name === 'chapter' && number ? `<span class="block text-xl mb-2">Chapter ${escapeHtml(number)}</span>` : prefix}${title}</h2>`;
+      case 1:
+        return `<h2 id="${id}" class="text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-300">${prefix}${title}</h2>`;
+      case 2:
+        return `<h3 id="${id}" class="text-xl font-semibold mt-5 mb-2">${prefix}${title}</h3>`;
+      case 3:
+        return `<h4 id="${id}" class="text-lg font-semibold mt-4 mb-2">${prefix}${title}</h4>`;
+      default:
+        return `<h5 id="${id}" class="font-semibold mt-3 mb-1">${title}</h5>`;
+    }
+  }
+
+  private renderTitle(): string {
+    const authors = this.author === null
+      ? ''
+      : this.author.split(/\\and\b/).map(author => `<span class="inline-block mx-4">${this.renderArgument(author)}</span>`).join('');
+    // LaTeX prints today's date unless \date was given
+    const date = this.date === null
+      ? escapeHtml(new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }))
+      : this.renderArgument(this.date);
+
+    return `<div class="mb-6 text-center">${
+      this.title !== null ? `<h1 class="text-3xl font-bold mb-2">${this.renderArgument(this.title)}</h1>` : ''
+    }${authors ? `<p class="text-xl mb-1 text-gray-700">${authors}</p>` : ''}${
+      date ? `<p class="text-gray-500">${date}</p>` : ''
+    }</div>`;
+  }
+
+  private renderTableOfContents(): string {
+    const indents = ['', 'pl-4', 'pl-8', 'pl-12'];
+    const entries = this.knownHeadings
+      .filter(heading => heading.level <= 3 && heading.number)
+      .map(heading => `<li class="${indents[Math.max(heading.level, 0)] || ''}"><a href="#${heading.id}" class="hover:underline"><span class="mr-2">${escapeHtml(heading.number)}</span>${heading.title}</a></li>`)
+      .join('');
+    return `<div class="my-6"><h2 class="text-2xl font-bold mb-3">Contents</h2><ul class="space-y-1">${entries}</ul></div>`;
+  }
+
+  private renderFootnote(raw: string | null): string {
+    const number = this.step('footnote');
+    if (!this.collecting) this.footnotes.push(this.renderArgument(raw));
+    return `<sup><a href="#footnote-${number}" class="text-blue-600">${number}</a></sup>`;
+  }
+
+  // --- Citations ---
+
+  private registerCitations(keys: string): void {
+    if (!this.collecting) return;
+    for (const key of keys.split(',').map(value => value.trim()).filter(Boolean)) {
+      if (key === '*') {
+        this.citeAll = true;
+      } else if (this.bibEntries.has(key) && !this.citationOrder.includes(key)) {
+        this.citationOrder.push(key);
+      }
+    }
+  }
+
+  private citationLabel(key: string): string | null {
+    const bibitemLabel = this.bibitemLabels.get(key);
+    if (bibitemLabel !== undefined) return bibitemLabel;
+    const position = this.citationOrder.indexOf(key);
+    return position === -1 ? null : String(position + 1);
+  }
+
+  private renderCitation(command: string, prenote: string | null, postnote: string | null, keys: string): string {
+    this.registerCitations(keys);
+    // With one optional argument it is the postnote
+    const [before, after] = postnote === null ? [null, prenote] : [prenote, postnote];
+    const parts = keys.split(',').map(key => key.trim()).filter(Boolean).map(key => {
+      const label = this.citationLabel(key);
+      return label === null
+        ? '<strong>?</strong>'
+        : `<a href="#${toAnchorId('cite', key)}" class="text-blue-600">${escapeHtml(label)}</a>`;
+    });
+    const bracket = `[${before ? `${this.renderArgument(before)} ` : ''}${parts.join(', ')}${after ? `, ${this.renderArgument(after)}` : ''}]`;
+
+    if (command === 'citet' || command === 'textcite') {
+      const firstKey = keys.split(',')[0].trim();
+      const entry = this.bibEntries.get(firstKey);
+      if (entry?.author) {
+        const names = formatBibNames(entry.author);
+        const author = names.length > 2 ? `${lastName(names[0])} et al.` : names.map(lastName).join(' and ');
+        return `${this.renderArgument(author)} ${bracket}`;
+      }
+    }
+    return bracket;
+  }
+
+  private renderCitationField(command: string, keys: string): string {
+    const entry = this.bibEntries.get(keys.split(',')[0].trim());
+    if (!entry) return '<strong>?</strong>';
+    if (command === 'citeyear') return escapeHtml(entry.year || '');
+    const names = formatBibNames(entry.author || entry.editor || '');
+    return this.renderArgument(names.length > 2 ? `${lastName(names[0])} et al.` : names.map(lastName).join(' and '));
+  }
+
+  private formatBibEntry(entry: Record<string, string>): string {
+    const parts: string[] = [];
+    const names = formatBibNames(entry.author || entry.editor || '').filter(Boolean);
+    if (names.length > 0) {
+      parts.push(this.renderArgument(names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0]));
+    }
+    if (entry.title) parts.push(`<em>${this.renderArgument(entry.title)}</em>`);
+    const venue = entry.journal || entry.booktitle || entry.publisher || entry.school || entry.institution || entry.howpublished;
+    if (venue) parts.push(this.renderArgument(venue));
+    if (entry.year) parts.push(escapeHtml(entry.year));
+    return parts.join('. ') + (parts.length > 0 ? '.' : '');
+  }
+
+  private renderBibliography(): string {
+    const keys = this.citeAll
+      ? [...this.citationOrder, ...[...this.bibEntries.keys()].filter(key => !this.citationOrder.includes(key))]
+      : this.citationOrder;
+    if (keys.length === 0) return '';
+    const items = keys.map((key, index) =>
+      `<li id="${toAnchorId('cite', key)}" class="flex"><span class="w-10 flex-shrink-0">[${index + 1}]</span><span>${this.formatBibEntry(this.bibEntries.get(key)!)}</span></li>`
+    ).join('');
+    return `<div class="mt-8"><h2 class="text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-300">${this.hasChapters ? 'Bibliography' : 'References'}</h2><ol class="space-y-2 text-sm">${items}</ol></div>`;
+  }
+
+  // --- Math ---
+
+  private renderMath(node: Extract<AstNode, { kind: 'math' }>): Rendered {
+    const environment = node.environment;
+    const labelAnchors: string[] = [];
+    let tex = node.tex;
+
+    if (environment && /^(equation|multline|gather|align|flalign|alignat|eqnarray)$/.test(environment)) {
+      // Numbered environments: one number per row (or per equation), as explicit tags
+      const perRow = !/^(equation|multline)$/.test(environment);
+      const rows = perRow ? splitMathRows(tex) : [tex];
+      const taggedRows = rows.map((row, index) => {
+        const isTrailingEmptyRow = index === rows.length - 1 && rows.length > 1 && !row.trim();
+        if (isTrailingEmptyRow) return row;
+        const labels = [...row.matchAll(/\\label\{([^}]*)\}/g)].map(match => match[1].trim());
+        const explicitTag = row.match(/\\tag\*?\{([^}]*)\}/);
+        if (/\\(nonumber|notag)\b/.test(row) && !explicitTag) return row;
+        const number = explicitTag ? explicitTag[1] : this.numberWithinChapter('equation');
+        this.currentLabel = number;
+        labelAnchors.push(...labels.map(label => this.setLabel(label)));
+        return explicitTag ? row : `${row} \\tag{${number}}`;
+      });
+      tex = perRow ? taggedRows.join(' \\\\ ') : taggedRows[0];
+    } else {
+      for (const match of tex.matchAll(/\\label\{([^}]*)\}/g)) labelAnchors.push(this.setLabel(match[1].trim()));
+    }
+
+    tex = this.prepareMathSource(tex);
+    let katexSource = tex;
+    switch (environment) {
+      case 'multline':
+      case 'multline*':
+        katexSource = `\\begin{gathered}${tex}\\end{gathered}`;
+        break;
+      case 'align':
+      case 'align*':
+      case 'flalign':
+      case 'flalign*':
+      case 'eqnarray':
+      case 'eqnarray*':
+        katexSource = `\\begin{align*}${tex}\\end{align*}`;
+        break;
+      case 'alignat':
+      case 'alignat*':
+        katexSource = `\\begin{alignat*}{${node.args[0] || '1'}}${tex}\\end{alignat*}`;
+        break;
+      case 'gather':
+      case 'gather*':
+        katexSource = `\\begin{gather*}${tex}\\end{gather*}`;
+        break;
+    }
+
+    let html: string;
+    try {
+      html = katex.renderToString(katexSource, {
+        displayMode: node.display,
+        throwOnError: false,
+        output: 'html',
+        strict: false,
+        // KaTeX records \gdef in the macros object, so each formula gets its own copy
+        macros: { ...this.mathMacros }
+      });
+    } catch {
+      html = `<code class="font-mono text-red-600">${escapeHtml(node.tex)}</code>`;
+    }
+
+    return node.display
+      ? { html: `<div class="my-4 overflow-x-auto">${labelAnchors.join('')}${html}</div>`, block: true }
+      : { html: `${labelAnchors.join('')}${html}`, block: false };
+  }
+
+  // Resolve references and drop commands KaTeX does not know
+  private prepareMathSource(tex: string): string {
+    return tex
+      .replace(/\\label\{[^}]*\}/g, '')
+      .replace(/\\(nonumber|notag)\b/g, '')
+      .replace(/\\eqref\{([^}]*)\}/g, (match, key) => `\\text{(${this.knownLabels.get(key.trim()) ?? '??'})}`)
+      .replace(/\\(ref|autoref|cref|Cref)\{([^}]*)\}/g, (match, command, key) => `\\text{${this.knownLabels.get(key.trim()) ?? '??'}}`);
+  }
+
+  // --- Floats and images ---
+
+  // The same file the compiler picks, so a PDF figure shows as a placeholder rather than a sibling PNG
+  private resolveImagePath(path: string): { path: string; url: string } | null {
+    const resolveImage = this.options.resolveImage;
+    if (!resolveImage) return null;
+    const urls = new Map<string, string>();
+    const resolved = resolveGraphicsPath(path, this.graphicsPaths, candidate => {
+      const url = resolveImage(candidate);
+      if (url) urls.set(candidate, url);
+      return Boolean(url);
+    });
+    return resolved ? { path: resolved, url: urls.get(resolved) as string } : null;
+  }
+
+  private toCssLength(raw: string): string | null {
+    const relative = raw.match(/^\s*([\d.]*)\s*\\(textwidth|linewidth|columnwidth|hsize)\s*$/);
+    if (relative) return `${Math.round(parseFloat(relative[1] || '1') * 100)}%`;
+    const absolute = raw.match(/^\s*([\d.]+)\s*(cm|mm|in|pt|em|ex|px)\s*$/);
+    return absolute ? `${absolute[1]}${absolute[2]}` : null;
+  }
+
+  private renderImage(rawOptions: string | null, rawPath: string): string {
+    const path = rawPath.trim();
+    const options = Object.fromEntries(
+      (rawOptions || '').split(',').map(option => option.split('=').map(part => part.trim())).filter(([key]) => key)
+    );
+    const styles: string[] = [];
+    const width = options.width ? this.toCssLength(options.width) : null;
+    if (width) styles.push(`width: ${width}`);
+    const height = options.height ? this.toCssLength(options.height) : null;
+    if (height && !width) styles.push(`height: ${height}`);
+    if (!width && options.scale && parseFloat(options.scale) < 1) {
+      styles.push(`max-width: ${Math.round(parseFloat(options.scale) * 100)}%`);
+    }
+
+    const resolved = this.resolveImagePath(path);
+    if (resolved && /^(data:image\/|https?:|blob:|\/)/.test(resolved.url)) {
+      return `<img src="${escapeHtml(resolved.url)}" alt="${escapeHtml(path)}" class="inline-block max-w-full"${styles.length ? ` style="${styles.join('; ')}"` : ''}>`;
+    }
+    // Missing files and formats a browser cannot show (PDF, EPS) get a placeholder
+    const label = resolved ? resolved.path : path;
+    return `<span class="inline-block my-2 p-4 border-2 border-dashed border-gray-300 bg-gray-50 text-gray-500 text-sm"${width ? ` style="width: ${width}"` : ''}>Image: ${escapeHtml(label)}</span>`;
+  }
+
+  private renderCaption(raw: string | null): string {
+    const float = this.floatStack[this.floatStack.length - 1];
+    if (float === 'subfigure') {
+      const letter = toAlpha(this.step('subfigure'));
+      this.currentLabel = `${this.counters.figure ? this.numberLabel('figure') : ''}${letter}`;
+      return `<figcaption class="text-sm text-gray-700 mt-1">(${letter}) ${this.renderArgument(raw)}</figcaption>`;
+    }
+    const kind = float === 'table' ? 'table' : 'figure';
+    const number = this.numberWithinChapter(kind);
+    this.currentLabel = number;
+    if (kind === 'figure') this.counters.subfigure = 0;
+    const title = kind === 'table' ? 'Table' : 'Figure';
+    return `<figcaption class="text-sm text-gray-700 my-2"><span class="font-semibold">${title} ${escapeHtml(number)}:</span> ${this.renderArgument(raw)}</figcaption>`;
+  }
+
+  private numberLabel(counter: string): string {
+    const value = this.counters[counter] || 0;
+    return this.hasChapters && this.counters.chapter ? `${this.chapterNumber()}.${value}` : String(value);
+  }
+
+  // --- Environments ---
+
+  private renderEnvironment(node: Extract<AstNode, { kind: 'environment' }>): Rendered {
+    const { name, args, children } = node;
+    const block = (html: string): Rendered => ({ html, block: true });
+
+    if (TABULAR_ENVIRONMENTS.has(name)) {
+      return block(this.renderTabular((name === 'tabular*' ? args[2] : args[1]) || '', children));
+    }
+
+    const theorem = this.theorems.get(name);
+    if (theorem) return block(this.renderTheorem(theorem, args[0] ?? null, children));
+
+    switch (name) {
+      case 'document':
+        return block(this.renderFlow(children));
+      case 'abstract':
+        return block(`<div class="mx-8 my-6"><h3 class="text-center font-semibold mb-2">Abstract</h3>${this.renderFlow(children)}</div>`);
+      case 'itemize':
+      case 'enumerate':
+        return block(this.renderList(name, children));
+      case 'description':
+        return block(this.renderDescription(children));
+      case 'figure':
+      case 'figure*':
+      case 'wrapfigure':
+      case 'table':
+      case 'table*': {
+        this.floatStack.push(name.startsWith('table') ? 'table' : 'figure');
+        const content = this.renderFlow(children, 'my-2');
+        this.floatStack.pop();
+        return block(`<figure class="my-6 text-center">${content}</figure>`);
+      }
+      case 'subfigure': {
+        const width = args[1] ? this.toCssLength(args[1]) : null;
+        this.floatStack.push('subfigure');
+        const content = this.renderFlow(children, 'my-1');
+        this.floatStack.pop();
+        return block(`<div class="inline-block align-top mx-2"${width ? ` style="width: ${width}"` : ''}>${content}</div>`);
+      }
+      case 'center':
+        return block(`<div class="my-4 text-center">${this.renderFlow(children)}</div>`);
+      case 'flushleft':
+        return block(`<div class="my-4 text-left">${this.renderFlow(children)}</div>`);
+      case 'flushright':
+        return block(`<div class="my-4 text-right">${this.renderFlow(children)}</div>`);
+      case 'quote':
+      case 'quotation':
+      case 'verse':
+        return block(`<blockquote class="mx-8 my-4">${this.renderFlow(children)}</blockquote>`);
+      case 'minipage': {
+        const width = args[3] ? this.toCssLength(args[3]) : null;
+        return block(`<div class="inline-block align-top"${width ? ` style="width: ${width}"` : ''}>${this.renderFlow(children)}</div>`);
+      }
+      case 'proof': {
+        const title = args[0] !== null && args[0] !== undefined ? this.renderArgument(args[0]) : 'Proof';
+        return block(`<div class="my-4"><em>${title}.</em> ${this.renderFlow(children, 'my-2')}<div class="text-right">∎</div></div>`);
+      }
+      case 'thebibliography':
+        return block(this.renderBibitems(children));
+      case 'tikzpicture':
+      case 'pgfpicture':
+        return block('<div class="my-4 p-4 border-2 border-dashed border-gray-300 bg-gray-50 text-gray-500 text-sm text-center">TikZ picture (shown in the compiled PDF)</div>');
+    }
+
+    // Unknown environments keep their content
+    return block(this.renderFlow(children));
+  }
+
+  // Split an environment's children at each \item (or \bibitem)
+  private splitItems(children: AstNode[], itemCommand: string): { args: (string | null)[]; nodes: AstNode[] }[] {
+    const items: { args: (string | null)[]; nodes: AstNode[] }[] = [];
+    for (const child of children) {
+      if (child.kind === 'command' && child.name === itemCommand) {
+        items.push({ args: child.args, nodes: [] });
+      } else if (items.length > 0) {
+        items[items.length - 1].nodes.push(child);
+      }
+    }
+    return items;
+  }
+
+  private renderList(name: string, children: AstNode[]): string {
+    const isEnumerate = name === 'enumerate';
+    const depth = isEnumerate ? this.enumerateDepth++ : this.listDepth++;
+    const counter = `enumerate-${depth}`;
+    this.counters[counter] = 0;
+
+    const listStyles = isEnumerate
+      ? ['decimal', 'lower-alpha', 'lower-roman', 'upper-alpha']
+      : ['disc', 'circle', 'square', 'disc'];
+    const formatters = [String, toAlpha, toRoman, (value: number) => toAlpha(value).toUpperCase()];
+
+    const items = this.splitItems(children, 'item').map(item => {
+      if (isEnumerate) {
+        const value = this.step(counter);
+        this.currentLabel = formatters[Math.min(depth, 3)](value);
+      }
+      const content = this.renderFlow(item.nodes, 'my-1');
+      if (item.args[0] !== null) {
+        return `<li class="my-1" style="list-style-type: none"><span class="font-semibold mr-2">${this.renderArgument(item.args[0])}</span>${content}</li>`;
+      }
+      return `<li class="my-1">${content}</li>`;
+    }).join('');
+
+    if (isEnumerate) this.enumerateDepth--;
+    else this.listDepth--;
+
+    const tag = isEnumerate ? 'ol' : 'ul';
+    return `<${tag} class="pl-8 my-3" style="list-style-type: ${listStyles[Math.min(depth, 3)]}">${items}</${tag}>`;
+  }
+
+  private renderDescription(children: AstNode[]): string {
+    const items = this.splitItems(children, 'item').map(item =>
+      `<dt class="font-semibold">${this.renderArgument(item.args[0])}</dt><dd class="ml-8 mb-2">${this.renderFlow(item.nodes, 'my-1')}</dd>`
+    ).join('');
+    return `<dl class="my-3">${items}</dl>`;
+  }
+
+  private renderBibitems(children: AstNode[]): string {
+    let position = 0;
+    const items = this.splitItems(children, 'bibitem').map(item => {
+      position++;
+      const key = (item.args[1] || '').trim();
+      const label = item.args[0] !== null ? this.renderArgument(item.args[0]) : String(position);
+      if (this.collecting && key) this.bibitemLabels.set(key, item.args[0] !== null ? item.args[0].trim() : String(position));
+      return `<li id="${toAnchorId('cite', key)}" class="flex"><span class="w-10 flex-shrink-0">[${label}]</span><span>${this.renderInline(item.nodes).trim()}</span></li>`;
+    }).join('');
+    return `<div class="mt-8"><h2 class="text-2xl font-bold mt-6 mb-3 pb-1 border-b border-gray-300">${this.hasChapters ? 'Bibliography' : 'References'}</h2><ol class="space-y-2 text-sm">${items}</ol></div>`;
+  }
+
+  private renderTheorem(theorem: TheoremDefinition, note: string | null, children: AstNode[]): string {
+    let heading = theorem.title;
+    if (theorem.counter) {
+      const number = String(this.step(`theorem-${theorem.counter}`));
+      this.currentLabel = number;
+      heading += ` ${number}`;
+    }
+    const noteHtml = note !== null ? ` (${this.renderArgument(note)})` : '';
+    return `<div class="my-4"><span class="font-bold">${escapeHtml(heading)}${noteHtml}.</span> <div class="italic">${this.renderFlow(children, 'my-2')}</div></div>`;
+  }
+
+  // --- Tables ---
+
+  private parseColumnSpec(spec: string): { aligns: string[]; borders: boolean[] } {
+    const aligns: string[] = [];
+    const borders: boolean[] = [false];
+    let index = 0;
+    // *{3}{c} repeats a column group
+    const expanded = spec.replace(/\*\{(\d+)\}\{([^{}]*)\}/g, (match, count, group) => group.repeat(parseInt(count, 10)));
+
+    while (index < expanded.length) {
+      const char = expanded[index];
+      if (char === '|') {
+        borders[aligns.length] = true;
+      } else if ('lcrX'.includes(char) || 'pmb'.includes(char)) {
+        aligns.push(char === 'c' ? 'text-center' : char === 'r' ? 'text-right' : 'text-left');
+        borders[aligns.length] = false;
+        if ('pmb'.includes(char) && expanded[index + 1] === '{') {
+          index = findGroupEnd(expanded, index + 1);
+          if (index === -1) break;
+        }
+      } else if ('@!><'.includes(char) && expanded[index + 1] === '{') {
+        index = findGroupEnd(expanded, index + 1);
+        if (index === -1) break;
+      }
+      index++;
+    }
+    return { aligns, borders };
+  }
+
+  private renderTabular(spec: string, children: AstNode[]): string {
+    const { aligns, borders } = this.parseColumnSpec(spec);
+    type Row = { cells: AstNode[][]; ruleAbove: boolean; ruleBelow: boolean };
+    const newRow = (): Row => ({ cells: [[]], ruleAbove: false, ruleBelow: false });
+    const isBlank = (nodes: AstNode[]) => nodes.every(child => child.kind === 'text' && !child.value.trim());
+    const rows: Row[] = [newRow()];
+
+    for (const child of children) {
+      const row = rows[rows.length - 1];
+      if (child.kind === 'newline') {
+        rows.push(newRow());
+      } else if (child.kind === 'tab') {
+        row.cells.push([]);
+      } else if (child.kind === 'command' && TABLE_RULES.has(child.name)) {
+        if (row.cells.every(isBlank)) row.ruleAbove = true;
+      } else if (child.kind !== 'parbreak') {
+        row.cells[row.cells.length - 1].push(child);
+      }
+    }
+
+    // The row after the last \\ usually holds only a closing rule
+    const lastRow = rows[rows.length - 1];
+    if (rows.length > 1 && lastRow.cells.every(isBlank)) {
+      rows.pop();
+      rows[rows.length - 1].ruleBelow = lastRow.ruleAbove;
+    }
+
+    const body = rows.map(row => {
+      let column = 0;
+      const cells = row.cells.map(cell => {
+        const content = cell.filter(child => !(child.kind === 'text' && !child.value.trim()));
+        const multicolumn = content.length === 1 && content[0].kind === 'command' && content[0].name === 'multicolumn'
+          ? content[0]
+          : null;
+        const span = multicolumn ? Math.max(parseInt(multicolumn.args[0] || '1', 10) || 1, 1) : 1;
+        const ownSpec = multicolumn ? this.parseColumnSpec(multicolumn.args[1] || '') : null;
+        const classes = ['px-3', 'py-1', ownSpec?.aligns[0] || aligns[column] || 'text-left'];
+        if (ownSpec ? ownSpec.borders[0] : borders[column]) classes.push('border-l', 'border-gray-500');
+        if (ownSpec ? ownSpec.borders[1] : borders[column + span]) classes.push('border-r', 'border-gray-500');
+        if (row.ruleAbove) classes.push('border-t', 'border-gray-500');
+        if (row.ruleBelow) classes.push('border-b', 'border-gray-500');
+        column += span;
+        const html = multicolumn ? this.renderArgument(multicolumn.args[2]) : this.renderInline(cell).trim();
+        return `<td class="${classes.join(' ')}"${span > 1 ? ` colspan="${span}"` : ''}>${html}</td>`;
+      }).join('');
+      return `<tr>${cells}</tr>`;
+    }).join('');
+
+    return `<div class="overflow-x-auto my-4"><table class="mx-auto border-collapse"><tbody>${body}</tbody></table></div>`;
+  }
+}
+
+/**
+ * Render a LaTeX document to HTML for the offline preview.
+ */
+export const renderLatexToHtml = (latex: string, options: LaTeXHtmlRenderOptions = {}): string =>
+  new LaTeXHtmlRenderer().renderDocument(latex, options);
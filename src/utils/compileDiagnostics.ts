@@ -0,0 +1,106 @@
+// utils/compileDiagnostics.ts
+// Bridges render server diagnostics into the editor (gutter markers, navigation)
+import { EditorView } from '@codemirror/view';
+import { Diagnostic } from '@codemirror/lint';
+import { Text } from '@codemirror/state';
+import type { CompileDiagnostic, CompileDiagnostics, CompileFix } from '@/services/latexService';
+
+export const EMPTY_DIAGNOSTICS: CompileDiagnostics = { errors: [], warnings: [], info: [] };
+
+/**
+ * Errors first, then warnings, then info, in log order within each group.
+ */
+export const flattenDiagnostics = (
+  diagnostics: CompileDiagnostics | null | undefined,
+  includeInfo = false
+): CompileDiagnostic[] => {
+  if (!diagnostics) return [];
+  return [
+    ...(diagnostics.errors || []),
+    ...(diagnostics.warnings || []),
+    ...(includeInfo ? diagnostics.info || [] : [])
+  ];
+};
+
+const normalizePath = (filePath: string): string =>
+  filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+
+/**
+ * Whether a path reported by TeX refers to the given project-relative path.
+ * TeX sometimes reports files without their .tex extension, so that is tolerated.
+ */
+export const sourcePathMatches = (reportedPath: string | null | undefined, filePath: string | null | undefined): boolean => {
+  if (!reportedPath || !filePath) return false;
+  const reported = normalizePath(reportedPath);
+  const target = normalizePath(filePath);
+  return reported === target || `${reported}.tex` === target;
+};
+
+/**
+ * Whether a diagnostic points at the given project-relative path.
+ */
+export const diagnosticMatchesFile = (diagnostic: CompileDiagnostic, filePath: string | null | undefined): boolean =>
+  sourcePathMatches(diagnostic.file, filePath);
+
+/**
+ * Convert diagnostics for one file into CodeMirror lint diagnostics covering whole lines.
+ */
+export const toEditorDiagnostics = (
+  diagnostics: CompileDiagnostic[],
+  filePath: string | null | undefined,
+  doc: Text
+): Diagnostic[] => {
+  return diagnostics
+    .filter(diagnostic => diagnostic.line && diagnosticMatchesFile(diagnostic, filePath))
+    .map(diagnostic => {
+      const lineNumber = Math.min(Math.max(diagnostic.line || 1, 1), doc.lines);
+      const line = doc.line(lineNumber);
+      return {
+        from: line.from,
+        to: line.to,
+        severity: diagnostic.severity,
+        source: diagnostic.package || 'LaTeX',
+        message: diagnostic.context ? `${diagnostic.message}\n${diagnostic.context}` : diagnostic.message
+      };
+    });
+};
+
+// Button label for a diagnostic's fix
+export const describeCompileFix = (fix: CompileFix): string =>
+  fix.action === 'add-package' ? `Add \\usepackage{${fix.package}}` : `Upload ${fix.fileName}`;
+
+/**
+ * Load a package in a document's preamble, on a new line after the last \usepackage
+ * (or after \documentclass). Returns null when the preamble already loads it.
+ */
+export const addPackageToPreamble = (source: string, packageName: string): string | null => {
+  const documentStart = source.indexOf('\\begin{document}');
+  const preamble = documentStart === -1 ? source : source.slice(0, documentStart);
+  const uncommented = preamble.replace(/(^|[^\\])%.*$/gm, '$1');
+
+  const loaded = [...uncommented.matchAll(/\\(?:usepackage|RequirePackage)\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g)]
+    .some(match => match[1].split(',').map(name => name.trim()).includes(packageName));
+  if (loaded) return null;
+
+  const anchors = [...preamble.matchAll(/\\usepackage\s*(?:\[[^\]]*\])?\s*\{[^}]*\}/g)];
+  const anchor = anchors[anchors.length - 1] || preamble.match(/\\documentclass\s*(?:\[[^\]]*\])?\s*\{[^}]*\}/);
+  const line = `\\usepackage{${packageName}}\n`;
+  if (!anchor || anchor.index === undefined) return line + source;
+
+  const lineEnd = source.indexOf('\n', anchor.index + anchor[0].length);
+  if (lineEnd === -1) return `${source}\n${line}`;
+  return source.slice(0, lineEnd + 1) + line + source.slice(lineEnd + 1);
+};
+
+/**
+ * Move the cursor to the start of a 1-based line and scroll it into view.
+ */
+export const revealLine = (view: EditorView, lineNumber: number): void => {
+  const doc = view.state.doc;
+  const line = doc.line(Math.min(Math.max(lineNumber, 1), doc.lines));
+  view.dispatch({
+    selection: { anchor: line.from },
+    effects: EditorView.scrollIntoView(line.from, { y: 'center' })
+  });
+  view.focus();
+};
@@ -0,0 +1,29 @@
+// utils/compileProgress.ts
+import { CompileStage, LATEX_ENGINES } from '@/services/latexService';
+
+// Runaway documents can print megabytes; only the tail is worth keeping in the editor
+const MAX_LOG_LENGTH = 200000;
+
+export const describeCompileStage = (stage: CompileStage): string => {
+  switch (stage.stage) {
+    case 'queued':
+      return `Queued (position ${stage.queuePosition})`;
+    case 'engine': {
+      const engine = LATEX_ENGINES.find(option => option.value === stage.engine);
+      return `${engine?.label || stage.engine} pass ${stage.pass}`;
+    }
+    case 'bibliography':
+      return stage.backend === 'biber' ? 'Running Biber' : 'Running BibTeX';
+    case 'images':
+      return `Converting ${stage.count} ${stage.count === 1 ? 'image' : 'images'}`;
+    case 'converting':
+      return `Converting to ${stage.format.toUpperCase()}`;
+    case 'done':
+      return 'Done';
+  }
+};
+
+export const appendCompileLog = (log: string, text: string): string => {
+  const combined = log + text;
+  return combined.length > MAX_LOG_LENGTH ? combined.slice(combined.length - MAX_LOG_LENGTH) : combined;
+};
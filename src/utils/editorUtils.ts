@@ -1,7 +1,8 @@
 // utils/editorUtils.ts
 import { EditorView, ViewUpdate } from '@codemirror/view';
+import { EditorState } from '@codemirror/state';
 import React from 'react';
-import { applyPatch, parsePatch, createPatch } from 'diff'; // Import from 'diff' library
+import { applyPatch, parsePatch, createPatch, structuredPatch } from 'diff'; // Import from 'diff' library
 import { LaTeXNode, LaTeXTreeProcessor } from './LaTeXTreeProcessor'; // If needed for other utils
 import { EditIntentAnalyzer } from './EditIntentAnalyzer'; // If needed for other utils
 import { DocumentContextManager } from './DocumentContextManager'; // If needed for other utils
@@ -34,6 +35,37 @@ export const applyMultipleUnifiedDiffPatches = (
 
   const view = editorRef.current.view;
   const initialContent = view.state.doc.toString(); // Store initial content
+
+  const result = applyUnifiedDiffPatchesToText(initialContent, hunks);
+  if (!result.success || result.finalContent === undefined) {
+    return result;
+  }
+  const currentContent = result.finalContent;
+
+  // Check if the final content is actually different from the initial editor state
+  if (currentContent === initialContent) {
+    console.warn("All patches applied, but resulted in no change to the initial editor content.");
+    return { success: true, finalContent: currentContent }; // Success, but no editor update needed
+  }
+
+  // Apply the single, final result to the editor instance
+  console.log(`Applying final combined changes to editor. Final length: ${currentContent.length}`);
+  view.dispatch({
+    changes: { from: 0, to: initialContent.length, insert: currentContent }
+  });
+
+  console.log("All unified diff patches applied successfully to editor.");
+  return { success: true, finalContent: currentContent };
+};
+
+/**
+ * Applies unified diff patch strings sequentially to a string, without touching any editor.
+ * Each hunk is tried cleanly first and then with fuzzy matching; stops at the first hunk that fails.
+ */
+export const applyUnifiedDiffPatchesToText = (
+  initialContent: string,
+  hunks: string[]
+): { success: boolean; finalContent?: string; error?: string; failedHunkIndex?: number } => {
   let currentContent = initialContent; // Content to be modified step-by-step
 
   console.log(`Starting patch application. Initial length: ${initialContent.length}, Hunks: ${hunks.length}`);
@@ -93,21 +125,6 @@ export const applyMultipleUnifiedDiffPatches = (
       console.log(`Hunk ${i + 1} applied successfully. Content length changed from ${contentBeforeHunk.length} to ${currentContent.length}.`);
     }
 
-    // --- All hunks applied successfully in memory ---
-
-    // Check if the final content is actually different from the initial editor state
-    if (currentContent === initialContent) {
-      console.warn("All patches applied, but resulted in no change to the initial editor content.");
-      return { success: true, finalContent: currentContent }; // Success, but no editor update needed
-    }
-
-    // Apply the single, final result to the editor instance
-    console.log(`Applying final combined changes to editor. Final length: ${currentContent.length}`);
-    view.dispatch({
-      changes: { from: 0, to: initialContent.length, insert: currentContent }
-    });
-
-    console.log("All unified diff patches applied successfully to editor.");
     return { success: true, finalContent: currentContent };
 
   } catch (error) {
@@ -120,6 +137,25 @@ export const applyMultipleUnifiedDiffPatches = (
   }
 };
 
+/**
+ * Describes the change from one version of a file to another as unified diff hunks,
+ * one self-contained string (file header plus a single @@ hunk) per changed region.
+ * Hunks are numbered for sequential application, so each starts where the earlier ones left the text.
+ */
+export const createUnifiedDiffHunks = (
+  fileName: string,
+  originalContent: string,
+  updatedContent: string
+): string[] => {
+  const patch = structuredPatch(`a/${fileName}`, `b/${fileName}`, originalContent, updatedContent, '', '', { context: 3 });
+  return patch.hunks.map(hunk => [
+    `--- a/${fileName}`,
+    `+++ b/${fileName}`,
+    `@@ -${hunk.newStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines
+  ].join('\n'));
+};
+
 
 /**
  * Applies search-and-replace blocks sequentially to the editor content.
@@ -220,6 +256,26 @@ export const applySearchReplaceBlocks = (
   }
 };
 
+/**
+ * Applies an AI suggestion (diff hunks or search/replace blocks) to a detached copy of the document
+ * rather than the editor, through the same functions that apply it for real, so a dry run fails
+ * exactly where the real apply would.
+ */
+export const applySuggestionToVirtualCopy = (
+  content: string,
+  suggestion: { diffHunks?: string[]; searchReplaceBlocks?: SearchReplaceBlock[] }
+): { success: boolean; finalContent?: string; error?: string } => {
+  const view = new EditorView({ state: EditorState.create({ doc: content }) });
+  const virtualRef = { current: { view } };
+  try {
+    return suggestion.searchReplaceBlocks
+      ? applySearchReplaceBlocks(virtualRef, suggestion.searchReplaceBlocks)
+      : applyMultipleUnifiedDiffPatches(virtualRef, suggestion.diffHunks || []);
+  } finally {
+    view.destroy();
+  }
+};
+
 /**
  * Applies a full content change to the editor instance.
  * Useful as a fallback or for specific actions.
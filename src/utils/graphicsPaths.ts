@@ -0,0 +1,66 @@
+// utils/graphicsPaths.ts
+// Which project file an \includegraphics reference loads, following graphicx's own search
+
+// The pdfTeX and LuaTeX driver list; graphicx tries each extension in every directory before the next extension
+export const GRAPHICS_EXTENSIONS = [
+  '.pdf', '.png', '.jpg', '.mps', '.jpeg', '.jbig2', '.jb2', '.PDF', '.PNG', '.JPG', '.JPEG', '.JBIG2', '.JB2'
+];
+
+// Formats the render server converts to PDF or PNG before compiling
+export const CONVERTIBLE_GRAPHICS_EXTENSIONS = ['.svg', '.eps', '.ps', '.gif', '.webp', '.tif', '.tiff', '.heic', '.heif'];
+
+/**
+ * Directories from \graphicspath{{figures/}{images/}}, in order, exactly as written.
+ */
+export const parseGraphicsPaths = (source: string): string[] => {
+  const directories: string[] = [];
+  for (const match of source.matchAll(/\\graphicspath\s*\{((?:\s*\{[^{}]*\})*)\s*\}/g)) {
+    for (const entry of match[1].matchAll(/\{([^{}]*)\}/g)) {
+      directories.push(entry[1]);
+    }
+  }
+  return directories;
+};
+
+/**
+ * Collapse "./" and "dir/../" in a project-relative path. Returns null for paths that leave the project.
+ */
+export const normalizeProjectPath = (value: string): string | null => {
+  if (value.startsWith('/')) return null;
+  const parts: string[] = [];
+  for (const part of value.replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+};
+
+/**
+ * Resolve an \includegraphics path the way TeX does from the project root: the path as written,
+ * then each \graphicspath directory (prefixed literally, so "{figs}" needs its trailing slash).
+ * A path without an extension tries GRAPHICS_EXTENSIONS and then the convertible formats.
+ */
+export const resolveGraphicsPath = (
+  reference: string,
+  graphicsPaths: string[],
+  hasFile: (path: string) => boolean
+): string | null => {
+  const trimmed = reference.trim();
+  const fileName = trimmed.slice(trimmed.lastIndexOf('/') + 1);
+  const extensions = fileName.includes('.')
+    ? ['']
+    : [...GRAPHICS_EXTENSIONS, ...CONVERTIBLE_GRAPHICS_EXTENSIONS];
+
+  for (const extension of extensions) {
+    for (const directory of ['', ...graphicsPaths]) {
+      const candidate = normalizeProjectPath(`${directory}${trimmed}${extension}`);
+      if (candidate && hasFile(candidate)) return candidate;
+    }
+  }
+  return null;
+};
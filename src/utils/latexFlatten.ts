@@ -0,0 +1,229 @@
+// utils/latexFlatten.ts
+// Inlining \input, \include and \subfile files into one document, as latexpand does,
+// with a map from every output line back to the file and line it came from
+
+import { normalizeProjectPath } from './graphicsPaths';
+
+// Where an output line came from; `line` is 1-based
+export interface FlattenSourceLine {
+  file: string;
+  line: number;
+}
+
+export interface FlattenResult {
+  latex: string;
+  // Project paths of the inlined files, in the order they were read
+  inlined: string[];
+  // \input, \include and \subfile targets with no project file, left in place
+  missing: string[];
+  // Origin of each output line: sourceMap[n - 1] for line n
+  sourceMap: FlattenSourceLine[];
+}
+
+export interface FlattenOptions {
+  stripComments?: boolean;
+  // A .bbl to put in place of \bibliography{...}
+  bbl?: { path: string; content: string } | null;
+}
+
+// Environments whose contents TeX reads literally, so % and \input inside them are text
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'verbatim*', 'Verbatim', 'lstlisting', 'minted', 'alltt'];
+
+// Nested \input deeper than this is almost certainly a cycle TeX would also loop on
+const MAX_DEPTH = 20;
+
+// Index of the % starting a comment on the line, or -1
+const commentStart = (line: string): number => {
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      // \verb|...| can contain a literal %
+      const verb = line.substring(i).match(/^\\verb\*?([^A-Za-z\s*])/);
+      if (verb) {
+        const end = line.indexOf(verb[1], i + verb[0].length);
+        if (end === -1) return -1;
+        i = end;
+      } else {
+        i++;
+      }
+    } else if (line[i] === '%') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Comments removed line by line; null marks a line to drop. A comment after text keeps its %,
+ * so the line ending stays swallowed; lines that were only a comment and comment
+ * environments are dropped.
+ */
+const stripCommentLines = (lines: string[]): (string | null)[] => {
+  let literalEnd: string | null = null;
+  let inCommentEnvironment = false;
+
+  return lines.map(line => {
+    if (literalEnd) {
+      if (line.includes(literalEnd)) literalEnd = null;
+      return line;
+    }
+    if (inCommentEnvironment) {
+      if (/\\end\s*\{comment\}/.test(line)) inCommentEnvironment = false;
+      return null;
+    }
+    if (/^\s*\\begin\s*\{comment\}/.test(line)) {
+      inCommentEnvironment = !/\\end\s*\{comment\}/.test(line);
+      return null;
+    }
+
+    const start = commentStart(line);
+    const code = start === -1 ? line : line.substring(0, start);
+    const verbatim = code.match(/\\begin\s*\{([A-Za-z*]+)\}/);
+    if (verbatim && VERBATIM_ENVIRONMENTS.includes(verbatim[1]) && !code.includes(`\\end{${verbatim[1]}}`)) {
+      literalEnd = `\\end{${verbatim[1]}}`;
+    }
+
+    if (start === -1) return line;
+    return code.trim() ? `${code}%` : null;
+  });
+};
+
+export const stripLatexComments = (latex: string): string =>
+  stripCommentLines(latex.split('\n')).filter((line): line is string => line !== null).join('\n');
+
+/**
+ * Project path \input, \include or \subfile loads. TeX runs in the project root, so paths are
+ * relative to it; \input and \subfile try the name with .tex added first, \include always adds it.
+ */
+export const resolveInputPath = (
+  reference: string,
+  command: string,
+  hasFile: (path: string) => boolean
+): string | null => {
+  const normalized = normalizeProjectPath(reference.trim().replace(/^"|"$/g, ''));
+  if (!normalized) return null;
+  const candidates = command === 'include' ? [`${normalized}.tex`] : [`${normalized}.tex`, normalized];
+  return candidates.find(hasFile) || null;
+};
+
+// Only \input also has the TeX primitive's unbraced form
+const INPUT_PATTERN = /\\(input|include|subfile|bibliography)(?![A-Za-z@])\s*(?:\{([^{}]+)\}|([^\s{}\\%]+))/g;
+const INCLUDEONLY_PATTERN = /\\includeonly\s*\{([^{}]*)\}/;
+
+/**
+ * Flatten the document at `mainPath`, reading other files through `readFile` (which returns
+ * null for paths that are not in the project). \include files left out by \includeonly
+ * become the \clearpage LaTeX would still issue, and a \subfile contributes only its body.
+ */
+export const flattenLatex = (
+  mainPath: string,
+  readFile: (path: string) => string | null,
+  { stripComments = false, bbl = null }: FlattenOptions = {}
+): FlattenResult => {
+  const inlined: string[] = [];
+  const missing: string[] = [];
+  let includeOnly: string[] | null = null;
+
+  type OutputLine = FlattenSourceLine & { text: string };
+
+  const readLines = (path: string): string[] => {
+    const lines = (readFile(path) || '').split('\n');
+    if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+    return lines;
+  };
+
+  // A \subfile's preamble belongs to its own standalone build
+  const documentBody = (lines: OutputLine[]): OutputLine[] => {
+    const begin = lines.findIndex(line => /\\begin\s*\{document\}/.test(line.text));
+    const end = lines.findIndex(line => /\\end\s*\{document\}/.test(line.text));
+    return begin === -1 ? lines : lines.slice(begin + 1, end > begin ? end : undefined);
+  };
+
+  const expand = (path: string, stack: string[]): OutputLine[] => {
+    const rawLines = readLines(path);
+    const lines = stripComments ? stripCommentLines(rawLines) : rawLines;
+    const output: OutputLine[] = [];
+
+    lines.forEach((line, index) => {
+      if (line === null) return;
+      const origin = { file: path, line: index + 1 };
+
+      // Only the code part of each line, so commented-out \input lines stay as they are
+      const start = commentStart(line);
+      let code = start === -1 ? line : line.substring(0, start);
+      const comment = start === -1 ? '' : line.substring(start);
+
+      const includeOnlyMatch = code.match(INCLUDEONLY_PATTERN);
+      if (includeOnlyMatch) {
+        includeOnly = includeOnlyMatch[1].split(',').map(name => normalizeProjectPath(name.trim()) || '').filter(Boolean);
+        code = code.replace(INCLUDEONLY_PATTERN, '');
+        if (!code.trim() && !comment) return;
+      }
+
+      let pending = '';
+      let last = 0;
+      let expanded = false;
+      for (const match of code.matchAll(INPUT_PATTERN)) {
+        const [text, command, braced, bare] = match;
+        pending += code.substring(last, match.index);
+        last = (match.index || 0) + text.length;
+        const reference = braced || bare || '';
+
+        let replacement: OutputLine[] | null = null;
+        if (command === 'bibliography') {
+          if (bbl) {
+            inlined.push(bbl.path);
+            replacement = bbl.content.replace(/\n$/, '').split('\n').map((bblLine, bblIndex) => ({ text: bblLine, file: bbl.path, line: bblIndex + 1 }));
+          }
+        } else if (command === 'input' || !bare) {
+          const target = resolveInputPath(reference, command, candidate => readFile(candidate) !== null);
+          const excluded = command === 'include' && includeOnly !== null
+            && !includeOnly.includes(normalizeProjectPath(reference.trim()) || '');
+          if (excluded) {
+            replacement = [{ text: '\\clearpage', ...origin }];
+          } else if (!target || stack.includes(target) || stack.length >= MAX_DEPTH) {
+            missing.push(target || reference);
+          } else {
+            inlined.push(target);
+            const body = expand(target, [...stack, target]);
+            replacement = command === 'subfile' ? documentBody(body) : body;
+            // \include starts a new page before and after, and the inlined text must keep doing so
+            if (command === 'include') {
+              replacement = [{ text: '\\clearpage', ...origin }, ...replacement, { text: '\\clearpage', ...origin }];
+            }
+          }
+        }
+
+        if (replacement === null) {
+          pending += text;
+          continue;
+        }
+        // Text before the command ends its own line; the % keeps TeX from seeing a space there
+        if (pending.trim()) output.push({ text: `${pending}%`, ...origin });
+        pending = '';
+        output.push(...replacement);
+        expanded = true;
+      }
+
+      const rest = pending + code.substring(last) + comment;
+      if (!expanded || rest.trim()) {
+        output.push({ text: rest, ...origin });
+      }
+    });
+
+    return output;
+  };
+
+  const lines = expand(mainPath, [mainPath]);
+  return {
+    latex: `${lines.map(line => line.text).join('\n')}\n`,
+    inlined,
+    missing: Array.from(new Set(missing)),
+    sourceMap: lines.map(({ file, line }) => ({ file, line }))
+  };
+};
+
+/**
+ * Where line `line` (1-based) of the flattened output came from, or null past its end.
+ */
+export const traceFlattenedLine = (result: Pick<FlattenResult, 'sourceMap'>, line: number): FlattenSourceLine | null =>
+  result.sourceMap[line - 1] || null;
@@ -0,0 +1,29 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+export const
+  VerbatimContent = 1,
+  CommandName = 2,
+  SectionName = 3,
+  TextCommandName = 4,
+  DelimiterCommand = 5,
+  Begin = 6,
+  MathBegin = 7,
+  VerbatimBegin = 8,
+  End = 9,
+  Verb = 10,
+  Comment = 11,
+  Document = 12,
+  Text = 13,
+  SectioningCommand = 21,
+  Environment = 23,
+  EnvName = 25,
+  EnvNameText = 26,
+  EndEnv = 27,
+  MathEnvironment = 28,
+  MathText = 30,
+  TextCommand = 34,
+  MathInnerEnvironment = 36,
+  ScriptMark = 37,
+  Ampersand = 38,
+  VerbatimEnvironment = 39,
+  InlineMath = 41,
+  DisplayMath = 45
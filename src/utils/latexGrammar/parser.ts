@@ -0,0 +1,21 @@
+// This file was generated by lezer-generator. You probably shouldn't edit it.
+import {LRParser} from "@lezer/lr"
+import {verbatimContent, commands} from "./tokens"
+export const parser = LRParser.deserialize({
+  version: 14,
+  states: "-tQVQUOOO!WQUO'#CjO#bQSO'#CqO#jQUO'#CrO#qQSO'#CtO#vQUO'#CsO#qQSO'#CyO#}QYO'#CxO#qQSO'#DUO$uQVO'#DTO%rQYO'#DVO%yQYO'#DVO&QQYO'#DZO&XQYO'#DZOOQQ'#Dh'#DhOOQQ'#Dg'#DgOOQQ'#D_'#D_QVQUOOO'^QUO'#CmO'eQUO'#CpOOQR'#D`'#D`O'lQUO,59UOOQQ,59],59]O#eQSO,59]OOQQ,59^,59^O(vQUO,59^O(}Q`O'#CuO)qQUO,59`O#qQSO'#CwOOQQ,59_,59_O#vQUO,59_O*_QYO,59eO+VQYO'#C{O#eQSO'#DOO,^QYO'#DPO#}QYO'#DQOOQQ'#Dj'#DjOOQQ'#Di'#DiOOQQ'#Db'#DbO#}QYO,59dOOQQ,59d,59dO,eQVO,59pOOQQ,59o,59oO$xQUO,59oO,sQYO,59qOOQQ,59q,59qO,zQYO,59qO-RQYO,59uOOQQ,59u,59uO-YQYO,59uOOQQ-E7]-E7]OOQQ'#Da'#DaO-aQUO,59XOOQR,59X,59XOOQR,59[,59[O-hQUO,59[OOQR-E7^-E7^OOQQ1G.w1G.wOOQQ1G.x1G.xOOQR,59a,59aO-oQSO,59aO.`QUO1G.zOOQQ,59c,59cOOQQ1G.y1G.yO.|QYO1G/PO/tQYO,59`O0vQYO'#C|O0}QYO'#C}OOQQ'#Dc'#DcO1UQYO,59gOOQQ,59j,59jOOQQ,59k,59kO2]QYO,59kOOQQ,59l,59lO#}QYO,59lOOQQ-E7`-E7`OOQQ1G/O1G/OO2dQVO1G/[OOQQ1G/Z1G/ZOOQQ1G/]1G/]OOQQ1G/a1G/aOOQQ-E7_-E7_OOQR1G.s1G.sOOQR1G.v1G.vOOQR1G.{1G.{O2rQYO1G.zOOQQ'#Dd'#DdO3SQYO,59hOOQQ,59h,59hOOQQ,59i,59iO3ZQYO,59iOOQQ-E7a-E7aOOQQ1G/V1G/VOOQQ1G/W1G/WOOQQ-E7b-E7bOOQQ1G/S1G/SOOQQ1G/T1G/TO#qQSO'#Ct",
+  stateData: "3b~OZOS~OQPORQOUSOVUOWWOY^O]^O__O`_OcROv^OzYO{ZO!O[O!P]O~O`bOccOQ^XR^XU^XV^XW^XY^X]^X_^Xv^Xz^X{^X!O^X!P^X!X^Xb^XX^X~O`bOccO~ObhO~PVOcjO~OXlO~PVOQpOSqOTtOU#TOXlOYtO_uO`uOcrOntOutOvtO~OP{OXlO~OQpOSqOTtOU#TOYtO_uO`uOcrOntOutOvtO~Oz}O~P$}O|}O~P$}O!O!QO~P$}O!Q!QO~P$}OQPORQOUSOVUOWWOY^O]^O`!TOcROv^OzYO{ZO!O[O!P]O~O_!VO~P&`Ob!WO~PVO`bOccOQ^aR^aU^aV^aW^aY^a]^a_^av^az^a{^a!O^a!P^a!X^ab^aX^a~Ob![O~PVOb!]Oj!^O~O`bOccOQhaUhaXhaYha_havha~ORhaVhaWha]hazha{ha!Oha!Pha~P)VO`bOccOQmaSmaTmaUmaXmaYma_manmaumavma~O`!dOc!eOQoXSoXToXUoXXoXYoX_oXnoXuoXvoXzoX|oX!OoX!QoXboX~Ob!iO~P$}O`bOccOPxaXxa~Oz!qO~P$}O|!qO~P$}O!O!rO~P$}O!Q!rO~P$}O_!tO~P&`Ob!uO~PVOb!vO~O`bOccOQhiUhiXhiYhi_hivhi~ORhiVhiWhi]hizhi{hi!Ohi!Phi~P-tO`bOccOQmiSmiTmiUmiXmiYmi_minmiumivmi~OShaThanhauha~P)VOQpOSqOTtOU#TOYtO`!xOcrOntOutOvtO~O_!zO~P0UOb!{O~P$}O`!dOc!eOQoaSoaToaUoaXoaYoa_oanoauoavoazoa|oa!Ooa!Qoaboa~Ob#OO~P$}O`bOccOPxiXxi~OShiThinhiuhi~P-tO_#RO~P0UOb#SO~P$}O",
+  goto: ")a!_PPPPPPPPPPPPPP!`PP!lPP!{!`!`!`#b$SP$c!`${P%X%m%m%X%X%XPP!`%q!`PPP!`PPP%}&a&w&}'q'wPP'}(X(g(ye^ORTabcin!U!XddPekoy!_!b!c!o!wRgQddPekoy!_!b!c!o!wQfQQ!ZgR!hqdTORTabcin!U!XusVYZ[]rsw|!O!P!R!d!e!j!l!y!|QkSQoUQyWQ!`lR!c#TQmTQxVQzXQ!anQ!ksQ!nwQ!p{R#P!leVORTabcin!U!XutVYZ[]rsw|!O!P!R!d!e!j!l!y!|T!fp!geXORTabcin!U!XQaOQiRQnTW!Sain!XR!XcQePY!Ye!_!b!o!wQ!_kQ!boQ!oyR!w!cQ!UbR!s!UQwVQ|YQ!OZQ!P[Q!R]Q!jrQ!ls`!mw|!O!P!R!j!l!|R!|!eQ!gpR!}!gQ!y!dR#Q!ya`ORTacin!X`_ORTacin!XT!Tb!UqvVYZ[]rsw|!O!P!R!e!j!l!|puVYZ[]rsw|!O!P!R!e!j!l!|T!x!d!y",
+  nodeNames: "⚠ VerbatimContent CommandName SectionName TextCommandName DelimiterCommand Begin MathBegin VerbatimBegin End Verb Comment Document Text Command ] [ OptionalArgument } { Argument SectioningCommand Group Environment BeginEnv EnvName EnvNameText EndEnv MathEnvironment BeginEnv MathText Command OptionalArgument Argument TextCommand Group Environment ScriptMark Ampersand VerbatimEnvironment BeginEnv InlineMath $ \\( \\) DisplayMath $$ \\[ \\]",
+  maxTerm: 60,
+  nodeProps: [
+    ["openedBy", 15,"[",18,"{",27,"BeginEnv"],
+    ["closedBy", 16,"]",19,"}",-3,24,29,40,"EndEnv"]
+  ],
+  skippedNodes: [0,11],
+  repeatNodeCount: 6,
+  tokenData: ",y~RcOY!^YZ#cZt!^tu&{uv(`vw(ww!}!^!}#O)h#O#P*X#P#Q*|#Q#R+m#R#S+m#S#o!^#o#p,o#p#q!^#q#r,t#r;'S!^;'S;=`&u<%lO!^V!g^jSnQ]POY!^YZ#cZt!^tu$zvw$zw!}!^!}#O$z#P#Q$z#Q#S%o#S#o!^#p#q!^#r;'S!^;'S;=`&u<%lO!^R#jWnQ]POt#cw!}#c#Q#S$S#S#o#c#p#q#c#r;'S#c;'S;=`$t<%lO#cP$XV]POt$Sw!}$S#Q#o$S#p#q$S#r;'S$S;'S;=`$n<%lO$SP$qP;=`<%l$SR$wP;=`<%l#cS%PWjSOY$zZu$zv#O$z#P#o$z#p#q$z#r;'S$z;'S;=`%i<%lO$zS%lP;=`<%l$zT%v]jS]POY%oYZ$SZt%otu$zvw$zw!}%o!}#O$z#P#Q$z#Q#o%o#p#q%o#r;'S%o;'S;=`&o<%lO%oT&rP;=`<%l%oV&xP;=`<%l!^V'SXzRjSOY$zZt$ztu'ov#O$z#P#o$z#p#q$z#r;'S$z;'S;=`%i<%lO$zV'vW!ORjSOY$zZu$zv#O$z#P#o$z#p#q$z#r;'S$z;'S;=`%i<%lO$z~(eSZ~OY(`Z;'S(`;'S;=`(q<%lO(`~(tP;=`<%l(`V)OWvRjSOY$zZu$zv#O$z#P#o$z#p#q$z#r;'S$z;'S;=`%i<%lO$zV)oW`RjSOY$zZu$zv#O$z#P#o$z#p#q$z#r;'S$z;'S;=`%i<%lO$z~*[Sxy*hyz*m!}#O*r#P#Q*w~*mO{~~*rO|~~*wO!P~~*|O!Q~V+TW_RjSOY$zZu$zv#O$z#P#o$z#p#q$z#r;'S$z;'S;=`%i<%lO$zV+v]jSuQ]POY%oYZ$SZt%otu$zvw$zw!}%o!}#O$z#P#Q$z#Q#o%o#p#q%o#r;'S%o;'S;=`&o<%lO%o~,tOc~~,yOb~",
+  tokenizers: [verbatimContent, commands, 0, 1, 2],
+  topRules: {"Document":[0,12]},
+  tokenPrec: 0
+})
@@ -0,0 +1,138 @@
+// utils/latexGrammar/tokens.ts
+// External tokenizers for the LaTeX grammar: command names, which need to look at the
+// environment name after \begin, and the literal contents of verbatim environments
+
+import { ExternalTokenizer, InputStream } from '@lezer/lr';
+import {
+  VerbatimContent,
+  CommandName,
+  SectionName,
+  TextCommandName,
+  DelimiterCommand,
+  Begin,
+  MathBegin,
+  VerbatimBegin,
+  End,
+  Verb
+} from './parser.terms';
+
+const SECTION_COMMANDS = ['part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+
+const MATH_ENVIRONMENTS = [
+  'equation', 'equation*', 'align', 'align*', 'alignat', 'alignat*', 'gather', 'gather*',
+  'multline', 'multline*', 'flalign', 'flalign*', 'eqnarray', 'eqnarray*', 'math', 'displaymath', 'dmath', 'dmath*'
+];
+
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'verbatim*', 'Verbatim', 'lstlisting', 'minted', 'alltt', 'comment'];
+
+// Commands whose argument is text even inside math
+const TEXT_COMMANDS = [
+  'text', 'textrm', 'textbf', 'textit', 'textsf', 'texttt', 'textup', 'textnormal', 'emph',
+  'mbox', 'hbox', 'intertext', 'shortintertext'
+];
+
+const DELIMITER_COMMAND = /^(left|right|middle|[Bb]igg?[lrm]?)$/;
+
+const BACKSLASH = 92, BRACE_OPEN = 123, BRACE_CLOSE = 125, BRACKET_OPEN = 91, BRACKET_CLOSE = 93,
+  PAREN_OPEN = 40, PAREN_CLOSE = 41, STAR = 42, AT = 64, SPACE = 32, TAB = 9, NEWLINE = 10;
+
+const isLetter = (ch: number) => (ch >= 65 && ch <= 90) || (ch >= 97 && ch <= 122) || ch === AT;
+const isSpace = (ch: number) => ch === SPACE || ch === TAB;
+
+// The name of the command at `offset` (which holds a backslash), without the backslash
+const readName = (input: InputStream, offset: number): string => {
+  let name = '';
+  let ch = input.peek(offset + 1);
+  if (!isLetter(ch)) return ch < 0 ? '' : String.fromCharCode(ch);
+  for (let i = offset + 1; isLetter(ch); ch = input.peek(++i)) name += String.fromCharCode(ch);
+  return ch === STAR ? `${name}*` : name;
+};
+
+// The {name} that follows `offset`, allowing spaces before it
+const readEnvironmentName = (input: InputStream, offset: number): string | null => {
+  let i = offset;
+  while (isSpace(input.peek(i))) i++;
+  if (input.peek(i) !== BRACE_OPEN) return null;
+  let name = '';
+  for (let ch = input.peek(++i); ch !== BRACE_CLOSE; ch = input.peek(++i)) {
+    if (ch < 0 || ch === NEWLINE || ch === BRACE_OPEN || ch === BACKSLASH) return null;
+    name += String.fromCharCode(ch);
+  }
+  return name.trim();
+};
+
+export const commands = new ExternalTokenizer((input, stack) => {
+  if (input.next !== BACKSLASH) return;
+  const after = input.peek(1);
+  // \( \) \[ \] are math delimiters in the grammar's own tokens
+  if (after === PAREN_OPEN || after === PAREN_CLOSE || after === BRACKET_OPEN || after === BRACKET_CLOSE) return;
+
+  const name = readName(input, 0);
+  if (!name) return;
+  const length = name.length + 1;
+
+  if (name === 'begin' || name === 'end') {
+    let token = name === 'end' ? End : Begin;
+    const environment = readEnvironmentName(input, length);
+    if (token === Begin && environment !== null) {
+      if (VERBATIM_ENVIRONMENTS.includes(environment) && stack.canShift(VerbatimBegin)) token = VerbatimBegin;
+      else if (MATH_ENVIRONMENTS.includes(environment) && stack.canShift(MathBegin)) token = MathBegin;
+    }
+    input.acceptToken(token, length);
+    return;
+  }
+
+  if (name === 'verb' || name === 'verb*') {
+    // \verb|...| runs to the next delimiter on the same line
+    const delimiter = input.peek(length);
+    if (delimiter < 0 || isLetter(delimiter) || isSpace(delimiter) || delimiter === NEWLINE) {
+      input.acceptToken(CommandName, length);
+      return;
+    }
+    let end = length + 1;
+    for (let ch = input.peek(end); ch !== delimiter && ch !== NEWLINE && ch >= 0; ch = input.peek(++end)) { /* scan */ }
+    input.acceptToken(Verb, input.peek(end) === delimiter ? end + 1 : end);
+    return;
+  }
+
+  if (SECTION_COMMANDS.includes(name.replace(/\*$/, '')) && stack.canShift(SectionName)) {
+    input.acceptToken(SectionName, length);
+    return;
+  }
+
+  if (TEXT_COMMANDS.includes(name) && stack.canShift(TextCommandName)) {
+    input.acceptToken(TextCommandName, length);
+    return;
+  }
+
+  if (DELIMITER_COMMAND.test(name) && stack.canShift(DelimiterCommand)) {
+    // The delimiter is part of the token, so \left[ does not open an optional argument
+    let end = length;
+    while (isSpace(input.peek(end))) end++;
+    const delimiter = input.peek(end);
+    if (delimiter === BACKSLASH) {
+      end += readName(input, end).length + 1;
+    } else if (delimiter >= 0 && delimiter !== NEWLINE && delimiter !== BRACE_OPEN) {
+      end++;
+    }
+    input.acceptToken(DelimiterCommand, end);
+    return;
+  }
+
+  input.acceptToken(CommandName, length);
+}, { contextual: true });
+
+// Everything up to the \end of a verbatim environment; options in [..] or {..} right
+// after \begin{...} are left to the grammar
+export const verbatimContent = new ExternalTokenizer((input, stack) => {
+  if (!stack.canShift(VerbatimContent) || input.next < 0 || input.next === BRACKET_OPEN || input.next === BRACE_OPEN) return;
+
+  let length = 0;
+  for (let ch = input.peek(0); ch >= 0; ch = input.peek(++length)) {
+    if (ch === BACKSLASH && readName(input, length) === 'end') {
+      const environment = readEnvironmentName(input, length + 4);
+      if (environment !== null && VERBATIM_ENVIRONMENTS.includes(environment)) break;
+    }
+  }
+  if (length > 0) input.acceptToken(VerbatimContent, length);
+}, { contextual: true });
@@ -0,0 +1,265 @@
+// utils/latexLanguage.ts
+// LaTeX language support for CodeMirror, built on the Lezer grammar in ./latexGrammar,
+// plus queries other features can run on its syntax tree
+
+import {
+  HighlightStyle,
+  LRLanguage,
+  LanguageSupport,
+  delimitedIndent,
+  foldInside,
+  foldNodeProp,
+  foldService,
+  indentNodeProp,
+  syntaxTree
+} from '@codemirror/language';
+import { Text, RangeSetBuilder } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import { SyntaxNode, Tree } from '@lezer/common';
+import { styleTags, tags as t } from '@lezer/highlight';
+import { parser } from './latexGrammar/parser';
+
+// Sectioning commands by depth; \part sits above \chapter
+export const SECTION_LEVELS: Record<string, number> = {
+  part: -1,
+  chapter: 0,
+  section: 1,
+  subsection: 2,
+  subsubsection: 3,
+  paragraph: 4,
+  subparagraph: 5
+};
+
+export interface OutlineEntry {
+  // The sectioning command without backslash or star, e.g. "subsection"
+  command: string;
+  level: number;
+  title: string;
+  // Position of the command and its 1-based line
+  from: number;
+  line: number;
+}
+
+export interface EnvironmentMismatch {
+  // The \end{...} name that does not match
+  from: number;
+  to: number;
+  begin: string;
+  end: string;
+}
+
+const readNode = (doc: Text, node: SyntaxNode | null): string =>
+  node ? doc.sliceString(node.from, node.to) : '';
+
+/**
+ * The name in an Environment node's \begin{...}, or in a BeginEnv or EndEnv node's braces.
+ */
+export const environmentName = (doc: Text, node: SyntaxNode): string => {
+  const delimiter = node.name === 'BeginEnv' || node.name === 'EndEnv' ? node : node.getChild('BeginEnv');
+  return readNode(doc, delimiter?.getChild('EnvName')?.getChild('EnvNameText') || null).trim();
+};
+
+const sectionLevel = (doc: Text, node: SyntaxNode): number => {
+  const command = readNode(doc, node.getChild('SectionName')).replace(/^\\|\*$/g, '');
+  return SECTION_LEVELS[command] ?? Infinity;
+};
+
+// Text between an Argument node's braces
+const argumentText = (doc: Text, node: SyntaxNode | null): string =>
+  node ? doc.sliceString(node.from + 1, node.lastChild?.name === '}' ? node.to - 1 : node.to).trim() : '';
+
+/**
+ * Sectioning commands in document order, with their titles.
+ */
+export const documentOutline = (tree: Tree, doc: Text): OutlineEntry[] => {
+  const entries: OutlineEntry[] = [];
+  tree.iterate({
+    enter: node => {
+      if (node.name === 'VerbatimEnvironment' || node.name === 'InlineMath' || node.name === 'DisplayMath') return false;
+      if (node.name !== 'SectioningCommand') return;
+      const command = readNode(doc, node.node.getChild('SectionName')).replace(/^\\|\*$/g, '');
+      entries.push({
+        command,
+        level: SECTION_LEVELS[command] ?? Infinity,
+        title: argumentText(doc, node.node.getChild('Argument')),
+        from: node.from,
+        line: doc.lineAt(node.from).number
+      });
+      return false;
+    }
+  });
+  return entries;
+};
+
+/**
+ * \end{...} names that differ from the \begin{...} they close, between `from` and `to`.
+ */
+export const findEnvironmentMismatches = (tree: Tree, doc: Text, from = 0, to = doc.length): EnvironmentMismatch[] => {
+  const mismatches: EnvironmentMismatch[] = [];
+  tree.iterate({
+    from,
+    to,
+    enter: node => {
+      if (node.name !== 'Environment' && node.name !== 'MathEnvironment' && node.name !== 'VerbatimEnvironment') return;
+      const end = node.node.getChild('EndEnv');
+      const endName = end?.getChild('EnvName');
+      if (!end || !endName) return;
+      const begin = environmentName(doc, node.node);
+      const name = environmentName(doc, end);
+      if (begin !== name) mismatches.push({ from: endName.from, to: endName.to, begin, end: name });
+    }
+  });
+  return mismatches;
+};
+
+/**
+ * Whether `pos` is in math mode: inside $...$, \[...\] or a math environment, and not in
+ * the argument of \text and similar.
+ */
+export const isMathAt = (tree: Tree, pos: number): boolean => {
+  for (let node: SyntaxNode | null = tree.resolveInner(pos, -1); node; node = node.parent) {
+    switch (node.name) {
+      case 'InlineMath':
+      case 'DisplayMath':
+      case 'MathEnvironment':
+        return true;
+      case 'TextCommand':
+      case 'BeginEnv':
+      case 'EndEnv':
+      case 'VerbatimEnvironment':
+        return false;
+    }
+  }
+  return false;
+};
+
+export const latexLanguage = LRLanguage.define({
+  name: 'latex',
+  parser: parser.configure({
+    props: [
+      styleTags({
+        'CommandName TextCommandName DelimiterCommand': t.macroName,
+        'Begin MathBegin VerbatimBegin End SectionName': t.keyword,
+        EnvNameText: t.className,
+        'SectioningCommand/Argument/...': t.heading,
+        MathText: t.special(t.string),
+        '"$" "$$" "\\\\(" "\\\\)" "\\\\[" "\\\\]"': t.processingInstruction,
+        ScriptMark: t.operator,
+        Ampersand: t.separator,
+        'Verb VerbatimContent': t.monospace,
+        Comment: t.lineComment,
+        '{ }': t.brace,
+        '[ ]': t.squareBracket
+      }),
+      foldNodeProp.add({
+        'Environment MathEnvironment VerbatimEnvironment': node => {
+          const begin = node.getChild('BeginEnv');
+          const end = node.getChild('EndEnv');
+          return begin && end && begin.to < end.from ? { from: begin.to, to: end.from } : null;
+        },
+        'DisplayMath Argument Group': foldInside
+      }),
+      indentNodeProp.add({
+        'Environment MathEnvironment': context => {
+          // The body of \begin{document} is conventionally not indented
+          if (environmentName(context.state.doc, context.node) === 'document') {
+            return context.baseIndent;
+          }
+          return context.baseIndent + (/^\s*\\end\b/.test(context.textAfter) ? 0 : context.unit);
+        },
+        VerbatimEnvironment: () => null,
+        'Argument Group': delimitedIndent({ closing: '}' }),
+        OptionalArgument: delimitedIndent({ closing: ']' })
+      })
+    ]
+  }),
+  languageData: {
+    commentTokens: { line: '%' },
+    closeBrackets: { brackets: ['(', '[', '{'] },
+    indentOnInput: /^\s*(\\end\{[^}]*\}|\})$/
+  }
+});
+
+// A section folds up to the next section at the same or a higher level, or the end of its environment
+const sectionFolding = foldService.of((state, lineStart, lineEnd) => {
+  if (!/\\(part|chapter|section|subsection|subsubsection|paragraph|subparagraph)\b/.test(state.sliceDoc(lineStart, lineEnd))) return null;
+
+  let section: SyntaxNode | null = null;
+  syntaxTree(state).iterate({
+    from: lineStart,
+    to: lineEnd,
+    enter: node => {
+      if (section) return false;
+      if (node.name === 'SectioningCommand' && node.from >= lineStart) {
+        section = node.node;
+        return false;
+      }
+    }
+  });
+  if (!section) return null;
+
+  const start: SyntaxNode = section;
+  const level = sectionLevel(state.doc, start);
+  let end = start.parent ? start.parent.to : state.doc.length;
+  for (let sibling = start.nextSibling; sibling; sibling = sibling.nextSibling) {
+    if (sibling.name === 'EndEnv' || (sibling.name === 'SectioningCommand' && sectionLevel(state.doc, sibling) <= level)) {
+      end = sibling.from;
+      break;
+    }
+  }
+  while (end > lineEnd && /\s/.test(state.sliceDoc(end - 1, end))) end--;
+  return end > lineEnd ? { from: lineEnd, to: end } : null;
+});
+
+const mismatchMark = Decoration.mark({ class: 'cm-environmentMismatch' });
+
+const buildMismatchDecorations = (view: EditorView): DecorationSet => {
+  const builder = new RangeSetBuilder<Decoration>();
+  const tree = syntaxTree(view.state);
+  view.visibleRanges.forEach(({ from, to }) => {
+    findEnvironmentMismatches(tree, view.state.doc, from, to)
+      .sort((a, b) => a.from - b.from)
+      .forEach(mismatch => builder.add(mismatch.from, mismatch.to, mismatchMark));
+  });
+  return builder.finish();
+};
+
+// Underlines an \end{...} whose name does not match its \begin{...}
+const environmentMismatches = ViewPlugin.fromClass(class {
+  decorations: DecorationSet;
+
+  constructor(view: EditorView) {
+    this.decorations = buildMismatchDecorations(view);
+  }
+
+  update(update: ViewUpdate) {
+    if (update.docChanged || update.viewportChanged || syntaxTree(update.state) !== syntaxTree(update.startState)) {
+      this.decorations = buildMismatchDecorations(update.view);
+    }
+  }
+}, { decorations: plugin => plugin.decorations });
+
+const environmentMismatchTheme = EditorView.baseTheme({
+  '.cm-environmentMismatch': { textDecoration: 'underline wavy #dc2626' }
+});
+
+// Colours close to the stex mode's, with math set apart from text
+export const latexHighlightStyle = HighlightStyle.define([
+  { tag: t.keyword, color: '#1d4ed8', fontWeight: 'bold' },
+  { tag: t.macroName, color: '#be185d' },
+  { tag: t.className, color: '#047857' },
+  { tag: t.heading, fontWeight: 'bold' },
+  { tag: t.special(t.string), color: '#854d0e' },
+  { tag: t.processingInstruction, color: '#b91c1c', fontWeight: 'bold' },
+  { tag: t.operator, color: '#57534e' },
+  { tag: t.separator, color: '#57534e', fontWeight: 'bold' },
+  { tag: t.monospace, color: '#44403c' },
+  { tag: t.lineComment, color: '#15803d', fontStyle: 'italic' },
+  { tag: [t.brace, t.squareBracket], color: '#374151' }
+]);
+
+/**
+ * LaTeX support: the language with section folding and mismatched \end highlighting.
+ */
+export const latex = (): LanguageSupport =>
+  new LanguageSupport(latexLanguage, [sectionFolding, environmentMismatches, environmentMismatchTheme]);
@@ -0,0 +1,211 @@
+// utils/pdfPostProcessing.ts
+// Steps applied to a compiled PDF with pdf-lib: metadata, a watermark, review line numbers,
+// page headers, and other PDFs merged before or after the document
+
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib';
+
+export const WATERMARK_PRESETS = ['DRAFT', 'CONFIDENTIAL'];
+
+export interface PdfMergeStep {
+  // Project file id of the PDF to merge
+  fileId: string;
+  position: 'before' | 'after';
+}
+
+/**
+ * Post-processing of one compile target, stored on the project under
+ * `pdfPostProcessing[targetFileId]`.
+ */
+export interface PdfPostProcessing {
+  // Set Title and Author from the document's \title and \author
+  metadata: boolean;
+  // Text stamped diagonally across every page; empty for none
+  watermark: string;
+  // Number the text lines in the left margin, for review copies
+  lineNumbers: boolean;
+  // Text at the top of every page; {title}, {page}, {pages} and {date} are filled in
+  pageHeader: string;
+  merge: PdfMergeStep[];
+}
+
+// Baselines of the text lines on a page, in PDF points from the bottom left
+export interface PageTextLines {
+  left: number;
+  baselines: number[];
+}
+
+export interface PdfPostProcessingContext {
+  title?: string;
+  author?: string;
+  // Per page of the compiled document, needed for line numbers
+  textLines?: PageTextLines[];
+  // Bytes of the PDFs in `merge`, by file id
+  mergeFiles?: Record<string, Uint8Array>;
+  date?: Date;
+}
+
+export const DEFAULT_PDF_POST_PROCESSING: PdfPostProcessing = {
+  metadata: true,
+  watermark: '',
+  lineNumbers: false,
+  pageHeader: '',
+  merge: []
+};
+
+export const normalizePdfPostProcessing = (value: unknown): PdfPostProcessing => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<PdfPostProcessing>;
+  return {
+    metadata: typeof input.metadata === 'boolean' ? input.metadata : DEFAULT_PDF_POST_PROCESSING.metadata,
+    watermark: typeof input.watermark === 'string' ? input.watermark.trim().slice(0, 40) : '',
+    lineNumbers: input.lineNumbers === true,
+    pageHeader: typeof input.pageHeader === 'string' ? input.pageHeader.slice(0, 200) : '',
+    merge: Array.isArray(input.merge)
+      ? input.merge
+          .filter(step => step && typeof step.fileId === 'string')
+          .map(step => ({ fileId: step.fileId, position: step.position === 'before' ? 'before' : 'after' }))
+      : []
+  };
+};
+
+// Whether the steps change anything beyond metadata
+export const changesPages = (steps: PdfPostProcessing): boolean =>
+  !!steps.watermark || steps.lineNumbers || !!steps.pageHeader || steps.merge.length > 0;
+
+// Plain text of a \title or \author argument
+const latexToPlainText = (value: string): string =>
+  value
+    .replace(/\\thanks\s*\{(?:[^{}]|\{[^{}]*\})*\}/g, '')
+    .replace(/\\and\b|\\\\(\[[^\]]*\])?/g, ', ')
+    .replace(/\\[A-Za-z@]+\*?(\[[^\]]*\])?/g, '')
+    .replace(/[{}~]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*(,\s*)*/g, ', ')
+    .replace(/^[\s,]+|[\s,]+$/g, '');
+
+const commandArgument = (latex: string, command: string): string | undefined => {
+  const match = latex.match(new RegExp(`\\\\${command}\\s*(?:\\[[^\\]]*\\])?\\s*\\{`));
+  if (!match || match.index === undefined) return undefined;
+  let depth = 1;
+  const start = match.index + match[0].length;
+  for (let i = start; i < latex.length; i++) {
+    if (latex[i] === '\\') {
+      i++;
+    } else if (latex[i] === '{') {
+      depth++;
+    } else if (latex[i] === '}' && --depth === 0) {
+      return latexToPlainText(latex.substring(start, i)) || undefined;
+    }
+  }
+  return undefined;
+};
+
+// Title and author as plain text from the main document's preamble
+export const extractDocumentMetadata = (latex: string): { title?: string; author?: string } => {
+  const source = latex.replace(/(^|[^\\])%.*$/gm, '$1');
+  return {
+    title: commandArgument(source, 'title'),
+    author: commandArgument(source, 'author')
+  };
+};
+
+const fillHeader = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(title|page|pages|date)\}/g, (_, key) => values[key] ?? '');
+
+/**
+ * Apply the steps to the PDF bytes. Stamps go on the compiled pages only; merged PDFs are
+ * added last and left as they are.
+ */
+export async function postProcessPdf(
+  bytes: Uint8Array,
+  steps: PdfPostProcessing,
+  context: PdfPostProcessingContext = {}
+): Promise<{ bytes: Uint8Array; prependedPages: number }> {
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const pages = pdf.getPages();
+  const date = (context.date || new Date()).toISOString().slice(0, 10);
+
+  if (changesPages(steps)) {
+    const font = await pdf.embedFont(StandardFonts.Helvetica);
+    const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+    let lineNumber = 0;
+
+    pages.forEach((page, index) => {
+      const { width, height } = page.getSize();
+
+      if (steps.watermark) {
+        const size = Math.min(width, height) / Math.max(steps.watermark.length * 0.55, 4);
+        const textWidth = boldFont.widthOfTextAtSize(steps.watermark, size);
+        // Centered on the page, rotated 45 degrees about the text's start
+        const angle = Math.PI / 4;
+        page.drawText(steps.watermark, {
+          x: width / 2 - (textWidth / 2) * Math.cos(angle) + (size / 3) * Math.sin(angle),
+          y: height / 2 - (textWidth / 2) * Math.sin(angle) - (size / 3) * Math.cos(angle),
+          size,
+          font: boldFont,
+          color: rgb(0.75, 0.1, 0.1),
+          opacity: 0.15,
+          rotate: degrees(45)
+        });
+      }
+
+      if (steps.pageHeader) {
+        const text = fillHeader(steps.pageHeader, {
+          title: context.title || '',
+          page: String(index + 1),
+          pages: String(pages.length),
+          date
+        });
+        const size = 8;
+        page.drawText(text, {
+          x: (width - font.widthOfTextAtSize(text, size)) / 2,
+          y: height - 24,
+          size,
+          font,
+          color: rgb(0.4, 0.4, 0.4)
+        });
+      }
+
+      const lines = context.textLines?.[index];
+      if (steps.lineNumbers && lines) {
+        // Numbered through the whole document, like the lineno package
+        lines.baselines.forEach(baseline => {
+          lineNumber++;
+          const label = String(lineNumber);
+          const size = 6;
+          page.drawText(label, {
+            x: Math.max(4, lines.left - 12 - font.widthOfTextAtSize(label, size)),
+            y: baseline,
+            size,
+            font,
+            color: rgb(0.5, 0.5, 0.5)
+          });
+        });
+      }
+    });
+  }
+
+  let prependedPages = 0;
+  let insertAt = 0;
+  for (const step of steps.merge) {
+    const data = context.mergeFiles?.[step.fileId];
+    if (!data) continue;
+    const source = await PDFDocument.load(data, { ignoreEncryption: true });
+    const copied = await pdf.copyPages(source, source.getPageIndices());
+    copied.forEach(page => {
+      if (step.position === 'before') {
+        pdf.insertPage(insertAt++, page);
+        prependedPages++;
+      } else {
+        pdf.addPage(page);
+      }
+    });
+  }
+
+  if (steps.metadata) {
+    if (context.title) pdf.setTitle(context.title);
+    if (context.author) pdf.setAuthor(context.author);
+  }
+  pdf.setModificationDate(context.date || new Date());
+
+  return { bytes: await pdf.save(), prependedPages };
+}
@@ -0,0 +1,142 @@
+// utils/pdfVisualDiff.ts
+// Pixel comparison of two rendered PDF pages: where they differ, and an overlay of both
+
+// RGBA pixels, the shape of a canvas ImageData
+export interface PagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// A changed area as fractions of the page size, so it can be drawn at any zoom
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VisualDiffOptions {
+  // Side of the square cells pixels are grouped into, in pixels
+  cellSize?: number;
+  // Grey level difference (0-255) below which pixels count as equal, to ignore antialiasing
+  threshold?: number;
+  // Empty cells bridged when joining changed cells into one region
+  mergeDistance?: number;
+}
+
+const DEFAULT_CELL_SIZE = 8;
+const DEFAULT_THRESHOLD = 48;
+const DEFAULT_MERGE_DISTANCE = 2;
+// Grey level under which a pixel counts as ink in the overlay
+const INK_LEVEL = 160;
+
+// Pixels outside a smaller page are white paper
+const greyAt = (page: PagePixels, x: number, y: number): number => {
+  if (x >= page.width || y >= page.height) return 255;
+  const offset = (y * page.width + x) * 4;
+  const alpha = page.data[offset + 3] / 255;
+  const grey = 0.299 * page.data[offset] + 0.587 * page.data[offset + 1] + 0.114 * page.data[offset + 2];
+  return grey * alpha + 255 * (1 - alpha);
+};
+
+/**
+ * Regions where two renderings of a page differ. Pixels are compared in grey, grouped into
+ * cells, and nearby changed cells are joined into one bounding box.
+ */
+export const findChangedRegions = (
+  before: PagePixels,
+  after: PagePixels,
+  options: VisualDiffOptions = {}
+): DiffRegion[] => {
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const mergeDistance = options.mergeDistance ?? DEFAULT_MERGE_DISTANCE;
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const columns = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  if (columns === 0 || rows === 0) return [];
+
+  const changed = new Uint8Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / cellSize) * columns;
+    for (let x = 0; x < width; x++) {
+      const cell = row + Math.floor(x / cellSize);
+      if (changed[cell]) continue;
+      if (Math.abs(greyAt(before, x, y) - greyAt(after, x, y)) > threshold) changed[cell] = 1;
+    }
+  }
+
+  // Connected groups of changed cells, where cells up to mergeDistance apart are neighbours
+  const visited = new Uint8Array(columns * rows);
+  const regions: DiffRegion[] = [];
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || visited[start]) continue;
+    let minColumn = columns, maxColumn = 0, minRow = rows, maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      for (let dy = -mergeDistance - 1; dy <= mergeDistance + 1; dy++) {
+        for (let dx = -mergeDistance - 1; dx <= mergeDistance + 1; dx++) {
+          const neighbourColumn = column + dx;
+          const neighbourRow = row + dy;
+          if (neighbourColumn < 0 || neighbourColumn >= columns || neighbourRow < 0 || neighbourRow >= rows) continue;
+          const neighbour = neighbourRow * columns + neighbourColumn;
+          if (changed[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    const left = minColumn * cellSize;
+    const top = minRow * cellSize;
+    regions.push({
+      x: left / width,
+      y: top / height,
+      width: (Math.min((maxColumn + 1) * cellSize, width) - left) / width,
+      height: (Math.min((maxRow + 1) * cellSize, height) - top) / height
+    });
+  }
+
+  // Reading order
+  return regions.sort((a, b) => a.y - b.y || a.x - b.x);
+};
+
+/**
+ * Both pages in one image: ink only in `before` in red, ink only in `after` in green,
+ * everything else as rendered.
+ */
+export const composeOverlay = (before: PagePixels, after: PagePixels): PagePixels => {
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const beforeGrey = greyAt(before, x, y);
+      const afterGrey = greyAt(after, x, y);
+      const beforeInk = beforeGrey < INK_LEVEL;
+      const afterInk = afterGrey < INK_LEVEL;
+      const offset = (y * width + x) * 4;
+      if (beforeInk && !afterInk) {
+        data.set([220, 38, 38, 255], offset);
+      } else if (afterInk && !beforeInk) {
+        data.set([22, 163, 74, 255], offset);
+      } else {
+        // Unchanged: the darker of the two, so shared text stays legible
+        const grey = Math.min(beforeGrey, afterGrey);
+        data.set([grey, grey, grey, 255], offset);
+      }
+    }
+  }
+  return { width, height, data };
+};
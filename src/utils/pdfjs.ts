@@ -0,0 +1,80 @@
+// utils/pdfjs.ts
+// Loading pdf.js and the PDF bytes it takes, shared by the page views and PDF post-processing
+
+// pdf.js touches browser globals on import, so it is loaded lazily on the client
+export const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+};
+
+export const toPdfBytes = (pdfData: string | ArrayBuffer): Uint8Array => {
+  if (pdfData instanceof ArrayBuffer) return new Uint8Array(pdfData);
+  const base64 = pdfData.startsWith('data:') ? pdfData.slice(pdfData.indexOf(',') + 1) : pdfData;
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+// Lines closer than this, in points, are one line (sub- and superscripts sit a little off the baseline)
+const MIN_LINE_GAP = 4;
+
+/**
+ * Baselines of the text lines on each page and where the text block starts, in PDF points
+ * from the bottom left, for numbering lines in the margin.
+ */
+export const findTextLines = async (pdfData: string | ArrayBuffer): Promise<{ left: number; baselines: number[] }[]> => {
+  const pdfjs = await loadPdfjs();
+  const pdfDocument = await pdfjs.getDocument({ data: toPdfBytes(pdfData) }).promise;
+  try {
+    const pages: { left: number; baselines: number[] }[] = [];
+    for (let pageNumber = 1; pageNumber <= pdfDocument.numPages; pageNumber++) {
+      const page = await pdfDocument.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const lineStarts = new Map<number, number>();
+      content.items.forEach(item => {
+        if (!('str' in item) || !item.str.trim()) return;
+        const [, skew, , , x, y] = item.transform;
+        // Rotated text is not part of the running text
+        if (skew !== 0) return;
+        const baseline = Math.round(y);
+        lineStarts.set(baseline, Math.min(lineStarts.get(baseline) ?? Infinity, x));
+      });
+
+      const baselines: number[] = [];
+      Array.from(lineStarts.keys()).sort((a, b) => b - a).forEach(baseline => {
+        if (baselines.length === 0 || baselines[baselines.length - 1] - baseline >= MIN_LINE_GAP) {
+          baselines.push(baseline);
+        }
+      });
+      // The text block's left edge, ignoring the odd line that starts further left
+      const starts = Array.from(lineStarts.values()).sort((a, b) => a - b);
+      pages.push({ left: starts.length ? starts[Math.floor(starts.length * 0.1)] : 72, baselines });
+    }
+    return pages;
+  } finally {
+    pdfDocument.destroy();
+  }
+};
+
+/**
+ * One page rendered to a PNG data URL, `width` pixels wide, on a white background.
+ */
+export const renderPageImage = async (pdfData: string | ArrayBuffer, pageNumber: number, width: number): Promise<string> => {
+  const pdfjs = await loadPdfjs();
+  const pdfDocument = await pdfjs.getDocument({ data: toPdfBytes(pdfData) }).promise;
+  try {
+    const page = await pdfDocument.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas.toDataURL('image/png');
+  } finally {
+    pdfDocument.destroy();
+  }
+};
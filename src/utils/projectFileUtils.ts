@@ -0,0 +1,151 @@
+// utils/projectFileUtils.ts
+// Helpers for turning flat `projectFiles` documents into a real directory layout
+
+/**
+ * Shape of a project file document as stored in Firestore.
+ * Older documents use `_name_`, newer ones `name`; binaries may live in
+ * `content` (data URL), `dataUrl`, `url` or `downloadURL`.
+ */
+export interface ProjectFileRecord {
+  id: string;
+  name?: string;
+  _name_?: string;
+  type?: 'file' | 'folder' | string;
+  parentId?: string | null;
+  content?: string;
+  dataUrl?: string;
+  url?: string;
+  downloadURL?: string;
+  fileType?: string;
+  deleted?: boolean;
+}
+
+/**
+ * A file ready to be written into a compile workspace.
+ * Text files carry `content`, binaries carry base64 `data`.
+ */
+export interface ProjectTreeEntry {
+  id: string;
+  path: string;
+  content?: string;
+  data?: string;
+  mimeType?: string;
+}
+
+// Extensions LaTeX tooling reads as text
+const TEXT_EXTENSIONS = [
+  'tex', 'ltx', 'sty', 'cls', 'clo', 'cfg', 'def', 'fd',
+  'bib', 'bst', 'bbx', 'cbx', 'lbx', 'dbx',
+  'txt', 'md', 'csv', 'dat', 'tikz', 'pgf', 'latexmkrc', 'ist', 'idx'
+];
+
+export const getFileName = (file: ProjectFileRecord): string =>
+  file._name_ || file.name || 'Untitled';
+
+export const getFileExtension = (name: string): string => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex === -1 ? '' : name.substring(dotIndex + 1).toLowerCase();
+};
+
+export const isTexFile = (name: string): boolean =>
+  ['tex', 'ltx'].includes(getFileExtension(name));
+
+// Files LaTeX tooling reads as text, by extension
+export const isTextFileName = (name: string): boolean =>
+  TEXT_EXTENSIONS.includes(getFileExtension(name));
+
+/**
+ * Build a map of file id -> project-relative path by walking `parentId` links.
+ * Files whose parent is missing are treated as living at the project root.
+ */
+export const buildProjectPaths = (files: ProjectFileRecord[]): Map<string, string> => {
+  const byId = new Map<string, ProjectFileRecord>();
+  files.forEach(file => {
+    if (file.deleted !== true) byId.set(file.id, file);
+  });
+
+  const paths = new Map<string, string>();
+
+  const resolve = (file: ProjectFileRecord, seen: Set<string>): string => {
+    const cached = paths.get(file.id);
+    if (cached !== undefined) return cached;
+
+    const name = getFileName(file).replace(/[\\/]+/g, '_');
+    const parent = file.parentId ? byId.get(file.parentId) : undefined;
+
+    // Guard against parentId cycles in corrupted data
+    let result = name;
+    if (parent && !seen.has(parent.id)) {
+      seen.add(file.id);
+      result = `${resolve(parent, seen)}/${name}`;
+    }
+
+    paths.set(file.id, result);
+    return result;
+  };
+
+  byId.forEach(file => resolve(file, new Set()));
+  return paths;
+};
+
+/**
+ * Pull base64 data out of a data URL or a bare base64 string.
+ */
+export const parseBase64Data = (value: string): { data: string; mimeType?: string } | null => {
+  if (value.startsWith('data:')) {
+    const matches = value.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,([\s\S]*)$/);
+    return matches ? { data: matches[2], mimeType: matches[1] } : null;
+  }
+  if (value.length > 0 && /^[A-Za-z0-9+/=\s]+$/.test(value) && value.length % 4 === 0) {
+    return { data: value.replace(/\s+/g, '') };
+  }
+  return null;
+};
+
+/**
+ * Decide whether a project file should be treated as binary data rather than source text.
+ */
+export const isBinaryProjectFile = (file: ProjectFileRecord): boolean => {
+  const name = getFileName(file);
+  if (isTextFileName(name)) return false;
+  if (file.fileType === 'image' || file.fileType === 'binary') return true;
+  if (file.dataUrl || file.downloadURL) return true;
+  if (typeof file.content === 'string' && file.content.startsWith('data:')) return true;
+  return !!file.url && !file.content;
+};
+
+/**
+ * Get the remote URL a binary file can be downloaded from, if it has one.
+ */
+export const getRemoteFileUrl = (file: ProjectFileRecord): string | null => {
+  const url = file.downloadURL || file.url;
+  return url && url.startsWith('http') ? url : null;
+};
+
+/**
+ * Pick the document that should be compiled.
+ * Priority: explicit main file, the file being edited (if it is a full document),
+ * a root-level main.tex, then any .tex file with \documentclass.
+ */
+export const resolveMainFile = (
+  files: ProjectFileRecord[],
+  mainFileId?: string | null,
+  currentFileId?: string | null
+): ProjectFileRecord | null => {
+  const texFiles = files.filter(f => f.type !== 'folder' && f.deleted !== true && isTexFile(getFileName(f)));
+
+  if (mainFileId) {
+    const configured = texFiles.find(f => f.id === mainFileId);
+    if (configured) return configured;
+  }
+
+  if (currentFileId) {
+    const current = texFiles.find(f => f.id === currentFileId);
+    if (current && /\\documentclass/.test(current.content || '')) return current;
+  }
+
+  const rootMain = texFiles.find(f => !f.parentId && getFileName(f) === 'main.tex');
+  if (rootMain) return rootMain;
+
+  return texFiles.find(f => /\\documentclass/.test(f.content || '')) || null;
+};
@@ -0,0 +1,120 @@
+// utils/projectImport.ts
+// Reading a project archive, such as an Overleaf download, and finding its main document
+
+import JSZip from 'jszip';
+import { getFileExtension, isTexFile, isTextFileName } from './projectFileUtils';
+
+/**
+ * A file from an archive, at its path inside the project.
+ * Text files carry `content`, binaries `data`.
+ */
+export interface ImportedFile {
+  path: string;
+  content?: string;
+  data?: Uint8Array;
+}
+
+export interface ImportedProject {
+  files: ImportedFile[];
+  // Every folder, parents before children, including empty ones
+  folders: string[];
+}
+
+// Entries that archivers and version control add, not part of the project
+const IGNORED_ENTRY = /(^|\/)(__MACOSX|\.git|\.DS_Store|Thumbs\.db|desktop\.ini)(\/|$)/;
+
+// Build output left in the archive; the .bbl is kept since some projects ship it instead of a .bib
+const BUILD_OUTPUT = ['aux', 'log', 'out', 'fls', 'fdb_latexmk', 'toc', 'lof', 'lot', 'blg', 'xdv', 'dvi'];
+
+const isBuildOutput = (path: string): boolean =>
+  BUILD_OUTPUT.includes(getFileExtension(path)) || path.endsWith('.synctex.gz');
+
+// UTF-8 text without NUL bytes, or null for binary data
+const decodeText = (data: Uint8Array): string | null => {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return text.includes('\u0000') ? null : text;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Unpack a ZIP into project files. A single folder wrapping everything (as GitHub and
+ * most archivers produce) is dropped so the project starts at its contents.
+ */
+export const readProjectArchive = async (archive: ArrayBuffer | Blob): Promise<ImportedProject> => {
+  const zip = await JSZip.loadAsync(archive);
+  const entries = Object.values(zip.files).filter(entry => !IGNORED_ENTRY.test(entry.name));
+
+  const filePaths = entries.filter(entry => !entry.dir).map(entry => entry.name);
+  const firstSegment = filePaths[0]?.split('/')[0];
+  const wrapper = firstSegment && filePaths.every(path => path.startsWith(`${firstSegment}/`))
+    ? `${firstSegment}/`
+    : '';
+
+  const folders = new Set<string>();
+  const addParents = (path: string) => {
+    const segments = path.split('/').slice(0, -1);
+    segments.forEach((_, index) => folders.add(segments.slice(0, index + 1).join('/')));
+  };
+
+  const files: ImportedFile[] = [];
+  for (const entry of entries) {
+    const path = entry.name.substring(wrapper.length).replace(/\/+$/, '');
+    if (!path) continue;
+    if (entry.dir) {
+      folders.add(path);
+      addParents(path);
+      continue;
+    }
+    if (isBuildOutput(path)) continue;
+
+    addParents(path);
+    if (isTextFileName(path)) {
+      files.push({ path, content: await entry.async('string') });
+      continue;
+    }
+    // Unknown extensions are kept as text when they decode as such
+    const data = await entry.async('uint8array');
+    const content = decodeText(data);
+    files.push(content !== null ? { path, content } : { path, data });
+  }
+
+  const byDepth = (a: string, b: string) => a.split('/').length - b.split('/').length || a.localeCompare(b);
+  return {
+    files: files.sort((a, b) => byDepth(a.path, b.path)),
+    folders: Array.from(folders).sort(byDepth)
+  };
+};
+
+const stripComments = (latex: string): string => latex.replace(/(^|[^\\])%.*$/gm, '$1');
+
+// Sub-documents compiled on their own still name the real main file
+const SUBDOCUMENT_CLASS = /\\documentclass\s*(\[[^\]]*\])?\s*\{(subfiles|standalone)\}/;
+
+/**
+ * Path of the document to compile: a .tex file with both \documentclass and
+ * \begin{document}, preferring the shallowest and then one named main.tex.
+ * Falls back to any file with \documentclass.
+ */
+export const findMainTexFile = (files: ImportedFile[]): string | null => {
+  const documents = files
+    .filter(file => isTexFile(file.path) && file.content !== undefined)
+    .map(file => ({ path: file.path, source: stripComments(file.content || '') }))
+    .filter(file => /\\documentclass/.test(file.source));
+
+  const rank = (path: string) => [path.split('/').length, /(^|\/)main\.tex$/i.test(path) ? 0 : 1];
+  const best = (candidates: { path: string }[]) => candidates
+    .map(file => file.path)
+    .sort((a, b) => {
+      const [depthA, nameA] = rank(a);
+      const [depthB, nameB] = rank(b);
+      return depthA - depthB || nameA - nameB || a.localeCompare(b);
+    })[0] || null;
+
+  const complete = documents.filter(file =>
+    /\\begin\s*\{document\}/.test(file.source) && !SUBDOCUMENT_CLASS.test(file.source)
+  );
+  return best(complete) || best(documents);
+};
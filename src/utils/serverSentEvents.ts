@@ -0,0 +1,61 @@
+// utils/serverSentEvents.ts
+// Reading and writing Server-Sent Events over fetch streams (EventSource cannot POST)
+
+export interface ServerSentEvent {
+  event: string;
+  data: unknown;
+}
+
+export const formatServerSentEvent = (event: string, data: unknown): string =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+// Parse one "event:/data:" block; events without JSON data are skipped
+const parseEventBlock = (block: string): ServerSentEvent | null => {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+  if (dataLines.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Read a stream of Server-Sent Events, calling `onEvent` for each one as it arrives.
+ * Resolves when the stream ends.
+ */
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, separator));
+      buffer = buffer.slice(separator + 2);
+      if (parsed) onEvent(parsed);
+      separator = buffer.indexOf('\n\n');
+    }
+
+    if (done) break;
+  }
+
+  const trailing = buffer.trim() ? parseEventBlock(buffer) : null;
+  if (trailing) onEvent(trailing);
+};
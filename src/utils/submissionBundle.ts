@@ -0,0 +1,125 @@
+// utils/submissionBundle.ts
+// Turning a project tree into a submission for arXiv or a journal: the main document flattened
+// without comments, the generated .bbl, and only the graphics the document uses
+
+import { ProjectTreeEntry, getFileExtension, isTexFile } from './projectFileUtils';
+import { FlattenSourceLine, flattenLatex } from './latexFlatten';
+import { parseGraphicsPaths, resolveGraphicsPath } from './graphicsPaths';
+
+export interface SubmissionRemoval {
+  path: string;
+  reason: string;
+}
+
+export interface SubmissionReport {
+  mainFile: string;
+  // Files flattened into the main document
+  inlined: string[];
+  removed: SubmissionRemoval[];
+  warnings: string[];
+  bblIncluded: boolean;
+  // Whether the bibliography went into the main document rather than a .bbl file
+  bblInlined: boolean;
+}
+
+export interface SubmissionOptions {
+  // The .bbl the last compile generated
+  bbl?: string | null;
+  // Put the .bbl in place of \bibliography{...}, for journals that take a single file
+  inlineBbl?: boolean;
+  stripComments?: boolean;
+}
+
+const GRAPHICS_FILE_EXTENSIONS = [
+  'pdf', 'png', 'jpg', 'jpeg', 'mps', 'jbig2', 'jb2', 'eps', 'ps', 'svg', 'gif', 'webp', 'tif', 'tiff'
+];
+
+const BUILD_OUTPUT_EXTENSIONS = ['aux', 'log', 'out', 'fls', 'fdb_latexmk', 'toc', 'lof', 'lot', 'blg', 'bcf', 'xdv', 'dvi', 'nav', 'snm', 'vrb'];
+
+// \includegraphics and pdfpages' \includepdf load files the graphicx way
+const GRAPHICS_REFERENCE = /\\(?:includegraphics|includepdf)\*?(?:\[[^\]]*\])*\s*\{([^}]+)\}/g;
+
+/**
+ * Build the submission from a project tree whose main document is at `mainPath`.
+ */
+export const buildSubmissionBundle = (
+  entries: ProjectTreeEntry[],
+  mainPath: string,
+  { bbl = null, inlineBbl = false, stripComments = true }: SubmissionOptions = {}
+): { files: ProjectTreeEntry[]; report: SubmissionReport; sourceMap: FlattenSourceLine[] } => {
+  const byPath = new Map(entries.map(entry => [entry.path, entry]));
+  const readFile = (path: string) => {
+    const content = byPath.get(path)?.content;
+    return typeof content === 'string' ? content : null;
+  };
+
+  // arXiv looks for the .bbl next to the main document, named after it
+  const bblPath = mainPath.replace(/\.[^./]+$/, '') + '.bbl';
+  const { latex, inlined, missing, sourceMap } = flattenLatex(mainPath, readFile, {
+    stripComments,
+    bbl: bbl && inlineBbl ? { path: bblPath, content: bbl } : null
+  });
+  const bblInlined = inlined.includes(bblPath);
+  const warnings = missing.map(target => `\\input{${target}} has no file in the project and was left in place`);
+
+  // TeX resolves graphics from the project root, with \graphicspath directories tried in order
+  const graphicsPaths = parseGraphicsPaths(latex);
+  const usedGraphics = new Set<string>();
+  for (const match of latex.matchAll(GRAPHICS_REFERENCE)) {
+    const resolved = resolveGraphicsPath(match[1], graphicsPaths, path => byPath.has(path));
+    if (resolved) {
+      usedGraphics.add(resolved);
+    } else {
+      warnings.push(`Graphic "${match[1].trim()}" has no file in the project`);
+    }
+  }
+
+  const inlinedSet = new Set(inlined);
+  const files: ProjectTreeEntry[] = [];
+  const removed: SubmissionRemoval[] = [];
+
+  entries.forEach(entry => {
+    if (entry.path === mainPath) {
+      files.push({ ...entry, content: latex });
+      return;
+    }
+
+    const extension = getFileExtension(entry.path);
+    let reason: string | null = null;
+    if (inlinedSet.has(entry.path)) {
+      reason = `Inlined into ${mainPath}`;
+    } else if (BUILD_OUTPUT_EXTENSIONS.includes(extension) || entry.path.endsWith('.synctex.gz')) {
+      reason = 'Build output';
+    } else if (isTexFile(entry.path)) {
+      reason = 'Not used by the main document';
+    } else if (GRAPHICS_FILE_EXTENSIONS.includes(extension) && !usedGraphics.has(entry.path)) {
+      reason = 'Image not used by the document';
+    } else if (bbl && extension === 'bib') {
+      reason = 'Replaced by the generated .bbl';
+    } else if (bbl && entry.path === bblPath) {
+      reason = bblInlined ? 'Inlined into the main document' : 'Replaced by the .bbl from the last compile';
+    }
+
+    if (reason) {
+      removed.push({ path: entry.path, reason });
+    } else {
+      files.push(entry);
+    }
+  });
+
+  const citesBibliography = /\\(bibliography|addbibresource|printbibliography)\b/.test(latex);
+  if (bbl) {
+    if (!bblInlined) files.push({ id: 'bbl', path: bblPath, content: bbl });
+    if (/\\usepackage(\[[^\]]*\])?\{biblatex\}/.test(latex)) {
+      warnings.push('The .bbl was made by biblatex; arXiv only accepts it when its biblatex version matches');
+    }
+  } else if (citesBibliography && !byPath.has(bblPath)) {
+    warnings.push('No .bbl was generated; arXiv does not run BibTeX, so the references will be missing');
+  }
+
+  return {
+    files,
+    report: { mainFile: mainPath, inlined, removed, warnings, bblIncluded: !!bbl, bblInlined },
+    sourceMap
+  };
+};
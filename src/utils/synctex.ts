@@ -0,0 +1,208 @@
+// utils/synctex.ts
+// Minimal SyncTeX reader for forward (source -> PDF) and inverse (PDF -> source) search
+
+// Scaled points per PDF big point (65536 * 72.27 / 72)
+const SP_PER_BP = 65781.76;
+// TeX places its origin one inch from the top left corner of the page
+const TEX_ORIGIN_BP = 72;
+
+// A box or point record from the SyncTeX content, in PDF points from the page's top left corner
+export interface SynctexRecord {
+  page: number;
+  input: number;
+  line: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+  isBox: boolean;
+}
+
+export interface SynctexData {
+  inputs: Map<number, string>;
+  records: SynctexRecord[];
+}
+
+// A rectangle on a PDF page, in PDF points from the page's top left corner
+export interface SynctexLocation {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SynctexSourceLocation {
+  file: string;
+  line: number;
+}
+
+const RECORD_REGEX = /^([[(vhxkg$])(\d+),(\d+):(-?\d+),(-?\d+)(?::(-?\d+)(?:,(-?\d+),(-?\d+))?)?/;
+
+const normalizePath = (filePath: string): string =>
+  filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+
+/**
+ * Parse uncompressed SyncTeX text.
+ */
+export const parseSynctex = (content: string): SynctexData => {
+  const inputs = new Map<number, string>();
+  const records: SynctexRecord[] = [];
+  let unit = 1;
+  let magnification = 1000;
+  let xOffset = 0;
+  let yOffset = 0;
+  let page = 0;
+
+  const toBp = (value: number) => (value * unit * magnification) / 1000 / SP_PER_BP;
+
+  for (const line of content.split('\n')) {
+    if (line.startsWith('Input:')) {
+      const match = line.match(/^Input:(\d+):(.*)$/);
+      if (match) inputs.set(parseInt(match[1], 10), normalizePath(match[2]));
+      continue;
+    }
+    if (line.startsWith('Unit:')) {
+      unit = parseFloat(line.slice(5)) || 1;
+      continue;
+    }
+    if (line.startsWith('Magnification:')) {
+      magnification = parseFloat(line.slice(14)) || 1000;
+      continue;
+    }
+    if (line.startsWith('X Offset:')) {
+      xOffset = parseFloat(line.slice(9)) || 0;
+      continue;
+    }
+    if (line.startsWith('Y Offset:')) {
+      yOffset = parseFloat(line.slice(9)) || 0;
+      continue;
+    }
+    if (line.startsWith('{')) {
+      page = parseInt(line.slice(1), 10) || page + 1;
+      continue;
+    }
+
+    const match = line.match(RECORD_REGEX);
+    if (!match || page === 0) continue;
+
+    const [, kind, input, sourceLine, h, v, width, height, depth] = match;
+    // Only boxes carry height and depth; kerns carry just a width
+    const isBox = kind === '[' || kind === '(' || kind === 'v' || kind === 'h';
+    records.push({
+      page,
+      input: parseInt(input, 10),
+      line: parseInt(sourceLine, 10),
+      x: toBp(parseInt(h, 10) + xOffset) + TEX_ORIGIN_BP,
+      y: toBp(parseInt(v, 10) + yOffset) + TEX_ORIGIN_BP,
+      width: isBox && width ? toBp(parseInt(width, 10)) : 0,
+      height: isBox && height ? toBp(parseInt(height, 10)) : 0,
+      depth: isBox && depth ? toBp(parseInt(depth, 10)) : 0,
+      isBox
+    });
+  }
+
+  return { inputs, records };
+};
+
+/**
+ * Decode the gzipped, base64 encoded SyncTeX data returned by the compiler.
+ */
+export const decodeSynctex = async (encoded: string | null | undefined): Promise<SynctexData | null> => {
+  if (!encoded || typeof DecompressionStream === 'undefined') return null;
+  try {
+    const bytes = Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+    const content = await new Response(stream).text();
+    return parseSynctex(content);
+  } catch (error) {
+    console.error('Error decoding SyncTeX data:', error);
+    return null;
+  }
+};
+
+const findInput = (data: SynctexData, filePath: string): number | null => {
+  const target = normalizePath(filePath);
+  for (const [tag, inputPath] of data.inputs) {
+    if (inputPath === target || `${inputPath}.tex` === target) return tag;
+  }
+  return null;
+};
+
+/**
+ * Locate a source line in the PDF. Falls back to the nearest following line with output
+ * (blank lines and comments produce none), then the nearest preceding one.
+ */
+export const forwardSearch = (data: SynctexData, filePath: string, line: number): SynctexLocation | null => {
+  const input = findInput(data, filePath);
+  if (input === null) return null;
+
+  const fileRecords = data.records.filter(record => record.input === input);
+  if (fileRecords.length === 0) return null;
+
+  let targetLine = line;
+  if (!fileRecords.some(record => record.line === line)) {
+    const after = fileRecords.filter(record => record.line > line).map(record => record.line);
+    const before = fileRecords.filter(record => record.line < line).map(record => record.line);
+    targetLine = after.length > 0 ? Math.min(...after) : Math.max(...before);
+  }
+
+  const matches = fileRecords.filter(record => record.line === targetLine);
+  // Use the first page the line appears on and cover every box from it there
+  const page = Math.min(...matches.map(record => record.page));
+  const onPage = matches.filter(record => record.page === page);
+  const boxes = onPage.filter(record => record.isBox && record.width > 0);
+  const area = boxes.length > 0 ? boxes : onPage;
+
+  const left = Math.min(...area.map(record => record.x));
+  const top = Math.min(...area.map(record => record.y - record.height));
+  const right = Math.max(...area.map(record => record.x + record.width));
+  const bottom = Math.max(...area.map(record => record.y + record.depth));
+
+  return {
+    page,
+    x: left,
+    y: top,
+    width: Math.max(right - left, 1),
+    height: Math.max(bottom - top, 1)
+  };
+};
+
+/**
+ * Find the source line behind a point on a PDF page: the smallest box containing it,
+ * otherwise the closest record on that page.
+ */
+export const inverseSearch = (data: SynctexData, page: number, x: number, y: number): SynctexSourceLocation | null => {
+  const pageRecords = data.records.filter(record => record.page === page && data.inputs.has(record.input));
+  if (pageRecords.length === 0) return null;
+
+  let best: SynctexRecord | null = null;
+  let bestArea = Infinity;
+  for (const record of pageRecords) {
+    if (!record.isBox || record.width <= 0) continue;
+    const top = record.y - record.height;
+    const bottom = record.y + record.depth;
+    if (x >= record.x && x <= record.x + record.width && y >= top && y <= bottom) {
+      const area = record.width * (bottom - top);
+      if (area < bestArea) {
+        best = record;
+        bestArea = area;
+      }
+    }
+  }
+
+  if (!best) {
+    let bestDistance = Infinity;
+    for (const record of pageRecords) {
+      const distance = Math.hypot(record.x - x, record.y - y);
+      if (distance < bestDistance) {
+        best = record;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  if (!best) return null;
+  return { file: data.inputs.get(best.input) as string, line: best.line };
+};
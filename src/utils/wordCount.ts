@@ -0,0 +1,444 @@
+// utils/wordCount.ts
+// texcount-style document statistics: words in text, headers, captions and footnotes, plus
+// headers, floats and math, per section and per file of a project
+import { LaTeXTreeProcessor } from './LaTeXTreeProcessor';
+
+export interface WordCountTotals {
+  textWords: number;
+  headerWords: number;
+  captionWords: number;
+  footnoteWords: number;
+  headers: number;
+  floats: number;
+  inlineMath: number;
+  displayMath: number;
+}
+
+export interface SectionWordCount {
+  // 'chapter', 'section', ...; '' for the text before the first heading
+  level: string;
+  title: string;
+  line: number;
+  counts: WordCountTotals;
+}
+
+export interface FileWordCount {
+  path: string;
+  counts: WordCountTotals;
+  sections: SectionWordCount[];
+}
+
+export interface DocumentWordCount {
+  // Words in text, headers, captions and footnotes together
+  words: number;
+  counts: WordCountTotals;
+  // In the order the main file includes them, main file first
+  files: FileWordCount[];
+}
+
+type Category = 'text' | 'header' | 'caption' | 'footnote' | 'ignore';
+
+const HEADER_COMMANDS = ['part', 'chapter', 'section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph'];
+
+const DISPLAY_MATH_ENVIRONMENTS = [
+  'equation', 'align', 'gather', 'multline', 'flalign', 'alignat', 'eqnarray', 'displaymath', 'dmath'
+];
+
+// Environments with no countable prose
+const SKIPPED_ENVIRONMENTS = [
+  'verbatim', 'Verbatim', 'lstlisting', 'minted', 'comment', 'tikzpicture', 'pgfpicture', 'filecontents',
+  'thebibliography', 'algorithmic'
+];
+
+// Inside floats only the caption counts
+const FLOAT_ENVIRONMENTS = [
+  'figure', 'table', 'wrapfigure', 'wraptable', 'sidewaysfigure', 'sidewaystable', 'algorithm', 'subfigure', 'subtable'
+];
+
+// Arguments after \begin{name} that are not text: o = optional [..], m = mandatory {..}
+const ENVIRONMENT_ARGUMENTS: Record<string, string> = {
+  tabular: 'om', 'tabular*': 'mom', tabularx: 'mom', tabulary: 'mm', array: 'om', longtable: 'om',
+  minipage: 'ooom', multicols: 'mo', 'multicols*': 'mo', wrapfigure: 'oomm', wraptable: 'oomm',
+  subfigure: 'om', subtable: 'om', alignat: 'm', 'alignat*': 'm', adjustbox: 'm', tcolorbox: 'o'
+};
+
+// Commands whose arguments are not counted as text; s = optional star, o = optional [..],
+// m = mandatory {..}, and an uppercase M is a mandatory argument whose words do count
+const COMMAND_ARGUMENTS: Record<string, string> = {
+  label: 'm', ref: 'sm', eqref: 'm', pageref: 'sm', autoref: 'sm', cref: 'sm', Cref: 'sm', nameref: 'sm',
+  cite: 'soom', citep: 'soom', citet: 'soom', citealp: 'soom', citeauthor: 'som', citeyear: 'som',
+  parencite: 'soom', textcite: 'soom', autocite: 'soom', nocite: 'm',
+  includegraphics: 'som', input: 'm', include: 'm', subfile: 'm', import: 'mm', includeonly: 'm',
+  usepackage: 'om', RequirePackage: 'om', documentclass: 'om', graphicspath: 'm', bibliography: 'm',
+  bibliographystyle: 'm', addbibresource: 'om', printbibliography: 'o',
+  url: 'm', href: 'mM', hyperref: 'oM', hyperlink: 'mM', hypertarget: 'mM',
+  textcolor: 'omM', colorbox: 'omM', color: 'om', definecolor: 'mmm',
+  newcommand: 'smoom', renewcommand: 'smoom', providecommand: 'smoom', DeclareMathOperator: 'smm',
+  newenvironment: 'smoomm', renewenvironment: 'smoomm', newtheorem: 'somo',
+  setlength: 'mm', addtolength: 'mm', setcounter: 'mm', addtocounter: 'mm',
+  vspace: 'sm', hspace: 'sm', vskip: '', hskip: '', rule: 'omm',
+  pagestyle: 'm', thispagestyle: 'm', pagenumbering: 'm', hypersetup: 'm', geometry: 'm',
+  multicolumn: 'mmM', multirow: 'omM', cline: 'm', cmidrule: 'om', makebox: 'ooM', raisebox: 'mM',
+  scalebox: 'mM', resizebox: 'smmM', rotatebox: 'omM', phantom: 'm', hphantom: 'm', vphantom: 'm',
+  index: 'm', glossary: 'm', item: 'o', bibitem: 'om', linebreak: 'o', pagebreak: 'o'
+};
+
+// Letters and digits in Latin, Greek and Cyrillic scripts
+const WORD_REGEX = /[A-Za-z0-9À-ɏͰ-ϿЀ-ӿ]+(?:['’-][A-Za-z0-9À-ɏͰ-ϿЀ-ӿ]+)*/g;
+const ACCENT_COMMANDS = `'"\`^~=.`;
+
+export const emptyWordCountTotals = (): WordCountTotals => ({
+  textWords: 0, headerWords: 0, captionWords: 0, footnoteWords: 0, headers: 0, floats: 0, inlineMath: 0, displayMath: 0
+});
+
+const addTotals = (target: WordCountTotals, source: WordCountTotals): void => {
+  (Object.keys(target) as (keyof WordCountTotals)[]).forEach(key => { target[key] += source[key]; });
+};
+
+export const totalWords = (counts: WordCountTotals): number =>
+  counts.textWords + counts.headerWords + counts.captionWords + counts.footnoteWords;
+
+export const countPlainWords = (text: string): number => (text.match(WORD_REGEX) || []).length;
+
+// Blank out comments, keeping offsets and line breaks
+const stripComments = (source: string): string => {
+  let result = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      result += source.substring(i, i + 2);
+      i++;
+    } else if (char === '%') {
+      while (i < source.length && source[i] !== '\n') {
+        result += ' ';
+        i++;
+      }
+      if (i < source.length) result += '\n';
+    } else {
+      result += char;
+    }
+  }
+  return result;
+};
+
+// Index just past the group that opens at `index`, or -1 when unbalanced
+const groupEnd = (source: string, index: number, open: string, close: string): number => {
+  let depth = 0;
+  for (let i = index; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === open) {
+      depth++;
+    } else if (source[i] === close) {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+};
+
+const skipSpaces = (source: string, index: number): number => {
+  while (index < source.length && /\s/.test(source[index])) index++;
+  return index;
+};
+
+class WordCounter {
+  private sections: SectionWordCount[] = [];
+  private current: SectionWordCount;
+  private buffers: Record<Category, string> = { text: '', header: '', caption: '', footnote: '', ignore: '' };
+
+  constructor(private source: string, private lineStarts: number[]) {
+    this.current = { level: '', title: '', line: 1, counts: emptyWordCountTotals() };
+  }
+
+  run(start: number, end: number): SectionWordCount[] {
+    this.scan(start, end, 'text');
+    this.flush();
+    this.sections.push(this.current);
+    // Text before the first heading only gets its own entry when there is some
+    return this.sections.filter(section => section.level || totalWords(section.counts) > 0 || section.counts.displayMath + section.counts.inlineMath + section.counts.floats > 0);
+  }
+
+  private lineAt(index: number): number {
+    let low = 0, high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (this.lineStarts[middle] <= index) low = middle; else high = middle - 1;
+    }
+    return low + 1;
+  }
+
+  private flush(): void {
+    const counts = this.current.counts;
+    counts.textWords += countPlainWords(this.buffers.text);
+    counts.headerWords += countPlainWords(this.buffers.header);
+    counts.captionWords += countPlainWords(this.buffers.caption);
+    counts.footnoteWords += countPlainWords(this.buffers.footnote);
+    this.buffers = { text: '', header: '', caption: '', footnote: '', ignore: '' };
+  }
+
+  private append(category: Category, text: string): void {
+    this.buffers[category] += text;
+  }
+
+  // Read arguments in `spec`; returns where they end and the spans of the mandatory ones
+  private readArguments(index: number, spec: string): { end: number; spans: { start: number; end: number; counted: boolean }[] } {
+    const spans: { start: number; end: number; counted: boolean }[] = [];
+    let position = index;
+    for (const kind of spec) {
+      const next = skipSpaces(this.source, position);
+      if (kind === 's') {
+        if (this.source[next] === '*') position = next + 1;
+      } else if (kind === 'o') {
+        if (this.source[next] === '[') {
+          const end = groupEnd(this.source, next, '[', ']');
+          if (end === -1) break;
+          position = end;
+        }
+      } else if (this.source[next] === '{') {
+        const end = groupEnd(this.source, next, '{', '}');
+        if (end === -1) break;
+        spans.push({ start: next + 1, end: end - 1, counted: kind === 'M' });
+        position = end;
+      } else if (next < this.source.length && this.source[next] !== '\\') {
+        // A single-token argument such as \ref x
+        spans.push({ start: next, end: next + 1, counted: kind === 'M' });
+        position = next + 1;
+      } else {
+        break;
+      }
+    }
+    return { end: position, spans };
+  }
+
+  private findEnvironmentEnd(name: string, from: number): { bodyEnd: number; end: number } {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const boundary = new RegExp(`\\\\(begin|end)\\s*\\{${escaped}\\}`, 'g');
+    boundary.lastIndex = from;
+    let depth = 1;
+    let match;
+    while ((match = boundary.exec(this.source)) !== null) {
+      depth += match[1] === 'begin' ? 1 : -1;
+      if (depth === 0) return { bodyEnd: match.index, end: match.index + match[0].length };
+    }
+    return { bodyEnd: this.source.length, end: this.source.length };
+  }
+
+  private scan(start: number, end: number, category: Category): void {
+    let i = start;
+    while (i < end) {
+      const char = this.source[i];
+
+      if (char === '$') {
+        const display = this.source[i + 1] === '$';
+        const closing = display ? '$$' : '$';
+        let close = i + closing.length;
+        while (close < end && (this.source.substr(close, closing.length) !== closing || this.source[close - 1] === '\\')) close++;
+        if (category !== 'ignore') {
+          if (display) this.current.counts.displayMath++; else this.current.counts.inlineMath++;
+        }
+        this.append(category, ' ');
+        i = Math.min(close + closing.length, end);
+        continue;
+      }
+
+      if (char !== '\\') {
+        if (char === '~' || char === '&') {
+          this.append(category, ' ');
+        } else if (char !== '{' && char !== '}') {
+          this.append(category, char);
+        }
+        i++;
+        continue;
+      }
+
+      // Control symbols
+      const next = this.source[i + 1] || '';
+      if (next === '(' || next === '[') {
+        const close = this.source.indexOf(next === '(' ? '\\)' : '\\]', i + 2);
+        if (category !== 'ignore') {
+          if (next === '(') this.current.counts.inlineMath++; else this.current.counts.displayMath++;
+        }
+        this.append(category, ' ');
+        i = close === -1 || close >= end ? end : close + 2;
+        continue;
+      }
+      if (ACCENT_COMMANDS.includes(next)) {
+        // An accent belongs to the word it is in: caf\'e, \"{o}
+        const argument = skipSpaces(this.source, i + 2);
+        if (this.source[argument] === '{') {
+          const close = groupEnd(this.source, argument, '{', '}');
+          this.append(category, this.source.substring(argument + 1, close === -1 ? argument + 1 : close - 1));
+          i = close === -1 ? argument + 1 : close;
+        } else {
+          this.append(category, this.source[argument] || '');
+          i = argument + 1;
+        }
+        continue;
+      }
+      if (next === '\\') {
+        // A line break may carry a star and extra space: \\*[2pt]
+        this.append(category, ' ');
+        i = this.readArguments(i + 2, 'so').end;
+        continue;
+      }
+      if (!/[A-Za-z@]/.test(next)) {
+        // \, \; \- and escaped characters: \- keeps a word together, the rest separate words
+        this.append(category, next === '-' ? '' : next === '%' || next === '&' || next === '$' ? next : ' ');
+        i += 2;
+        continue;
+      }
+
+      const nameMatch = this.source.substring(i + 1).match(/^[A-Za-z@]+/);
+      const name = nameMatch ? nameMatch[0] : '';
+      let position = i + 1 + name.length;
+      this.append(category, ' ');
+
+      if (name === 'begin') {
+        position = this.scanEnvironment(position, end, category);
+      } else if (name === 'end') {
+        position = this.readArguments(position, 'm').end;
+      } else if (HEADER_COMMANDS.includes(name)) {
+        position = this.scanHeader(name, i, position, category);
+      } else if (name === 'caption') {
+        position = this.scanArguments(position, 'som', category === 'ignore' ? 'ignore' : 'caption');
+      } else if (name === 'footnote' || name === 'footnotetext' || name === 'thanks') {
+        position = this.scanArguments(position, name === 'thanks' ? 'm' : 'om', category === 'ignore' ? 'ignore' : 'footnote');
+      } else if (name in COMMAND_ARGUMENTS) {
+        const { end: argumentsEnd, spans } = this.readArguments(position, COMMAND_ARGUMENTS[name]);
+        spans.filter(span => span.counted).forEach(span => this.scan(span.start, span.end, category));
+        position = argumentsEnd;
+      }
+      // Other commands are dropped; their arguments are read as text
+
+      i = Math.min(position, end);
+    }
+  }
+
+  // Mandatory arguments of `spec` scanned as `category`
+  private scanArguments(position: number, spec: string, category: Category): number {
+    const { end, spans } = this.readArguments(position, spec.replace(/m/g, 'M'));
+    spans.forEach(span => {
+      this.append(category, ' ');
+      this.scan(span.start, span.end, category);
+      this.append(category, ' ');
+    });
+    return end;
+  }
+
+  private scanHeader(name: string, commandStart: number, position: number, category: Category): number {
+    if (category === 'ignore') return this.readArguments(position, 'som').end;
+    const { end, spans } = this.readArguments(position, 'som');
+    const title = spans[0] ? this.source.substring(spans[0].start, spans[0].end).replace(/\s+/g, ' ').trim() : '';
+
+    // A heading starts a new section; what came before belongs to the previous one
+    this.flush();
+    this.sections.push(this.current);
+    this.current = { level: name, title, line: this.lineAt(commandStart), counts: emptyWordCountTotals() };
+    this.current.counts.headers++;
+    if (spans[0]) {
+      this.scan(spans[0].start, spans[0].end, 'header');
+    }
+    return end;
+  }
+
+  private scanEnvironment(position: number, end: number, category: Category): number {
+    const nameArgument = this.readArguments(position, 'm');
+    const span = nameArgument.spans[0];
+    const name = span ? this.source.substring(span.start, span.end).trim() : '';
+    const baseName = name.replace(/\*$/, '');
+    const bodyStart = this.readArguments(nameArgument.end, ENVIRONMENT_ARGUMENTS[name] || ENVIRONMENT_ARGUMENTS[baseName] || 'o').end;
+    const { bodyEnd, end: environmentEnd } = this.findEnvironmentEnd(name, bodyStart);
+
+    if (DISPLAY_MATH_ENVIRONMENTS.includes(baseName) || baseName === 'math') {
+      if (category !== 'ignore') {
+        if (baseName === 'math') this.current.counts.inlineMath++; else this.current.counts.displayMath++;
+      }
+    } else if (SKIPPED_ENVIRONMENTS.includes(baseName)) {
+      // Nothing in here is prose
+    } else if (FLOAT_ENVIRONMENTS.includes(baseName)) {
+      if (category !== 'ignore') this.current.counts.floats++;
+      this.scan(bodyStart, Math.min(bodyEnd, end), 'ignore');
+      // Captions are the float's only words; scan them on their own
+      this.scanCaptions(bodyStart, Math.min(bodyEnd, end), category);
+    } else {
+      this.scan(bodyStart, Math.min(bodyEnd, end), category);
+    }
+    this.append(category, ' ');
+    return environmentEnd;
+  }
+
+  private scanCaptions(start: number, end: number, category: Category): void {
+    if (category === 'ignore') return;
+    const captionRegex = /\\caption(?![A-Za-z@])/g;
+    captionRegex.lastIndex = start;
+    let match;
+    while ((match = captionRegex.exec(this.source)) !== null && match.index < end) {
+      captionRegex.lastIndex = this.scanArguments(match.index + match[0].length, 'som', 'caption');
+    }
+  }
+}
+
+/**
+ * Statistics for one file. Only the body is counted when the file has \begin{document};
+ * included files without one are counted whole.
+ */
+export const analyzeLatexWords = (content: string, path = 'main.tex'): FileWordCount => {
+  const source = stripComments(content);
+  let start = 0;
+  let end = source.length;
+  if (source.includes('\\begin{document}')) {
+    const body = new LaTeXTreeProcessor().parseDocument(source).children.find(node => node.type === 'body');
+    if (body) {
+      start = body.startPos;
+      end = body.endPos;
+    }
+  }
+
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const sections = new WordCounter(source, lineStarts).run(start, end);
+  const counts = emptyWordCountTotals();
+  sections.forEach(section => addTotals(counts, section.counts));
+  return { path, counts, sections };
+};
+
+// Project paths of the files `content` pulls in with \input, \include and \subfile
+const includedPaths = (content: string, hasFile: (path: string) => boolean): string[] => {
+  const paths: string[] = [];
+  const includeRegex = /\\(?:input|include|subfile)\s*\{([^}]+)\}/g;
+  let match;
+  while ((match = includeRegex.exec(stripComments(content))) !== null) {
+    const reference = match[1].trim().replace(/^\.\//, '');
+    const candidates = /\.[A-Za-z]+$/.test(reference) ? [reference] : [`${reference}.tex`, reference];
+    const path = candidates.find(hasFile);
+    if (path) paths.push(path);
+  }
+  return paths;
+};
+
+/**
+ * Statistics for a whole document: the main file and, in order, every file it includes.
+ * Each file is counted once, however often it is included.
+ */
+export const analyzeProjectWords = (
+  files: { path: string; content: string }[],
+  mainPath: string
+): DocumentWordCount => {
+  const byPath = new Map(files.map(file => [file.path, file.content]));
+  const order: string[] = [];
+  const visit = (path: string) => {
+    if (order.includes(path) || !byPath.has(path)) return;
+    order.push(path);
+    includedPaths(byPath.get(path)!, candidate => byPath.has(candidate)).forEach(visit);
+  };
+  visit(mainPath);
+
+  const fileCounts = order.map(path => analyzeLatexWords(byPath.get(path)!, path));
+  const counts = emptyWordCountTotals();
+  fileCounts.forEach(file => addTotals(counts, file.counts));
+  return { words: totalWords(counts), counts, files: fileCounts };
+};
@@ -4,6 +4,7 @@ module.exports = {
       './src/pages/**/*.{js,ts,jsx,tsx,mdx}',
       './src/components/**/*.{js,ts,jsx,tsx,mdx}',
       './src/app/**/*.{js,ts,jsx,tsx,mdx}',
+      './src/utils/**/*.{js,ts,jsx,tsx,mdx}',
     ],
     theme: {
       extend: {